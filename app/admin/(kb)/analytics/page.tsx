@@ -0,0 +1,257 @@
+import Link from "next/link";
+import { Suspense } from "react";
+
+import { adminTenant } from "@/lib/admin/tenant";
+import { loadMissingFaqs, loadSummary, parseRange, type Range, type VolumePoint } from "@/lib/analytics";
+import { loadDownvotedAnswers } from "@/lib/feedback";
+import { Button } from "@/components/ui/button";
+
+export const dynamic = "force-dynamic";
+
+const RANGES = [7, 30, 90];
+const TYPE_COLORS: Record<string, string> = {
+  faq: "bg-emerald-500",
+  review: "bg-sky-500",
+  fallback: "bg-amber-500",
+};
+
+const ms = (n: number | null) => (n == null ? "—" : `${Math.round(n)} ms`);
+
+function exportHref(report: string, days: number, tenant: string) {
+  return `/api/analytics?report=${report}&format=csv&days=${days}&tenant=${encodeURIComponent(tenant)}`;
+}
+
+// stacked bars per bucket, one segment per response type
+function VolumeChart({ points }: { points: VolumePoint[] }) {
+  const byBucket = new Map<string, Record<string, number>>();
+  for (const p of points) {
+    const key = p.bucket.toISOString().slice(0, 10);
+    const row = byBucket.get(key) ?? {};
+    row[p.responseType] = (row[p.responseType] ?? 0) + p.count;
+    byBucket.set(key, row);
+  }
+  const rows = Array.from(byBucket, ([day, types]) => ({
+    day,
+    types,
+    total: Object.values(types).reduce((n, c) => n + c, 0),
+  }));
+  const max = Math.max(1, ...rows.map((r) => r.total));
+
+  if (rows.length === 0) return <p className="text-sm text-muted-foreground">No queries in this range.</p>;
+
+  return (
+    <div className="flex h-48 items-end gap-1 rounded-md border p-4">
+      {rows.map((r) => (
+        <div
+          key={r.day}
+          className="flex min-w-[4px] flex-1 flex-col-reverse"
+          style={{ height: `${(r.total / max) * 100}%` }}
+          title={`${r.day}: ${r.total} (${Object.entries(r.types).map(([t, c]) => `${t} ${c}`).join(", ")})`}
+        >
+          {Object.entries(r.types).map(([t, c]) => (
+            <div
+              key={t}
+              className={TYPE_COLORS[t] ?? "bg-muted-foreground"}
+              style={{ height: `${(c / r.total) * 100}%` }}
+            />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+async function MissingFaqs({ tenantId, range }: { tenantId: string; range: Range }) {
+  let clusters;
+  try {
+    clusters = await loadMissingFaqs(tenantId, range);
+  } catch (err: any) {
+    return <p className="text-sm text-destructive">Could not cluster fallback queries: {err?.message}</p>;
+  }
+  if (clusters.length === 0) {
+    return <p className="text-sm text-muted-foreground">No repeated unanswered questions in this range.</p>;
+  }
+
+  return (
+    <ol className="space-y-3">
+      {clusters.slice(0, 30).map((c) => (
+        <li key={c.label} className="rounded-md border p-4">
+          <div className="flex items-baseline gap-3">
+            <p className="font-medium">{c.label}</p>
+            <span className="ml-auto text-xs text-muted-foreground">
+              asked {c.total}× · {c.queries.length} phrasing{c.queries.length === 1 ? "" : "s"}
+            </span>
+          </div>
+          {c.queries.length > 1 && (
+            <ul className="mt-2 space-y-0.5 text-sm text-muted-foreground">
+              {c.queries.slice(1, 6).map((q) => (
+                <li key={q.text}>
+                  {q.text} <span className="text-xs">({q.count})</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+async function DownvotedAnswers({ tenantId, range }: { tenantId: string; range: Range }) {
+  const answers = await loadDownvotedAnswers(tenantId, range, 30);
+  if (answers.length === 0) {
+    return <p className="text-sm text-muted-foreground">No downvoted answers in this range.</p>;
+  }
+
+  return (
+    <ol className="space-y-3">
+      {answers.map((a) => (
+        <li key={a.chunkId} className="space-y-2 rounded-md border p-4">
+          <div className="flex items-baseline gap-3">
+            <Link href={`/admin/documents/${a.documentId}`} className="font-medium hover:underline">
+              {a.title || a.url || "Untitled"}
+            </Link>
+            {a.superseded && <span className="text-xs text-muted-foreground">(since edited)</span>}
+            <span className="ml-auto text-xs text-muted-foreground">
+              👎 {a.down} · 👍 {a.up}
+            </span>
+          </div>
+          <p className="line-clamp-3 text-sm text-muted-foreground">{a.content}</p>
+          {a.queries.length > 0 && (
+            <p className="text-sm">
+              <span className="text-muted-foreground">Asked: </span>
+              {a.queries.join(" · ")}
+            </p>
+          )}
+          {a.comments.length > 0 && (
+            <ul className="space-y-0.5 text-sm italic">
+              {a.comments.map((c, i) => (
+                <li key={i}>“{c}”</li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+export default async function AnalyticsPage({ searchParams }: { searchParams: { days?: string } }) {
+  const days = RANGES.includes(Number(searchParams.days)) ? Number(searchParams.days) : 30;
+  const range = parseRange({ days: String(days) });
+  const tenant = await adminTenant();
+  const { total, volume, mix, latency } = await loadSummary(tenant.id, range);
+
+  return (
+    <div className="space-y-10">
+      <div className="flex flex-wrap items-center gap-4">
+        <div>
+          <h1 className="text-xl font-semibold">Analytics</h1>
+          <p className="text-sm text-muted-foreground">
+            {total} widget questions in the last {days} days.
+          </p>
+        </div>
+        <div className="ml-auto flex gap-2">
+          {RANGES.map((d) => (
+            <Button key={d} asChild size="sm" variant={d === days ? "default" : "outline"}>
+              <Link href={`/admin/analytics?days=${d}`}>{d}d</Link>
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <section className="space-y-4">
+        <div className="flex items-baseline gap-4">
+          <h2 className="text-lg font-semibold">Volume</h2>
+          <a href={exportHref("summary", days, tenant.slug)} className="text-sm text-muted-foreground hover:underline">
+            CSV
+          </a>
+          <a href={exportHref("queries", days, tenant.slug)} className="text-sm text-muted-foreground hover:underline">
+            all queries CSV
+          </a>
+        </div>
+        <VolumeChart points={volume} />
+      </section>
+
+      <div className="grid gap-10 lg:grid-cols-2">
+        <section className="space-y-4">
+          <h2 className="text-lg font-semibold">Answer types</h2>
+          <ul className="space-y-2">
+            {mix.map((m) => (
+              <li key={m.responseType} className="space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span>{m.responseType}</span>
+                  <span className="text-muted-foreground">
+                    {m.count} · {(m.share * 100).toFixed(1)}%
+                  </span>
+                </div>
+                <div className="h-2 rounded bg-secondary">
+                  <div
+                    className={`h-2 rounded ${TYPE_COLORS[m.responseType] ?? "bg-muted-foreground"}`}
+                    style={{ width: `${m.share * 100}%` }}
+                  />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        <section className="space-y-4">
+          <h2 className="text-lg font-semibold">Latency</h2>
+          <table className="w-full text-sm">
+            <thead className="text-left text-muted-foreground">
+              <tr>
+                <th className="font-normal">type</th>
+                <th className="font-normal">n</th>
+                <th className="font-normal">p50</th>
+                <th className="font-normal">p90</th>
+                <th className="font-normal">p99</th>
+              </tr>
+            </thead>
+            <tbody>
+              {latency.map((l) => (
+                <tr key={l.responseType ?? "all"} className={l.responseType ? "" : "font-medium"}>
+                  <td>{l.responseType ?? "all"}</td>
+                  <td>{l.samples}</td>
+                  <td>{ms(l.p50)}</td>
+                  <td>{ms(l.p90)}</td>
+                  <td>{ms(l.p99)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      </div>
+
+      <section className="space-y-4">
+        <div className="flex items-baseline gap-4">
+          <h2 className="text-lg font-semibold">Missing FAQs</h2>
+          <a href={exportHref("missing", days, tenant.slug)} className="text-sm text-muted-foreground hover:underline">
+            CSV
+          </a>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Questions that got the fallback reply, grouped by meaning. Each group is a candidate FAQ.
+        </p>
+        <Suspense fallback={<p className="text-sm text-muted-foreground">Clustering…</p>}>
+          <MissingFaqs tenantId={tenant.id} range={range} />
+        </Suspense>
+      </section>
+
+      <section className="space-y-4">
+        <div className="flex items-baseline gap-4">
+          <h2 className="text-lg font-semibold">Downvoted answers</h2>
+          <a href={exportHref("downvotes", days, tenant.slug)} className="text-sm text-muted-foreground hover:underline">
+            CSV
+          </a>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Answers shoppers marked as wrong, most downvotes first. Votes also lower these answers in search.
+        </p>
+        <Suspense fallback={<p className="text-sm text-muted-foreground">Loading…</p>}>
+          <DownvotedAnswers tenantId={tenant.id} range={range} />
+        </Suspense>
+      </section>
+    </div>
+  );
+}
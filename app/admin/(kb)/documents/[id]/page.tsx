@@ -0,0 +1,76 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+import { getDocumentWithChunks } from "@/lib/admin/queries";
+import { adminTenant } from "@/lib/admin/tenant";
+import { DeleteDocumentButton } from "@/components/admin/delete-document-button";
+import { FaqForm } from "@/components/admin/faq-form";
+
+export const dynamic = "force-dynamic";
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export default async function DocumentPage({ params }: { params: { id: string } }) {
+  if (!UUID_RE.test(params.id)) notFound();
+  const found = await getDocumentWithChunks((await adminTenant()).id, params.id);
+  if (!found) notFound();
+
+  const { doc, chunks } = found;
+  const source = doc.meta.source || "faq";
+  // crawled pages are owned by the crawler; editing them here would be overwritten
+  const editable = /^(faq|review):\/\//.test(doc.url);
+
+  return (
+    <div className="space-y-10">
+      <div className="flex flex-wrap items-start gap-4">
+        <div className="space-y-1">
+          <Link href="/admin" className="text-sm text-muted-foreground hover:underline">
+            ← Documents
+          </Link>
+          <h1 className="text-xl font-semibold">{doc.title || doc.url}</h1>
+          <p className="text-xs text-muted-foreground">
+            {source} · {doc.url} · v{doc.version} · updated {new Date(doc.updatedAt).toLocaleString()}
+          </p>
+        </div>
+        <div className="ml-auto">
+          <DeleteDocumentButton id={doc.id} />
+        </div>
+      </div>
+
+      <section className="space-y-4">
+        <h2 className="text-lg font-semibold">Content</h2>
+        {editable ? (
+          <FaqForm document={{ id: doc.id, title: doc.title, content: doc.content, source }} />
+        ) : (
+          <p className="whitespace-pre-wrap rounded-md border p-4 text-sm">{doc.content}</p>
+        )}
+      </section>
+
+      <section className="space-y-4">
+        <h2 className="text-lg font-semibold">
+          Chunks <span className="text-muted-foreground">({chunks.length})</span>
+        </h2>
+        <ol className="space-y-3">
+          {chunks.map((c) => (
+            <li key={c.id} className="rounded-md border p-4">
+              <div className="mb-2 flex flex-wrap gap-x-4 text-xs text-muted-foreground">
+                <span className="font-semibold text-foreground">#{c.chunkIndex}</span>
+                {c.charStart != null && (
+                  <span>
+                    chars {c.charStart}–{c.charEnd}
+                  </span>
+                )}
+                <span>{c.content.length} chars</span>
+                {c.headingPath.length > 0 && <span>{c.headingPath.join(" › ")}</span>}
+                <span className={c.embedded ? "" : "text-destructive"}>
+                  {c.embedded ? "embedded" : "no embedding"}
+                </span>
+              </div>
+              <p className="whitespace-pre-wrap text-sm">{c.content}</p>
+            </li>
+          ))}
+        </ol>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import Link from "next/link";
+import { Toaster } from "sonner";
+
+import { logout, switchTenant } from "@/lib/actions/admin";
+import { listAdminTenants } from "@/lib/admin/queries";
+import { adminTenant } from "@/lib/admin/tenant";
+import { Button } from "@/components/ui/button";
+
+export default async function AdminLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  const [tenant, tenants] = await Promise.all([adminTenant(), listAdminTenants()]);
+
+  return (
+    <div className="min-h-screen">
+      <header className="border-b">
+        <div className="container flex h-14 items-center gap-6">
+          <Link href="/admin" className="font-semibold">
+            {tenant.name} knowledge base
+          </Link>
+          <nav className="flex gap-4 text-sm text-muted-foreground">
+            <Link href="/admin" className="hover:text-foreground">
+              Documents
+            </Link>
+            <Link href="/admin/search" className="hover:text-foreground">
+              Test queries
+            </Link>
+            <Link href="/admin/analytics" className="hover:text-foreground">
+              Analytics
+            </Link>
+          </nav>
+          {tenants.length > 1 && (
+            <form action={switchTenant} className="ml-auto flex items-center gap-2">
+              <select
+                name="tenant"
+                defaultValue={tenant.slug}
+                className="h-8 rounded-md border bg-background px-2 text-sm"
+                aria-label="Tenant"
+              >
+                {tenants.map((t) => (
+                  <option key={t.id} value={t.slug}>
+                    {t.name}
+                  </option>
+                ))}
+              </select>
+              <Button variant="outline" size="sm" type="submit">
+                Switch
+              </Button>
+            </form>
+          )}
+          <form action={logout} className={tenants.length > 1 ? "" : "ml-auto"}>
+            <Button variant="ghost" size="sm" type="submit">
+              Log out
+            </Button>
+          </form>
+        </div>
+      </header>
+      <main className="container py-8">{children}</main>
+      <Toaster richColors />
+    </div>
+  );
+}
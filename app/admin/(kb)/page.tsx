@@ -0,0 +1,111 @@
+import Link from "next/link";
+
+import { listDocuments, listSourceBuckets } from "@/lib/admin/queries";
+import { adminTenant } from "@/lib/admin/tenant";
+import { cn } from "@/lib/utils";
+import { FaqForm } from "@/components/admin/faq-form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+export const dynamic = "force-dynamic";
+
+type SearchParams = { source?: string; q?: string; page?: string };
+
+function href(params: SearchParams) {
+  const qs = new URLSearchParams(
+    Object.entries(params).filter((e): e is [string, string] => !!e[1]),
+  ).toString();
+  return qs ? `/admin?${qs}` : "/admin";
+}
+
+export default async function DocumentsPage({ searchParams }: { searchParams: SearchParams }) {
+  const source = searchParams.source || undefined;
+  const q = searchParams.q?.trim() || undefined;
+  const page = Number(searchParams.page) || 0;
+
+  const tenant = await adminTenant();
+  const [buckets, { items, hasMore }] = await Promise.all([
+    listSourceBuckets(tenant.id),
+    listDocuments(tenant.id, { source, q, page }),
+  ]);
+  const total = buckets.reduce((n, b) => n + b.count, 0);
+
+  return (
+    <div className="grid gap-10 lg:grid-cols-[1fr_360px]">
+      <section className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Button asChild variant={source ? "outline" : "default"} size="sm">
+            <Link href={href({ q })}>
+              all ({total})
+            </Link>
+          </Button>
+          {buckets.map((b) => (
+            <Button
+              key={b.source}
+              asChild
+              variant={source === b.source ? "default" : "outline"}
+              size="sm"
+            >
+              <Link href={href({ source: b.source, q })}>
+                {b.source} ({b.count})
+              </Link>
+            </Button>
+          ))}
+        </div>
+
+        <form className="flex gap-2" action="/admin">
+          {source && <input type="hidden" name="source" value={source} />}
+          <Input name="q" placeholder="Filter by text…" defaultValue={q} />
+          <Button type="submit" variant="secondary">
+            Filter
+          </Button>
+        </form>
+
+        <ul className="divide-y rounded-md border">
+          {items.length === 0 && (
+            <li className="p-4 text-sm text-muted-foreground">No documents.</li>
+          )}
+          {items.map((d) => (
+            <li key={d.id}>
+              <Link href={`/admin/documents/${d.id}`} className="block p-4 hover:bg-muted/50">
+                <div className="flex items-baseline gap-3 text-xs text-muted-foreground">
+                  <span className="rounded bg-secondary px-1.5 py-0.5">{d.source}</span>
+                  <span>
+                    {d.chunks} chunk{d.chunks === 1 ? "" : "s"}
+                  </span>
+                  <span className="ml-auto">{new Date(d.updatedAt).toLocaleString()}</span>
+                </div>
+                <p className="mt-1 font-medium">{d.title || d.url}</p>
+                <p className={cn("mt-1 line-clamp-2 text-sm text-muted-foreground")}>{d.preview}</p>
+              </Link>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex justify-between">
+          {page > 0 ? (
+            <Button asChild variant="outline" size="sm">
+              <Link href={href({ source, q, page: String(page - 1) })}>
+                ← Newer
+              </Link>
+            </Button>
+          ) : (
+            <span />
+          )}
+          {hasMore && (
+            <Button asChild variant="outline" size="sm">
+              <Link href={href({ source, q, page: String(page + 1) })}>
+                Older →
+              </Link>
+            </Button>
+          )}
+        </div>
+      </section>
+
+      <aside className="space-y-4">
+        <h2 className="text-lg font-semibold">New FAQ entry</h2>
+        <FaqForm buckets={Array.from(new Set(["faq", ...buckets.map((b) => b.source)]))} />
+      </aside>
+    </div>
+  );
+}
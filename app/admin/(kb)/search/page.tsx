@@ -0,0 +1,21 @@
+import { listSourceBuckets } from "@/lib/admin/queries";
+import { adminTenant } from "@/lib/admin/tenant";
+import { TestQueryPanel } from "@/components/admin/test-query-panel";
+
+export const dynamic = "force-dynamic";
+
+export default async function TestQueriesPage() {
+  const buckets = await listSourceBuckets((await adminTenant()).id);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-xl font-semibold">Test queries</h1>
+        <p className="text-sm text-muted-foreground">
+          Runs the same retrieval as /api/search and /api/answer and shows the ranked hits.
+        </p>
+      </div>
+      <TestQueryPanel buckets={Array.from(new Set(["faq", ...buckets.map((b) => b.source)]))} />
+    </div>
+  );
+}
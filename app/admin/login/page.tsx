@@ -0,0 +1,21 @@
+import { adminSecret } from "@/lib/admin/auth";
+import { LoginForm } from "@/components/admin/login-form";
+
+export const dynamic = "force-dynamic";
+
+export default function LoginPage({ searchParams }: { searchParams: { next?: string } }) {
+  return (
+    <main className="flex min-h-screen items-center justify-center p-6">
+      <div className="w-full max-w-sm space-y-6 rounded-lg border p-6">
+        <h1 className="text-lg font-semibold">WiMO knowledge base</h1>
+        {adminSecret() ? (
+          <LoginForm next={searchParams.next} />
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Admin is disabled. Set ADMIN_SECRET (or INGEST_SECRET) to enable it.
+          </p>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,121 @@
+// app/api/analytics/route.ts
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  listChatQueries,
+  loadMissingFaqs,
+  loadSummary,
+  parseBucket,
+  parseRange,
+  toCsv,
+  type Range,
+} from "@/lib/analytics";
+import { withApiAuth, type ApiAuth } from "@/lib/auth/guard";
+import { withDrizzle, withPgClient } from "@/lib/db/pg";
+import { loadDownvotedAnswers } from "@/lib/feedback";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/analytics?report=summary|missing|queries|downvotes&format=json|csv&days=30 (or from/to)&bucket=day
+// admin session, or a secret key with the "analytics" scope; always one tenant's queries
+export const GET = withApiAuth({ scope: "analytics" }, getAnalytics);
+
+async function getAnalytics(req: NextRequest, _ctx: unknown, { tenant }: ApiAuth) {
+  const p = req.nextUrl.searchParams;
+  const report = p.get("report") || "summary";
+  const csv = p.get("format") === "csv";
+
+  let range: Range;
+  try {
+    range = parseRange({ from: p.get("from"), to: p.get("to"), days: p.get("days") });
+  } catch {
+    return NextResponse.json({ error: "invalid from/to/days" }, { status: 400 });
+  }
+
+  try {
+    if (report === "summary") {
+      const summary = await loadSummary(tenant.id, range, parseBucket(p.get("bucket")));
+      if (!csv) return NextResponse.json(summary);
+      return csvResponse(
+        toCsv(
+          summary.volume.map((v) => ({ ...v, bucket: v.bucket.toISOString() })),
+          ["bucket", "responseType", "count"],
+        ),
+        "volume",
+        range,
+      );
+    }
+
+    if (report === "missing") {
+      const clusters = await loadMissingFaqs(tenant.id, range, {
+        threshold: Number(p.get("threshold")) || undefined,
+        minTotal: Number(p.get("minTotal")) || undefined,
+      });
+      if (!csv) return NextResponse.json({ range, clusters });
+      return csvResponse(
+        toCsv(
+          clusters.flatMap((c, i) =>
+            c.queries.map((q) => ({ cluster: i + 1, label: c.label, total: c.total, query: q.text, count: q.count })),
+          ),
+          ["cluster", "label", "total", "query", "count"],
+        ),
+        "missing-faqs",
+        range,
+      );
+    }
+
+    if (report === "queries") {
+      const rows = await withPgClient((client) => listChatQueries(withDrizzle(client), tenant.id, range));
+      if (!csv) return NextResponse.json({ range, rows });
+      return csvResponse(
+        toCsv(rows, [
+          "id",
+          "askedAt",
+          "sessionId",
+          "urlPath",
+          "queryText",
+          "standaloneQuery",
+          "endpoint",
+          "origin",
+          "responseType",
+          "faqId",
+          "faqTitle",
+          "reviewsCount",
+          "responseMs",
+          "responseText",
+          "userAgent",
+        ]),
+        "chat-queries",
+        range,
+      );
+    }
+
+    if (report === "downvotes") {
+      const answers = await loadDownvotedAnswers(tenant.id, range, Number(p.get("limit")) || undefined);
+      if (!csv) return NextResponse.json({ range, answers });
+      return csvResponse(
+        toCsv(
+          answers.map((a) => ({ ...a, comments: a.comments.join(" | "), queries: a.queries.join(" | ") })),
+          ["chunkId", "documentId", "title", "url", "down", "up", "superseded", "lastVotedAt", "queries", "comments", "content"],
+        ),
+        "downvoted-answers",
+        range,
+      );
+    }
+
+    return NextResponse.json({ error: `unknown report: ${report}` }, { status: 400 });
+  } catch (err: any) {
+    console.error("analytics error:", err);
+    return NextResponse.json({ error: err?.message || "unknown" }, { status: 500 });
+  }
+}
+
+function csvResponse(body: string, name: string, range: Range) {
+  const day = (d: Date) => d.toISOString().slice(0, 10);
+  return new NextResponse(body, {
+    headers: {
+      "content-type": "text/csv; charset=utf-8",
+      "content-disposition": `attachment; filename="${name}_${day(range.from)}_${day(range.to)}.csv"`,
+    },
+  });
+}
@@ -1,181 +1,226 @@
 // app/api/answer/route.ts
 import { NextResponse } from 'next/server';
-import OpenAI from 'openai';
-import pkg from 'pg';
+import type { AnswerResponse, ApiError } from '@/lib/api/v1';
+import { getChatModel } from '@/lib/ai/chat';
+import { refusalMessage, streamGroundedAnswer } from '@/lib/ai/answer';
+import { rewriteQuery } from '@/lib/ai/rewrite';
+import { preflight, withApiAuth, type ApiAuth } from '@/lib/auth/guard';
+import { parseHistory, resolveHistory, sessionKey, sessionMemory } from '@/lib/chat/memory';
+import { getPool, withDrizzle } from '@/lib/db/pg';
+import { startTrace, type InteractionTrace } from '@/lib/interactions';
+import { REVIEW_SOURCE } from '@/lib/reviews';
+import { ANSWER_SOURCES, embedForRetrieval, retrieve } from '@/lib/retrieval';
+import { parseReviewQuery, searchReviews } from '@/lib/retrieval/reviews';
+import { assistantProfile, reviewLinkFor } from '@/lib/tenants';
 
-const { Client } = pkg;
-
-const FAQ_MIN_SIM = 0.78;
 const MAX_FAQ_RETURN = 3;
 const MAX_REVIEW_RETURN = 3;
-const REVIEW_GOOGLE_URL =
-  'https://www.google.com/search?q=wimo+ready+to+wear+saree+reviews';
-
-// quick helper – light keyword scoring for reviews (since review embeddings are still null)
-function normalize(str: string) {
-  return str.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
-}
+const MAX_CONTEXT_CHUNKS = 5;
 
-function scoreText(text: string, query: string) {
-  const qWords = normalize(query).split(' ').filter(Boolean);
-  const t = normalize(text);
-  let hits = 0;
-  for (const w of qWords) {
-    if (t.includes(w)) hits++;
-  }
-  return hits;
-}
+// publishable widget key (or a secret key); CORS and rate limits from the guard,
+// which also picks the tenant whose FAQs, reviews, model and prompt we answer with
+export const OPTIONS = preflight();
+export const POST = withApiAuth({ audience: 'public' }, postAnswer);
 
-export async function POST(req: Request) {
+// every request is recorded server-side (lib/interactions): retrieved chunks with
+// scores, the answer path and per-stage timings, written in batches off the request path
+async function postAnswer(req: Request, _ctx: unknown, { tenant }: ApiAuth) {
+  let trace: InteractionTrace | null = null;
   try {
     const body = await req.json().catch(() => ({}));
     const query = (body?.query ?? '').toString().trim();
     const wantReviewsOnly = !!body?.showReviews;
+    // mode: "generate" → stream a grounded LLM answer instead of raw FAQ chunks
+    const wantGenerate = body?.mode === 'generate';
+    // multi-turn: same session_id the widget sends to /api/log, plus optional
+    // client-side history ([{ role: 'user', content }]; assistant turns are ignored)
+    const sessionId = body?.session_id ? String(body.session_id) : null;
+    const urlPath = body?.url_path ? String(body.url_path).slice(0, 500) : null;
+    const clientHistory = parseHistory(body?.history);
+    // review filters/paging for showReviews: { minRating, from, to, sinceDays, topic, sort, page, pageSize }
+    const reviewQuery = parseReviewQuery(body?.reviews);
 
     if (!query) {
-      return NextResponse.json({ ok: false, error: 'Missing "query"' }, { status: 400 });
+      return NextResponse.json<ApiError>({ ok: false, error: 'Missing "query"' }, { status: 400 });
     }
-
-    const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-    const SUPABASE_CONN = process.env.SUPABASE_CONN;
-    if (!OPENAI_API_KEY || !SUPABASE_CONN) {
-      return NextResponse.json(
-        { ok: false, error: 'Missing OPENAI_API_KEY or SUPABASE_CONN' },
-        { status: 500 },
+    if (!reviewQuery.success) {
+      return NextResponse.json<ApiError>(
+        {
+          ok: false,
+          error: 'invalid review filters',
+          issues: reviewQuery.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`),
+        },
+        { status: 400 },
       );
     }
 
-    const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
-    const client = new Client({ connectionString: SUPABASE_CONN });
-    await client.connect();
+    trace = startTrace({ endpoint: 'answer', tenantId: tenant.id, query, sessionId, urlPath, req });
+    const t = trace;
 
-    // ⬇️ get embedding for user query
-    const emb = await openai.embeddings.create({
-      model: 'text-embedding-3-small',
-      input: query,
-    });
-    const queryEmbedding = emb.data[0].embedding;
-    const vecLiteral = `[${queryEmbedding.join(',')}]`;
+    // OPENAI_API_KEY is checked by whichever provider (chat / embeddings) needs it; queries go
+    // through the shared pool one at a time, so nothing is held open across the model calls
+    const pool = getPool();
+
+    // follow-ups ("how long does that take?") → standalone query before embedding
+    const model = getChatModel(tenant.config.chatModel);
+    const profile = assistantProfile(tenant);
+    const refusal = refusalMessage(profile);
+    const history = await t.time('db', () =>
+      resolveHistory(withDrizzle(pool), tenant.id, sessionId, clientHistory),
+    );
+    const standaloneQuery = await t.time('rewrite', () => rewriteQuery(query, history, model));
+    t.rewritten(standaloneQuery);
+    // one embedding for reviews or answers, timed apart from the searches
+    const embedding = await t.time('embed', () => embedForRetrieval(standaloneQuery, pool));
+    const remember = (answer: string) => {
+      if (!sessionId) return;
+      sessionMemory.set(sessionKey(tenant.id, sessionId), [
+        ...history,
+        { role: 'user', content: query },
+        { role: 'assistant', content: answer },
+      ]);
+    };
+    const conversation = {
+      interaction_id: t.id,
+      session_id: sessionId,
+      ...(standaloneQuery !== query ? { standaloneQuery } : {}),
+    };
 
     // --------------------------------------------------
     // CASE A: user explicitly said "showReviews"
     // --------------------------------------------------
     if (wantReviewsOnly) {
-      // try to get reviews from DB
-      // remember: review chunks currently have NULL embedding, so we do text match + recency
-      const { rows: reviewRows } = await client.query(
-        `
-        SELECT
-          dc.content,
-          d.url,
-          d.meta,
-          d.created_at
-        FROM document_chunks dc
-        JOIN documents d ON d.id = dc.document_id
-        WHERE (d.meta->>'source') = 'google-review'
-          AND dc.content ILIKE '%' || $1 || '%'
-        ORDER BY d.created_at DESC
-        LIMIT 30;
-        `,
-        [query],
+      const reviews = await t.time('db', () =>
+        searchReviews(
+          { ...reviewQuery.data, query: standaloneQuery, embedding },
+          { db: pool, tenant, defaultPageSize: MAX_REVIEW_RETURN },
+        ),
       );
-
-      // fallback: just take latest if no text match
-      let ranked = reviewRows;
-      if (reviewRows.length > 0) {
-        ranked = reviewRows
-          .map((r: any) => ({
-            ...r,
-            _score: scoreText(r.content || '', query),
-          }))
-          .sort((a, b) => {
-            if (b._score !== a._score) return b._score - a._score;
-            return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
-          });
-      }
-
-      await client.end();
-
-      const top = ranked.slice(0, MAX_REVIEW_RETURN).map((r: any) => ({
-        content: r.content,
-        source: 'google-review',
-        link: REVIEW_GOOGLE_URL,
+      t.reviewHits(reviews.items);
+
+      const top = reviews.items.map((r) => ({
+        content: r.text,
+        similarity: r.similarity,
+        source: REVIEW_SOURCE,
+        link: r.sourceUrl,
+        reviewer: r.reviewer,
+        rating: r.rating,
+        date: r.date,
+        platform: r.platform,
       }));
 
-      return NextResponse.json({
+      const shown = top.map((r) => r.content).join('\n\n') || refusal;
+      remember(shown);
+      t.finish({ responseType: 'review', reviewsCount: top.length, responseText: shown });
+
+      return NextResponse.json<AnswerResponse>({
         ok: true,
         query,
-        source: 'google-review',
+        ...conversation,
+        source: REVIEW_SOURCE,
         results: top,
-        reviewLink: REVIEW_GOOGLE_URL,
+        reviewLink: reviewLinkFor(tenant),
+        stats: reviews.stats,
+        sort: reviews.sort,
+        page: reviews.page,
+        pageSize: reviews.pageSize,
+        hasMore: reviews.hasMore,
       });
     }
 
     // --------------------------------------------------
-    // CASE B: normal chat → FAQ first
+    // CASE B: normal chat → FAQ first (same ranking as /api/search, but only hits that clear
+    // the stricter answer floor; a keyword match alone never gets answered with)
     // --------------------------------------------------
-    const { rows } = await client.query(
-      `
-      SELECT
-        dc.document_id,
-        dc.content,
-        dc.chunk_index,
-        d.url,
-        d.meta,
-        1 - (dc.embedding <=> $1::vector) AS similarity
-      FROM document_chunks dc
-      JOIN documents d ON d.id = dc.document_id
-      ORDER BY dc.embedding <=> $1::vector
-      LIMIT 20;
-      `,
-      [vecLiteral],
+    const { hits } = await t.time('db', () =>
+      retrieve(
+        { query: standaloneQuery, sources: ANSWER_SOURCES, k: MAX_CONTEXT_CHUNKS, embedding, gate: 'answer' },
+        { db: pool, tenant },
+      ),
     );
-
-    await client.end();
-
-    // tag each row
-    const enriched = rows.map((r: any) => {
-      const src =
-        (r.meta && typeof r.meta === 'object' && (r.meta.source || r.meta.type)) || 'faq';
-      return {
-        content: r.content,
-        similarity: Number(r.similarity),
-        source: src,
-        url: r.url,
-      };
-    });
+    t.hits(hits);
+
+    if (wantGenerate) {
+      const generated = t.begin('generate');
+      const stream = streamGroundedAnswer({
+        query: standaloneQuery,
+        sources: hits.slice(0, MAX_CONTEXT_CHUNKS),
+        model,
+        profile,
+        onComplete: (answer, refused) => {
+          remember(answer);
+          generated();
+          t.finish({
+            responseType: refused ? 'fallback' : 'generated',
+            faqId: refused ? null : hits[0]?.documentId,
+            faqTitle: refused ? null : hits[0]?.title,
+            responseText: answer,
+          });
+        },
+        onError: (err) => {
+          generated();
+          t.fail(err);
+        },
+      });
+      return new Response(stream, {
+        headers: {
+          'content-type': 'text/event-stream; charset=utf-8',
+          'cache-control': 'no-cache, no-transform',
+          connection: 'keep-alive',
+          'x-interaction-id': t.id,
+          ...(sessionId ? { 'x-session-id': sessionId } : {}),
+          ...(standaloneQuery !== query
+            ? { 'x-standalone-query': encodeURIComponent(standaloneQuery) }
+            : {}),
+        },
+      });
+    }
 
     // 1) take FAQ hits first
-    const faqHits = enriched
-      .filter((r) => r.source === 'faq' && r.similarity >= FAQ_MIN_SIM)
-      .slice(0, MAX_FAQ_RETURN);
+    const faqHits = hits.slice(0, MAX_FAQ_RETURN);
 
     if (faqHits.length > 0) {
-      return NextResponse.json({
+      remember(faqHits[0].content);
+      t.finish({
+        responseType: 'faq',
+        faqId: faqHits[0].documentId,
+        faqTitle: faqHits[0].title,
+        responseText: faqHits[0].content,
+      });
+
+      return NextResponse.json<AnswerResponse>({
         ok: true,
         query,
+        ...conversation,
         source: 'faq',
         results: faqHits.map((r) => ({
+          chunkId: r.chunkId,
           content: r.content,
           similarity: r.similarity,
-          source: 'faq',
+          source: r.source,
+          url: r.url,
+          citation: r.citation,
         })),
         canShowReviews: true, // 👈 FE can now ask: "Do you want to see customer reviews related to this?"
       });
     }
 
     // 2) if no FAQ → try reviews directly
-    return NextResponse.json({
+    remember(refusal);
+    t.finish({ responseType: 'fallback', responseText: refusal });
+
+    return NextResponse.json<AnswerResponse>({
       ok: true,
       query,
+      ...conversation,
       source: 'none',
       results: [],
       canShowReviews: true, // still offer reviews
-      message:
-        'I could not find this in FAQs. Do you want to see what customers said about WiMO?',
+      message: refusal,
     });
   } catch (err: any) {
     console.error('answer error:', err);
-    return NextResponse.json({ ok: false, error: String(err?.message || err) }, { status: 500 });
+    trace?.fail(err);
+    return NextResponse.json<ApiError>({ ok: false, error: String(err?.message || err) }, { status: 500 });
   }
 }
@@ -0,0 +1,51 @@
+// app/api/feedback/route.ts
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+import type { ApiError, FeedbackResponse } from "@/lib/api/v1";
+import { preflight, withApiAuth, type ApiAuth } from "@/lib/auth/guard";
+import { apiRateLimiter, rateLimitHeaders } from "@/lib/auth/limiter";
+import { withDrizzle, withPgClient } from "@/lib/db/pg";
+import { feedbackInputSchema, recordFeedback, VOTES_PER_INTERACTION } from "@/lib/feedback";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// thumbs up/down from the widget on one answer:
+// { interaction_id, rating: "up" | "down", chunk_id?, comment?, session_id? }
+// votes feed the ranking (lib/retrieval) and the admin downvote report; each
+// interaction takes a handful of votes a minute on top of the caller's own limit
+export const OPTIONS = preflight();
+export const POST = withApiAuth({ audience: "public" }, postFeedback);
+
+async function postFeedback(req: Request, _ctx: unknown, { tenant }: ApiAuth) {
+  try {
+    const body = feedbackInputSchema.parse((await req.json().catch(() => null)) ?? {});
+    const rate = await apiRateLimiter.check([
+      { id: `vote:${tenant.id}:${body.interaction_id}`, limit: VOTES_PER_INTERACTION },
+    ]);
+    if (rate && !rate.allowed) {
+      return NextResponse.json<ApiError>(
+        { ok: false, error: "too many votes on this answer" },
+        { status: 429, headers: rateLimitHeaders(rate) },
+      );
+    }
+    const row = await withPgClient((client) => recordFeedback(withDrizzle(client), tenant.id, body));
+    if (!row) {
+      return NextResponse.json<ApiError>({ ok: false, error: "chunk not found in that answer" }, { status: 404 });
+    }
+    return NextResponse.json<FeedbackResponse>({ ok: true }, { status: 201 });
+  } catch (err: any) {
+    if (err instanceof ZodError) {
+      return NextResponse.json<ApiError>(
+        {
+          ok: false,
+          error: "invalid feedback",
+          issues: err.issues.map((i) => `${i.path.join(".")}: ${i.message}`),
+        },
+        { status: 400 },
+      );
+    }
+    console.error("feedback error:", err);
+    return NextResponse.json<ApiError>({ ok: false, error: String(err?.message || err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,81 @@
+// app/api/ingest/batch/route.ts
+export const runtime = 'nodejs';
+
+import { NextResponse } from 'next/server';
+import { getEmbeddingProvider } from '@/lib/ai/embeddings';
+import { withApiAuth, type ApiAuth } from '@/lib/auth/guard';
+import { config } from '@/lib/config';
+import { withDb, withDrizzle, withPgClient } from '@/lib/db/pg';
+import { parseBatchFile, validateBatch } from '@/lib/ingest/batch';
+import { createIngestJob, getIngestJob, runIngestJob } from '@/lib/ingest/jobs';
+
+// POST { documents: [{ content, title?, sourceBucket?, chunking? }] }
+//   or multipart/form-data with a `file` (.jsonl, one document per line, or .csv)
+// → 202 { jobId }; poll GET /api/ingest/jobs/:id. ?wait=1 runs it inline and returns the finished job.
+export const POST = withApiAuth({ scope: 'ingest' }, postBatch);
+
+async function postBatch(req: Request, _ctx: unknown, { tenant }: ApiAuth) {
+  try {
+    const ct = req.headers.get('content-type') || '';
+    let parsed;
+    if (ct.includes('multipart/form-data')) {
+      const file = (await req.formData()).get('file');
+      if (!file || typeof file === 'string') {
+        return NextResponse.json({ ok: false, error: 'expected a "file" field' }, { status: 400 });
+      }
+      parsed = parseBatchFile(file.name, await file.text());
+    } else {
+      const body = (await req.json().catch(() => null)) as any;
+      const raw = Array.isArray(body) ? body : body?.documents;
+      if (!Array.isArray(raw)) {
+        return NextResponse.json(
+          { ok: false, error: 'expected { documents: [...] } or a multipart "file"' },
+          { status: 400 }
+        );
+      }
+      parsed = validateBatch(raw);
+    }
+
+    const { items, errors } = parsed;
+    if (errors.length) {
+      return NextResponse.json({ ok: false, error: 'invalid documents', invalid: errors }, { status: 400 });
+    }
+    if (items.length === 0) {
+      return NextResponse.json({ ok: false, error: 'no documents provided' }, { status: 400 });
+    }
+    const { batchDocuments } = config().limits;
+    if (items.length > batchDocuments) {
+      return NextResponse.json(
+        { ok: false, error: `at most ${batchDocuments} documents per batch` },
+        { status: 413 }
+      );
+    }
+
+    const embedder = getEmbeddingProvider();
+    const jobId = await withPgClient((client) => createIngestJob(withDrizzle(client), tenant.id, items));
+
+    // the job outlives this request unless ?wait=1, checking connections out only per write.
+    // Its documents are stored with it, so if this process dies the ingest worker
+    // (lib/ingest/jobs, started in instrumentation.ts) finishes it.
+    const run = runIngestJob(withDb, embedder, jobId).catch((e) =>
+      console.error(`[ingest-job ${jobId}] crashed`, e)
+    );
+
+    if (new URL(req.url).searchParams.get('wait') === '1') {
+      await run;
+      const job = await withPgClient((client) => getIngestJob(withDrizzle(client), tenant.id, jobId));
+      return NextResponse.json({ ok: true, jobId, job });
+    }
+
+    return NextResponse.json(
+      { ok: true, jobId, total: items.length, statusUrl: `/api/ingest/jobs/${jobId}` },
+      { status: 202 }
+    );
+  } catch (err: any) {
+    console.error('Batch ingest error:', err);
+    return NextResponse.json(
+      { ok: false, error: String(err?.message || err) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+// app/api/ingest/documents/route.ts
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { withApiAuth, type ApiAuth } from '@/lib/auth/guard';
+import { withDrizzle, withPgClient } from '@/lib/db/pg';
+import { deleteDocument, getDocumentVersions, type DocumentRef } from '@/lib/ingest/documents';
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// ?id=<uuid> or ?externalKey=<key>
+function readRef(url: URL): DocumentRef | { error: string } {
+  const id = url.searchParams.get('id')?.trim();
+  const externalKey = url.searchParams.get('externalKey')?.trim();
+  if (id) return UUID_RE.test(id) ? { id } : { error: '"id" must be a uuid' };
+  if (externalKey) return { externalKey };
+  return { error: 'pass "id" or "externalKey"' };
+}
+
+// the document (even if soft-deleted) and its previous versions, newest first
+export const GET = withApiAuth({ scope: 'ingest' }, getDocument);
+
+async function getDocument(req: Request, _ctx: unknown, { tenant }: ApiAuth) {
+  try {
+    const ref = readRef(new URL(req.url));
+    if ('error' in ref) {
+      return NextResponse.json({ ok: false, error: ref.error }, { status: 400 });
+    }
+
+    const found = await withPgClient((client) => getDocumentVersions(withDrizzle(client), tenant.id, ref));
+    if (!found) {
+      return NextResponse.json({ ok: false, error: 'document not found' }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true, ...found });
+  } catch (err: any) {
+    console.error('Document lookup error:', err);
+    return NextResponse.json(
+      { ok: false, error: String(err?.message || err) },
+      { status: 500 }
+    );
+  }
+}
+
+// soft delete by default; ?hard=1 removes the document, its chunks and versions
+export const DELETE = withApiAuth({ scope: 'ingest' }, removeDocument);
+
+async function removeDocument(req: Request, _ctx: unknown, { tenant }: ApiAuth) {
+  try {
+    const url = new URL(req.url);
+    const ref = readRef(url);
+    if ('error' in ref) {
+      return NextResponse.json({ ok: false, error: ref.error }, { status: 400 });
+    }
+    const hard = ['1', 'true'].includes(url.searchParams.get('hard') || '');
+
+    const documentId = await withPgClient((client) =>
+      deleteDocument(withDrizzle(client), tenant.id, ref, { hard })
+    );
+    if (!documentId) {
+      return NextResponse.json({ ok: false, error: 'document not found' }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true, documentId, deleted: hard ? 'hard' : 'soft' });
+  } catch (err: any) {
+    console.error('Document delete error:', err);
+    return NextResponse.json(
+      { ok: false, error: String(err?.message || err) },
+      { status: 500 }
+    );
+  }
+}
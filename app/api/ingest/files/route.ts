@@ -0,0 +1,145 @@
+// app/api/ingest/files/route.ts
+export const runtime = 'nodejs';
+
+import { NextResponse } from 'next/server';
+import { getEmbeddingProvider } from '@/lib/ai/embeddings';
+import { withApiAuth, type ApiAuth } from '@/lib/auth/guard';
+import { config } from '@/lib/config';
+import { withDb } from '@/lib/db/pg';
+import { parseChunkOptions } from '@/lib/ingest/chunks';
+import { ingestDocument } from '@/lib/ingest/documents';
+import {
+  extractFile,
+  FileExtractionError,
+  fileKind,
+  type ExtractedFile,
+} from '@/lib/ingest/files';
+
+// multipart/form-data:
+//   file (one or more .pdf / .docx / .md / .html / .txt), sourceBucket?, title? (single file),
+//   externalKey? (single file), upsert=1 (key every file by its name), chunking? (JSON)
+// → { results: [{ file, documentId, status, version, pages, chunks }] }
+//   when some files fail to store: 207 (500 if none stored) with ok: false, the stored files in
+//   `results` and the rest in `failed: [{ file, error }]`
+export const POST = withApiAuth({ scope: 'ingest' }, postFiles);
+
+async function postFiles(req: Request, _ctx: unknown, { tenant }: ApiAuth) {
+  try {
+    const ct = req.headers.get('content-type') || '';
+    if (!ct.includes('multipart/form-data')) {
+      return NextResponse.json({ ok: false, error: 'expected multipart/form-data with "file"' }, { status: 400 });
+    }
+    const form = await req.formData();
+    const files = form.getAll('file').filter((f): f is File => typeof f !== 'string');
+    if (files.length === 0) {
+      return NextResponse.json({ ok: false, error: 'expected a "file" field' }, { status: 400 });
+    }
+    const { uploadFiles, uploadBytes } = config().limits;
+    if (files.length > uploadFiles) {
+      return NextResponse.json(
+        { ok: false, error: `at most ${uploadFiles} files per upload` },
+        { status: 413 }
+      );
+    }
+    const tooBig = files.find((f) => f.size > uploadBytes);
+    if (tooBig) {
+      return NextResponse.json(
+        { ok: false, error: `${tooBig.name} is over ${uploadBytes / 1024 / 1024} MB` },
+        { status: 413 }
+      );
+    }
+    const unsupported = files.filter((f) => !fileKind(f.name, f.type)).map((f) => f.name);
+    if (unsupported.length) {
+      return NextResponse.json(
+        { ok: false, error: 'unsupported file type (pdf, docx, md, html, txt)', files: unsupported },
+        { status: 415 }
+      );
+    }
+
+    const field = (name: string) => {
+      const v = form.get(name);
+      return typeof v === 'string' && v.trim() ? v.trim() : null;
+    };
+    const sourceBucket = field('sourceBucket') || 'faq';
+    const title = files.length === 1 ? field('title') : null;
+    const externalKey = files.length === 1 ? field('externalKey') : null;
+    const upsert = ['1', 'true'].includes(field('upsert') || '');
+    let chunking;
+    try {
+      chunking = parseChunkOptions(JSON.parse(field('chunking') || 'null'));
+    } catch {
+      return NextResponse.json({ ok: false, error: '"chunking" must be JSON' }, { status: 400 });
+    }
+    if (!chunking.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'invalid "chunking"',
+          issues: chunking.error.issues.map((i) => `${['chunking', ...i.path].join('.')}: ${i.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    // extract everything first, so one unreadable file doesn't leave the others half-ingested
+    const extracted: ExtractedFile[] = [];
+    const failed: { file: string; error: string }[] = [];
+    for (const f of files) {
+      try {
+        extracted.push(await extractFile(f.name, f.type, Buffer.from(await f.arrayBuffer())));
+      } catch (e: any) {
+        if (!(e instanceof FileExtractionError)) throw e;
+        failed.push({ file: f.name, error: e.message });
+      }
+    }
+    if (failed.length) {
+      return NextResponse.json({ ok: false, error: 'could not extract text', files: failed }, { status: 422 });
+    }
+
+    const embedder = getEmbeddingProvider();
+
+    // one transaction per file (see ingestDocument): a failure part way through leaves the
+    // earlier files stored, so report every file's outcome rather than a bare 500
+    const results = [];
+    const errors: { file: string; error: string }[] = [];
+    for (const file of extracted) {
+      try {
+        const r = await ingestDocument(withDb, embedder, {
+          tenantId: tenant.id,
+          content: file.text,
+          title: title || file.title,
+          sourceBucket,
+          externalKey: externalKey || (upsert ? `file:${file.name}` : null),
+          chunking: chunking.data,
+          file,
+        });
+        results.push({
+          file: file.name,
+          kind: file.kind,
+          documentId: r.documentId,
+          status: r.status,
+          version: r.version,
+          pages: file.pageStarts?.length ?? null,
+          chunks: r.chunks.length,
+        });
+      } catch (e: any) {
+        console.error(`File ingest error (${file.name}):`, e);
+        errors.push({ file: file.name, error: String(e?.message || e) });
+      }
+    }
+
+    if (errors.length) {
+      return NextResponse.json(
+        { ok: false, error: 'some files were not stored', sourceBucket, results, failed: errors },
+        { status: results.length ? 207 : 500 }
+      );
+    }
+    return NextResponse.json({ ok: true, message: 'file ingestion complete', sourceBucket, results });
+  } catch (err: any) {
+    console.error('File ingest error:', err);
+    return NextResponse.json(
+      { ok: false, error: String(err?.message || err) },
+      { status: 500 }
+    );
+  }
+}
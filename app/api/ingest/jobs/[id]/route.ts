@@ -0,0 +1,33 @@
+// app/api/ingest/jobs/[id]/route.ts
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { withApiAuth, type ApiAuth } from '@/lib/auth/guard';
+import { withDrizzle, withPgClient } from '@/lib/db/pg';
+import { getIngestJob } from '@/lib/ingest/jobs';
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// job status + per-item progress for a batch started at /api/ingest/batch (same tenant only)
+export const GET = withApiAuth({ scope: 'ingest' }, getJob);
+
+async function getJob(_req: Request, { params }: { params: { id: string } }, { tenant }: ApiAuth) {
+  try {
+    if (!UUID_RE.test(params.id)) {
+      return NextResponse.json({ ok: false, error: 'job not found' }, { status: 404 });
+    }
+
+    const job = await withPgClient((client) => getIngestJob(withDrizzle(client), tenant.id, params.id));
+    if (!job) {
+      return NextResponse.json({ ok: false, error: 'job not found' }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true, job });
+  } catch (err: any) {
+    console.error('Job status error:', err);
+    return NextResponse.json(
+      { ok: false, error: String(err?.message || err) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+// app/api/ingest/reviews/route.ts
+export const runtime = 'nodejs';
+
+import { NextResponse } from 'next/server';
+import { getEmbeddingProvider } from '@/lib/ai/embeddings';
+import { withApiAuth, type ApiAuth } from '@/lib/auth/guard';
+import { config } from '@/lib/config';
+import { withDb } from '@/lib/db/pg';
+import { ingestReviews, parseReviewsCsv, validateReviews } from '@/lib/ingest/reviews';
+
+// POST JSON ({ reviews: [...] } or a bare array) or text/csv with a header row.
+// Fields: platform, platformReviewId, reviewer, rating, date, text, sourceUrl
+export const POST = withApiAuth({ scope: 'ingest' }, postReviews);
+
+async function postReviews(req: Request, _ctx: unknown, { tenant }: ApiAuth) {
+  try {
+    const ct = req.headers.get('content-type') || '';
+    let parsed;
+    if (ct.includes('text/csv')) {
+      parsed = parseReviewsCsv(await req.text());
+    } else {
+      const body = (await req.json().catch(() => null)) as any;
+      const raw = Array.isArray(body) ? body : body?.reviews;
+      if (!Array.isArray(raw)) {
+        return NextResponse.json(
+          { ok: false, error: 'expected a JSON array, { reviews: [...] } or text/csv' },
+          { status: 400 }
+        );
+      }
+      parsed = validateReviews(raw);
+    }
+
+    const { records, errors } = parsed;
+    if (errors.length) {
+      return NextResponse.json({ ok: false, error: 'invalid reviews', invalid: errors }, { status: 400 });
+    }
+    if (records.length === 0) {
+      return NextResponse.json({ ok: false, error: 'no reviews provided' }, { status: 400 });
+    }
+    const { reviewsPerRequest } = config().limits;
+    if (records.length > reviewsPerRequest) {
+      return NextResponse.json(
+        { ok: false, error: `at most ${reviewsPerRequest} reviews per request` },
+        { status: 413 }
+      );
+    }
+
+    const embedder = getEmbeddingProvider();
+    const result = await ingestReviews(withDb, embedder, tenant.id, records);
+
+    return NextResponse.json({
+      ok: true,
+      received: records.length,
+      inserted: result.inserted.length,
+      skipped: result.duplicates.length,
+      documents: result.inserted,
+      duplicates: result.duplicates,
+    });
+  } catch (err: any) {
+    console.error('Review ingest error:', err);
+    return NextResponse.json(
+      { ok: false, error: String(err?.message || err) },
+      { status: 500 }
+    );
+  }
+}
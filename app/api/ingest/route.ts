@@ -2,104 +2,80 @@
 export const runtime = 'nodejs';
 
 import { NextResponse } from 'next/server';
-import OpenAI from 'openai';
-import { v4 as uuidv4 } from 'uuid';
-import pkg from 'pg';
-
-const { Client } = pkg;
-
-// tiny helper to make an id for “content-only” docs
-function makeDocId() {
-  return uuidv4();
-}
+import type { ZodError } from 'zod';
+import { withApiAuth, type ApiAuth } from '@/lib/auth/guard';
+import { getEmbeddingProvider } from '@/lib/ai/embeddings';
+import { crawlSite } from '@/lib/crawl/crawl';
+import { BlockedUrlError } from '@/lib/crawl/fetch';
+import { withDb } from '@/lib/db/pg';
+import { parseChunkOptions } from '@/lib/ingest/chunks';
+import { ingestDocument } from '@/lib/ingest/documents';
 
 export async function GET() {
   return NextResponse.json({ ok: true, msg: 'ingest route is alive' });
 }
 
-export async function POST(req: Request) {
+// secret key with the "ingest" scope (or the legacy x-ingest-secret); documents go to the
+// key's tenant (x-tenant picks one for the legacy secret and the admin session)
+export const POST = withApiAuth({ scope: 'ingest' }, postIngest);
+
+async function postIngest(req: Request, _ctx: unknown, { tenant }: ApiAuth) {
   try {
     const body = (await req.json().catch(() => ({}))) as any;
 
-    // 1) secret check
-    const incoming = req.headers.get('x-ingest-secret') || '';
-    const expected = process.env.INGEST_SECRET || '';
-    if (expected && incoming !== expected) {
-      return NextResponse.json({ ok: false, error: 'unauthorized' }, { status: 401 });
+    // crawl mode: { mode: 'crawl', sitemapUrl?, urls?: string[], sourceBucket?, maxPages?, force? }
+    if (body.mode === 'crawl') {
+      return await crawl(body, tenant.id);
     }
 
     // we are in “content-only” mode now
     const content = (body.content || '').toString().trim();
     const sourceBucket = (body.sourceBucket || 'faq').toString();
+    // same externalKey again → new version of that document instead of a duplicate
+    const externalKey = body.externalKey == null ? null : String(body.externalKey).trim();
+    const title = body.title == null ? null : String(body.title).trim() || null;
 
     if (!content) {
       return NextResponse.json({ ok: false, error: 'no content provided' }, { status: 400 });
     }
-
-    const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-    const SUPABASE_CONN = process.env.SUPABASE_CONN;
-    if (!OPENAI_API_KEY || !SUPABASE_CONN) {
+    if (externalKey !== null && (!externalKey || externalKey.length > 200)) {
       return NextResponse.json(
-        { ok: false, error: 'Missing OPENAI_API_KEY or SUPABASE_CONN' },
-        { status: 500 }
+        { ok: false, error: '"externalKey" must be 1-200 characters' },
+        { status: 400 }
       );
     }
-
-    const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
-
-    // 2) embed the content
-    const emb = await openai.embeddings.create({
-      model: 'text-embedding-3-small',
-      input: content,
+    const chunking = parseChunkOptions(body.chunking);
+    if (!chunking.success) return invalidChunking(chunking.error);
+
+    // EMBEDDING_PROVIDER decides openai / local / fake
+    const embedder = getEmbeddingProvider();
+
+    // doc row + its chunks (short FAQs come out as a single chunk), all or nothing;
+    // a connection is held for the lookups and the write, not the embeddings call
+    const result = await ingestDocument(withDb, embedder, {
+      tenantId: tenant.id,
+      content,
+      title,
+      sourceBucket,
+      externalKey,
+      chunking: chunking.data,
     });
-    const vector: number[] = emb.data[0].embedding;
-
-    // 🔴 IMPORTANT: turn JS array -> pgvector literal
-    const embeddingLiteral = `[${vector.join(',')}]`;
-
-    // 3) connect to db
-    const client = new Client({ connectionString: SUPABASE_CONN });
-    await client.connect();
-
-    // 4) make a doc row
-    const docId = makeDocId();
-    await client.query(
-      `
-      insert into documents (id, url, content, meta)
-      values ($1, $2, $3, $4)
-      `,
-      [
-        docId,
-        // no real url, so store a synthetic one
-        `faq://${docId}`,
-        content,
-        { source: sourceBucket },
-      ]
-    );
-
-    // 5) make chunk row (single chunk for faq)
-    await client.query(
-      `
-      insert into document_chunks (id, document_id, chunk_index, content, embedding)
-      values ($1, $2, $3, $4, $5::vector)
-      `,
-      [
-        uuidv4(),
-        docId,
-        0,
-        content,
-        embeddingLiteral, // 👈 now it’s a string like "[0.1,0.2,...]" not a JS array
-      ]
-    );
-
-    await client.end();
 
     return NextResponse.json({
       ok: true,
       message: 'FAQ ingestion complete',
       sourceBucket,
+      documentId: result.documentId,
+      externalKey,
+      status: result.status,
+      version: result.version,
+      chunks: result.chunks.length,
     });
   } catch (err: any) {
+    // a sitemap on a private or non-http address
+    if (err instanceof BlockedUrlError) {
+      return NextResponse.json({ ok: false, error: err.message }, { status: 400 });
+    }
     console.error('Ingest error:', err);
     return NextResponse.json(
       { ok: false, error: String(err?.message || err) },
@@ -107,3 +83,42 @@ export async function POST(req: Request) {
     );
   }
 }
+
+async function crawl(body: any, tenantId: string) {
+  const sitemapUrl = body.sitemapUrl ? String(body.sitemapUrl) : undefined;
+  const urls: string[] = Array.isArray(body.urls) ? body.urls.map(String) : [];
+  if (!sitemapUrl && urls.length === 0) {
+    return NextResponse.json(
+      { ok: false, error: 'crawl needs "sitemapUrl" or "urls"' },
+      { status: 400 }
+    );
+  }
+  const chunking = parseChunkOptions(body.chunking);
+  if (!chunking.success) return invalidChunking(chunking.error);
+
+  const embedder = getEmbeddingProvider();
+
+  // each page checks out its own connection, and only around its queries
+  const { summary, results } = await crawlSite({
+    embedder,
+    tenantId,
+    sitemapUrl,
+    urls,
+    sourceBucket: body.sourceBucket ? String(body.sourceBucket) : undefined,
+    maxPages: Number(body.maxPages) || undefined,
+    force: !!body.force,
+    chunking: chunking.data,
+  });
+  return NextResponse.json({ ok: true, message: 'crawl complete', summary, results });
+}
+
+function invalidChunking(err: ZodError) {
+  return NextResponse.json(
+    {
+      ok: false,
+      error: 'invalid "chunking"',
+      issues: err.issues.map((i) => `${['chunking', ...i.path].join('.')}: ${i.message}`),
+    },
+    { status: 400 }
+  );
+}
@@ -0,0 +1,62 @@
+// app/api/keys/route.ts
+import { NextResponse, type NextRequest } from "next/server";
+import { ZodError } from "zod";
+import { withApiAuth, type ApiAuth } from "@/lib/auth/guard";
+import { createApiKey, listApiKeys, revokeApiKey } from "@/lib/auth/keys";
+import { withDrizzle, withPgClient } from "@/lib/db/pg";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// all key management needs the admin session / ADMIN_SECRET or a secret key with "admin",
+// and only ever touches the keys of the tenant the guard resolved
+export const GET = withApiAuth({ scope: "admin" }, listKeys);
+export const POST = withApiAuth({ scope: "admin" }, createKey);
+export const DELETE = withApiAuth({ scope: "admin" }, revokeKey);
+
+async function listKeys(_req: NextRequest, _ctx: unknown, { tenant }: ApiAuth) {
+  try {
+    const keys = await withPgClient((client) => listApiKeys(withDrizzle(client), tenant.id));
+    return NextResponse.json({ ok: true, keys });
+  } catch (err: any) {
+    console.error("keys list error:", err);
+    return NextResponse.json({ ok: false, error: String(err?.message || err) }, { status: 500 });
+  }
+}
+
+// { name, kind: "publishable" | "secret", scopes?, allowedOrigins?, rateLimitPerMin? }
+// → the plaintext key, shown this once
+async function createKey(req: NextRequest, _ctx: unknown, { tenant }: ApiAuth) {
+  try {
+    const body = await req.json().catch(() => null);
+    const created = await withPgClient((client) => createApiKey(withDrizzle(client), tenant.id, body ?? {}));
+    return NextResponse.json({ ok: true, ...created }, { status: 201 });
+  } catch (err: any) {
+    if (err instanceof ZodError) {
+      return NextResponse.json(
+        { ok: false, error: "invalid key", issues: err.issues.map((i) => `${i.path.join(".")}: ${i.message}`) },
+        { status: 400 },
+      );
+    }
+    console.error("keys create error:", err);
+    return NextResponse.json({ ok: false, error: String(err?.message || err) }, { status: 500 });
+  }
+}
+
+// ?id=<uuid>; revoked keys stop working within a minute on every instance
+async function revokeKey(req: NextRequest, _ctx: unknown, { tenant }: ApiAuth) {
+  const id = req.nextUrl.searchParams.get("id") || "";
+  if (!UUID_RE.test(id)) {
+    return NextResponse.json({ ok: false, error: '"id" must be a uuid' }, { status: 400 });
+  }
+  try {
+    const key = await withPgClient((client) => revokeApiKey(withDrizzle(client), tenant.id, id));
+    if (!key) return NextResponse.json({ ok: false, error: "key not found" }, { status: 404 });
+    return NextResponse.json({ ok: true, key });
+  } catch (err: any) {
+    console.error("keys revoke error:", err);
+    return NextResponse.json({ ok: false, error: String(err?.message || err) }, { status: 500 });
+  }
+}
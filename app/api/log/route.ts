@@ -1,29 +1,59 @@
 // app/api/log/route.ts
 import { NextResponse } from "next/server";
-import pkg from "pg";
-const { Client } = pkg;
+import { z } from "zod";
+import type { ApiError, LogResponse } from "@/lib/api/v1";
+import { preflight, withApiAuth, type ApiAuth } from "@/lib/auth/guard";
+import { getPool, withDrizzle } from "@/lib/db/pg";
+import { chatQueries } from "@/lib/db/schema/chatQueries";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-const corsHeaders = {
-  "access-control-allow-origin": "*",
-  "access-control-allow-methods": "POST,OPTIONS",
-  "access-control-allow-headers": "content-type",
-};
+// client-only events (clicks on sources and reviews) now that /api/search and
+// /api/answer record every question themselves; rows without `event` still come
+// from older widgets that self-report their answers.
+// CORS, rate limits and the tenant come from the guard (publishable widget key)
+export const OPTIONS = preflight();
+export const POST = withApiAuth({ audience: "public" }, postLog);
 
-export async function OPTIONS() {
-  return new NextResponse(null, { status: 200, headers: corsHeaders });
-}
-
-export async function POST(req: Request) {
-  const client = new Client({
-    connectionString: process.env.SUPABASE_CONN,
-    ssl: { rejectUnauthorized: false },
+// a row with interaction_id and no event would take the answer's slot in
+// chat_queries_interaction_uq (the server writes that row), so events only
+const logSchema = z
+  .object({
+    query_text: z.string().trim().min(1, "query_text required").max(2000),
+    interaction_id: z.string().uuid("interaction_id must be a uuid").nullish(),
+    event: z
+      .string()
+      .regex(/^[a-z][a-z0-9_]{0,39}$/, "event must be a short snake_case name")
+      .nullish(),
+    session_id: z.string().trim().max(200).nullish(),
+    url_path: z.string().max(2000).nullish(),
+    user_agent: z.string().max(1000).nullish(),
+    response_type: z.enum(["faq", "review", "fallback"]).nullish(),
+    faq_id: z.string().max(200).nullish(),
+    faq_title: z.string().max(500).nullish(),
+    reviews_count: z.number().int().min(0).max(10_000).nullish(),
+    response_ms: z.number().int().min(0).max(10 * 60 * 1000).nullish(),
+    response_text: z.string().max(20_000).nullish(),
+  })
+  .refine((b) => !b.interaction_id || b.event, {
+    message: "event required with interaction_id",
+    path: ["event"],
   });
 
+async function postLog(req: Request, _ctx: unknown, { tenant }: ApiAuth) {
   try {
-    const body = await req.json();
+    const parsed = logSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json<ApiError>(
+        {
+          ok: false,
+          error: "invalid log entry",
+          issues: parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`),
+        },
+        { status: 400 }
+      );
+    }
     const {
       session_id,
       url_path,
@@ -34,44 +64,34 @@ export async function POST(req: Request) {
       faq_title,
       reviews_count,
       response_ms,
-      response_text,         // 👈 new field
-    } = body;
+      response_text,
+      event,
+      interaction_id,
+    } = parsed.data;
 
-    if (!query_text) {
-      return NextResponse.json(
-        { error: "query_text required" },
-        { status: 400, headers: corsHeaders }
-      );
-    }
-
-    await client.connect();
-    await client.query(
-      `insert into public.chat_queries
-         (asked_at, session_id, url_path, user_agent, query_text,
-          response_type, faq_id, faq_title, reviews_count, response_ms, response_text)
-       values (now(), $1,$2,$3,$4,$5,$6,$7,$8,$9,$10)`,
-      [
-        session_id ?? null,
-        url_path ?? null,
-        user_agent ?? null,
-        query_text,
-        response_type ?? "fallback",
-        faq_id ?? null,
-        faq_title ?? null,
-        reviews_count ?? null,
-        response_ms ?? null,
-        response_text ?? null,  // 👈 store it
-      ]
-    );
+    await withDrizzle(getPool()).insert(chatQueries).values({
+      tenantId: tenant.id,
+      sessionId: session_id ?? null,
+      urlPath: url_path ?? null,
+      userAgent: user_agent ?? null,
+      queryText: query_text,
+      responseType: response_type ?? (event ? "event" : "fallback"),
+      faqId: faq_id ?? null,
+      faqTitle: faq_title ?? null,
+      reviewsCount: reviews_count ?? null,
+      responseMs: response_ms ?? null,
+      responseText: response_text ?? null,
+      origin: "client",
+      event: event ?? null,
+      interactionId: interaction_id ?? null,
+    });
 
-    return NextResponse.json({ ok: true }, { headers: corsHeaders });
+    return NextResponse.json<LogResponse>({ ok: true });
   } catch (err: any) {
     console.error("log error:", err);
-    return NextResponse.json(
-      { error: err?.message || "unknown" },
-      { status: 500, headers: corsHeaders }
+    return NextResponse.json<ApiError>(
+      { ok: false, error: err?.message || "unknown" },
+      { status: 500 }
     );
-  } finally {
-    try { await client.end(); } catch {}
   }
 }
@@ -1,5 +1,35 @@
-import { NextResponse } from "next/server";
+import { NextResponse, type NextRequest } from "next/server";
+import { isAdminRequest } from "@/lib/admin/auth";
+import { queryEmbeddingCache } from "@/lib/ai/cache";
+import { redactedConfig } from "@/lib/config";
+import { poolStats } from "@/lib/db/pg";
+import { readiness } from "@/lib/health";
 export const runtime = "nodejs";
-export async function GET() {
-  return NextResponse.json({ ok: true, route: "/api/ping" });
+export const dynamic = "force-dynamic";
+// 200 when ready to serve, 503 (same body) when a dependency or the config isn't.
+// Anyone gets up/down per check; the admin session (or the admin secret as a
+// bearer token) also gets the details, the config and this process's stats
+export async function GET(req: NextRequest) {
+  const { ready, checkedAt, checks } = await readiness();
+  const status = { status: ready ? 200 : 503 };
+  const summary = Object.fromEntries(Object.entries(checks).map(([name, check]) => [name, { ok: check.ok }]));
+
+  if (!(await isAdminRequest(req))) {
+    return NextResponse.json({ ok: ready, route: "/api/ping", checkedAt, checks: summary }, status);
+  }
+  return NextResponse.json(
+    {
+      ok: ready,
+      route: "/api/ping",
+      checkedAt,
+      checks,
+      // secrets show as "set" / null, passwords in the database url are masked
+      config: checks.config.ok ? redactedConfig() : null,
+      // this process's query-embedding cache counters
+      embeddingCache: queryEmbeddingCache.stats(),
+      // this process's connection pool: in use = total - idle, waiting = requests queued for a connection
+      db: poolStats(),
+    },
+    status,
+  );
 }
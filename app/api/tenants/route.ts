@@ -0,0 +1,68 @@
+// app/api/tenants/route.ts
+import { NextResponse, type NextRequest } from "next/server";
+import { ZodError } from "zod";
+import { withApiAuth, type ApiAuth } from "@/lib/auth/guard";
+import { withDrizzle, withPgClient } from "@/lib/db/pg";
+import { createTenant, listTenants, updateTenant } from "@/lib/tenants";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// admin session / ADMIN_SECRET sees and creates every tenant; a secret key with "admin"
+// only sees and edits its own
+export const GET = withApiAuth({ scope: "admin" }, getTenants);
+export const POST = withApiAuth({ scope: "admin" }, postTenant);
+export const PATCH = withApiAuth({ scope: "admin" }, patchTenant);
+
+function invalid(err: ZodError) {
+  return NextResponse.json(
+    { ok: false, error: "invalid tenant", issues: err.issues.map((i) => `${i.path.join(".")}: ${i.message}`) },
+    { status: 400 },
+  );
+}
+
+async function getTenants(_req: NextRequest, _ctx: unknown, auth: ApiAuth) {
+  if (auth.key) return NextResponse.json({ ok: true, tenants: [auth.tenant] });
+  try {
+    const tenants = await withPgClient((client) => listTenants(withDrizzle(client)));
+    return NextResponse.json({ ok: true, tenants });
+  } catch (err: any) {
+    console.error("tenants list error:", err);
+    return NextResponse.json({ ok: false, error: String(err?.message || err) }, { status: 500 });
+  }
+}
+
+// { slug, name, config?: { reviewLink, minSim, answerMinSim, chatModel, systemPrompt, refusalMessage } }
+async function postTenant(req: NextRequest, _ctx: unknown, auth: ApiAuth) {
+  if (auth.via !== "admin") {
+    return NextResponse.json({ ok: false, error: "creating tenants needs the admin session" }, { status: 403 });
+  }
+  try {
+    const body = await req.json().catch(() => null);
+    const tenant = await withPgClient((client) => createTenant(withDrizzle(client), body ?? {}));
+    return NextResponse.json({ ok: true, tenant }, { status: 201 });
+  } catch (err: any) {
+    if (err instanceof ZodError) return invalid(err);
+    // tenants_slug_uq
+    if (err?.code === "23505") {
+      return NextResponse.json({ ok: false, error: "slug already taken" }, { status: 409 });
+    }
+    console.error("tenants create error:", err);
+    return NextResponse.json({ ok: false, error: String(err?.message || err) }, { status: 500 });
+  }
+}
+
+// { name?, config? } for the caller's tenant (x-tenant picks one for the admin session);
+// config keys are merged, null clears one
+async function patchTenant(req: NextRequest, _ctx: unknown, { tenant }: ApiAuth) {
+  try {
+    const body = await req.json().catch(() => null);
+    const updated = await withPgClient((client) => updateTenant(withDrizzle(client), tenant.id, body ?? {}));
+    if (!updated) return NextResponse.json({ ok: false, error: "tenant not found" }, { status: 404 });
+    return NextResponse.json({ ok: true, tenant: updated });
+  } catch (err: any) {
+    if (err instanceof ZodError) return invalid(err);
+    console.error("tenants update error:", err);
+    return NextResponse.json({ ok: false, error: String(err?.message || err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,3 @@
+// app/api/v1/answer/route.ts
+// v1 of the widget API (types in lib/api/v1.ts); /api/answer stays as its unversioned alias
+export { OPTIONS, POST } from "@/app/api/answer/route";
@@ -0,0 +1,6 @@
+// app/api/v1/feedback/route.ts
+// v1 of the widget API (types in lib/api/v1.ts); /api/feedback stays as its unversioned alias
+export { OPTIONS, POST } from "@/app/api/feedback/route";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
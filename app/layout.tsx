@@ -5,8 +5,8 @@ import "./globals.css";
 const inter = Inter({ subsets: ["latin"] });
 
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  title: "WiMO knowledge base",
+  description: "FAQ and review search for the WiMO storefront",
 };
 
 export default function RootLayout({
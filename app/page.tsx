@@ -1,3 +1,5 @@
-export default function Chat() {
-  return <main>Hello, world!</main>;
+import { redirect } from "next/navigation";
+
+export default function Home() {
+  redirect("/admin");
 }
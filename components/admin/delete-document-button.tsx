@@ -0,0 +1,34 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useTransition } from "react";
+import { toast } from "sonner";
+
+import { deleteDocument } from "@/lib/actions/documents";
+import { Button } from "@/components/ui/button";
+
+export function DeleteDocumentButton({ id }: { id: string }) {
+  const router = useRouter();
+  const [pending, startTransition] = useTransition();
+
+  return (
+    <Button
+      variant="destructive"
+      disabled={pending}
+      onClick={() => {
+        if (!window.confirm("Delete this document and all of its chunks?")) return;
+        startTransition(async () => {
+          const res = await deleteDocument(id);
+          if (!res.ok) {
+            toast.error(res.message);
+            return;
+          }
+          toast.success(res.message);
+          router.push("/admin");
+        });
+      }}
+    >
+      {pending ? "Deleting…" : "Delete"}
+    </Button>
+  );
+}
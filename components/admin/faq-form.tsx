@@ -0,0 +1,88 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+
+import { saveFaq } from "@/lib/actions/documents";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+type FaqFormProps = {
+  // omit to create a new entry
+  document?: { id: string; title: string | null; content: string; source: string };
+  buckets?: string[];
+};
+
+export function FaqForm({ document, buckets = ["faq"] }: FaqFormProps) {
+  const router = useRouter();
+  const [title, setTitle] = useState(document?.title ?? "");
+  const [content, setContent] = useState(document?.content ?? "");
+  const [sourceBucket, setSourceBucket] = useState(document?.source ?? "faq");
+  const [pending, startTransition] = useTransition();
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    startTransition(async () => {
+      const res = await saveFaq({ id: document?.id, title, content, sourceBucket });
+      if (!res.ok) {
+        toast.error(res.message);
+        return;
+      }
+      toast.success(res.message);
+      if (!document && res.data) {
+        setTitle("");
+        setContent("");
+        router.push(`/admin/documents/${res.data.id}`);
+      } else {
+        router.refresh();
+      }
+    });
+  };
+
+  return (
+    <form className="space-y-4" onSubmit={onSubmit}>
+      <div className="space-y-2">
+        <Label htmlFor="faq-title">Title</Label>
+        <Input
+          id="faq-title"
+          placeholder="e.g. Return policy"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+        />
+      </div>
+      {!document && (
+        <div className="space-y-2">
+          <Label htmlFor="faq-source">Source bucket</Label>
+          <Input
+            id="faq-source"
+            list="faq-source-buckets"
+            value={sourceBucket}
+            onChange={(e) => setSourceBucket(e.target.value)}
+          />
+          <datalist id="faq-source-buckets">
+            {buckets.map((b) => (
+              <option key={b} value={b} />
+            ))}
+          </datalist>
+        </div>
+      )}
+      <div className="space-y-2">
+        <Label htmlFor="faq-content">Content</Label>
+        <Textarea
+          id="faq-content"
+          rows={document ? 14 : 6}
+          placeholder="Q: … A: …"
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          required
+        />
+      </div>
+      <Button type="submit" disabled={pending || !content.trim()}>
+        {pending ? "Saving…" : document ? "Save & re-embed" : "Add entry"}
+      </Button>
+    </form>
+  );
+}
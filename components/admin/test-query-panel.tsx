@@ -0,0 +1,109 @@
+"use client";
+
+import Link from "next/link";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+
+import { runTestQuery, type TestQueryHit } from "@/lib/actions/documents";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+const fmt = (n: number | null, digits = 3) => (n == null ? "—" : n.toFixed(digits));
+
+export function TestQueryPanel({ buckets }: { buckets: string[] }) {
+  const [query, setQuery] = useState("");
+  const [sources, setSources] = useState<string[]>(buckets.filter((b) => b !== "google-review"));
+  const [k, setK] = useState(10);
+  const [ignoreThresholds, setIgnoreThresholds] = useState(false);
+  const [hits, setHits] = useState<TestQueryHit[] | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  const toggle = (b: string) =>
+    setSources((cur) => (cur.includes(b) ? cur.filter((x) => x !== b) : [...cur, b]));
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    startTransition(async () => {
+      const res = await runTestQuery({ query, sources, k, ignoreThresholds });
+      if (!res.ok) {
+        toast.error(res.message);
+        return;
+      }
+      setHits(res.data ?? []);
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <form className="space-y-4" onSubmit={onSubmit}>
+        <div className="flex gap-2">
+          <Input
+            placeholder="e.g. does it fit plus sizes"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+          <Button type="submit" disabled={pending || !query.trim()}>
+            {pending ? "Searching…" : "Search"}
+          </Button>
+        </div>
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          {buckets.map((b) => (
+            <label key={b} className="flex items-center gap-1.5">
+              <input type="checkbox" checked={sources.includes(b)} onChange={() => toggle(b)} />
+              {b}
+            </label>
+          ))}
+          <div className="flex items-center gap-1.5">
+            <Label htmlFor="test-k">k</Label>
+            <Input
+              id="test-k"
+              type="number"
+              min={1}
+              max={50}
+              className="h-8 w-20"
+              value={k}
+              onChange={(e) => setK(Number(e.target.value) || 10)}
+            />
+          </div>
+          <label className="flex items-center gap-1.5">
+            <input
+              type="checkbox"
+              checked={ignoreThresholds}
+              onChange={(e) => setIgnoreThresholds(e.target.checked)}
+            />
+            ignore thresholds
+          </label>
+        </div>
+      </form>
+
+      {hits && hits.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No hits. The widget would fall back to &ldquo;I could not find this in FAQs&rdquo;.
+        </p>
+      )}
+
+      {hits && hits.length > 0 && (
+        <ol className="space-y-3">
+          {hits.map((h, i) => (
+            <li key={h.chunkId} className="rounded-md border p-4">
+              <div className="mb-2 flex flex-wrap items-baseline gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                <span className="font-semibold text-foreground">#{i + 1}</span>
+                <span>{h.source}</span>
+                <span>similarity {fmt(h.similarity)}</span>
+                <span>keyword {fmt(h.scores.keyword)}</span>
+                <span>fused {fmt(h.scores.fused, 4)}</span>
+                <span>chunk {h.chunkIndex}</span>
+                {h.headingPath.length > 0 && <span>{h.headingPath.join(" › ")}</span>}
+                <Link className="ml-auto underline" href={`/admin/documents/${h.documentId}`}>
+                  {h.title || h.url || h.documentId}
+                </Link>
+              </div>
+              <p className="whitespace-pre-wrap text-sm">{h.content}</p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,12 @@
+import "dotenv/config";
 import type { Config } from "drizzle-kit";
-import { env } from "@/lib/env.mjs";
+import { configSection } from "./lib/config";
 
 export default {
   schema: "./lib/db/schema",
   dialect: "postgresql",
   out: "./lib/db/migrations",
   dbCredentials: {
-    url: env.DATABASE_URL,
+    url: configSection("database").url,
   }
-} satisfies Config;
\ No newline at end of file
+} satisfies Config;
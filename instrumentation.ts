@@ -0,0 +1,13 @@
+// runs once when a server process starts: refuse to boot on a bad configuration
+// (every problem listed at once) instead of failing on the first request that needs it,
+// then hook buffered writes up to SIGTERM / SIGINT and start the worker that finishes
+// batch ingest jobs a dead process left behind
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  const { config } = await import("./lib/config");
+  config();
+  const { installShutdownHooks } = await import("./lib/shutdown");
+  installShutdownHooks();
+  const { startIngestWorker } = await import("./lib/ingest/jobs");
+  startIngestWorker();
+}
@@ -0,0 +1,53 @@
+'use server';
+
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+
+import {
+  ADMIN_COOKIE,
+  ADMIN_SESSION_MS,
+  ADMIN_TENANT_COOKIE,
+  checkAdminPassword,
+  createAdminToken,
+  verifyAdminToken,
+} from '@/lib/admin/auth';
+
+export const login = async (password: string, next?: string) => {
+  if (!(await checkAdminPassword(password))) return 'Wrong password.';
+
+  cookies().set(ADMIN_COOKIE, await createAdminToken(), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: ADMIN_SESSION_MS / 1000,
+  });
+  redirect(next && next.startsWith('/admin') ? next : '/admin');
+};
+
+export const logout = async () => {
+  cookies().delete(ADMIN_COOKIE);
+  redirect('/admin/login');
+};
+
+// header switcher: every admin page and action works on the picked tenant
+export const switchTenant = async (form: FormData) => {
+  await assertAdmin();
+  const slug = String(form.get('tenant') ?? '').trim();
+  if (slug) {
+    cookies().set(ADMIN_TENANT_COOKIE, slug, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+    });
+  }
+  redirect('/admin');
+};
+
+// middleware guards the pages; actions are plain POSTs, so check again here
+export const assertAdmin = async () => {
+  if (!(await verifyAdminToken(cookies().get(ADMIN_COOKIE)?.value))) {
+    throw new Error('unauthorized');
+  }
+};
@@ -0,0 +1,142 @@
+'use server';
+
+import { and, eq } from 'drizzle-orm';
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+
+import { adminTenant } from '@/lib/admin/tenant';
+import { getEmbeddingProvider } from '@/lib/ai/embeddings';
+import { withDb, withDrizzle, withPgClient } from '@/lib/db/pg';
+import { documents } from '@/lib/db/schema/documents';
+import { ingestDocument, replaceDocumentContent } from '@/lib/ingest/documents';
+import { ANSWER_SOURCES, retrieve, type SourceBucket } from '@/lib/retrieval';
+import { assertAdmin } from './admin';
+
+export type ActionResult<T = undefined> =
+  | { ok: true; message: string; data?: T }
+  | { ok: false; message: string };
+
+const faqSchema = z.object({
+  id: z.string().uuid().optional(),
+  title: z.string().trim().max(300).optional(),
+  content: z.string().trim().min(1, 'Content is required.').max(50_000),
+  sourceBucket: z.string().trim().min(1).max(64).default('faq'),
+});
+
+const errorMessage = (e: unknown) =>
+  e instanceof Error && e.message.length > 0 ? e.message : 'Error, please try again.';
+
+export const saveFaq = async (
+  input: z.input<typeof faqSchema>,
+): Promise<ActionResult<{ id: string }>> => {
+  try {
+    await assertAdmin();
+    const { id, title, content, sourceBucket } = faqSchema.parse(input);
+    const tenant = await adminTenant();
+
+    const result = id
+      ? await replaceDocumentContent(withDb, getEmbeddingProvider(), id, {
+          tenantId: tenant.id,
+          content,
+          title: title || null,
+        })
+      : await ingestDocument(withDb, getEmbeddingProvider(), {
+          tenantId: tenant.id,
+          content,
+          title: title || null,
+          sourceBucket,
+        });
+    if (!result) return { ok: false, message: 'Document not found.' };
+
+    revalidatePath('/admin');
+    revalidatePath(`/admin/documents/${result.documentId}`);
+    return {
+      ok: true,
+      message: `Saved (${result.chunks.length} chunk${result.chunks.length === 1 ? '' : 's'}).`,
+      data: { id: result.documentId },
+    };
+  } catch (e) {
+    if (e instanceof z.ZodError) return { ok: false, message: e.errors[0]?.message ?? 'Invalid input.' };
+    return { ok: false, message: errorMessage(e) };
+  }
+};
+
+export const deleteDocument = async (id: string): Promise<ActionResult> => {
+  try {
+    await assertAdmin();
+    const tenant = await adminTenant();
+    const deleted = await withPgClient((client) =>
+      // chunks go with it (ON DELETE CASCADE)
+      withDrizzle(client)
+        .delete(documents)
+        .where(and(eq(documents.tenantId, tenant.id), eq(documents.id, id)))
+        .returning({ id: documents.id }),
+    );
+    if (deleted.length === 0) return { ok: false, message: 'Document not found.' };
+
+    revalidatePath('/admin');
+    return { ok: true, message: 'Document deleted.' };
+  } catch (e) {
+    return { ok: false, message: errorMessage(e) };
+  }
+};
+
+export type TestQueryHit = {
+  chunkId: string;
+  documentId: string;
+  source: string;
+  url: string | null;
+  title: string | null;
+  content: string;
+  chunkIndex: number;
+  headingPath: string[];
+  similarity: number | null;
+  scores: { fused: number; vector: number | null; keyword: number | null };
+};
+
+// run the exact retrieval the widget uses and show what came back, with scores
+export const runTestQuery = async (input: {
+  query: string;
+  sources?: SourceBucket[];
+  k?: number;
+  // show everything the ranker saw, not just hits above each source's floor
+  ignoreThresholds?: boolean;
+}): Promise<ActionResult<TestQueryHit[]>> => {
+  try {
+    await assertAdmin();
+    const query = input.query.trim();
+    if (!query) return { ok: false, message: 'Type a query first.' };
+    const tenant = await adminTenant();
+
+    const result = await withPgClient((client) =>
+      retrieve(
+        {
+          query,
+          sources: input.sources?.length ? input.sources : ANSWER_SOURCES,
+          k: Math.min(Math.max(input.k ?? 10, 1), 50),
+          ...(input.ignoreThresholds ? { minSim: -1 } : {}),
+        },
+        { db: client, tenant },
+      ),
+    );
+
+    return {
+      ok: true,
+      message: `${result.hits.length} hit(s)`,
+      data: result.hits.map((h) => ({
+        chunkId: h.chunkId,
+        documentId: h.documentId,
+        source: h.source,
+        url: h.url,
+        title: h.title,
+        content: h.content,
+        chunkIndex: h.chunkIndex,
+        headingPath: h.headingPath,
+        similarity: h.similarity,
+        scores: { fused: h.scores.fused, vector: h.scores.vector, keyword: h.scores.keyword },
+      })),
+    };
+  } catch (e) {
+    return { ok: false, message: errorMessage(e) };
+  }
+};
@@ -5,16 +5,15 @@ import {
   insertResourceSchema,
   resources,
 } from '@/lib/db/schema/resources';
-import { db } from '../db';
+import { withDrizzle, withPgClient } from '../db';
 
 export const createResource = async (input: NewResourceParams) => {
   try {
     const { content } = insertResourceSchema.parse(input);
 
-    const [resource] = await db
-      .insert(resources)
-      .values({ content })
-      .returning();
+    const [resource] = await withPgClient((client) =>
+      withDrizzle(client).insert(resources).values({ content }).returning(),
+    );
 
     return 'Resource successfully created.';
   } catch (e) {
@@ -0,0 +1,64 @@
+// Admin session cookie: "<expiresAtMs>.<hmac>" signed with the admin secret.
+// Uses Web Crypto only, so the same code runs in middleware (edge) and in actions.
+
+import { configSection } from "../config";
+
+export const ADMIN_COOKIE = "wimo_admin";
+export const ADMIN_SESSION_MS = 12 * 60 * 60 * 1000;
+// slug of the tenant the admin UI is working on (not a credential; the session cookie is)
+export const ADMIN_TENANT_COOKIE = "wimo_tenant";
+
+// ADMIN_SECRET, or the ingest secret the team already has; empty = admin disabled
+export function adminSecret() {
+  return configSection("auth").adminSecret;
+}
+
+async function hmac(secret: string, payload: string) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const sig = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(sig), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// constant-time for equal lengths; lengths of hex digests never differ
+function safeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+export async function createAdminToken(now = Date.now()) {
+  const secret = adminSecret();
+  if (!secret) throw new Error("ADMIN_SECRET is not configured");
+  const exp = String(now + ADMIN_SESSION_MS);
+  return `${exp}.${await hmac(secret, exp)}`;
+}
+
+export async function verifyAdminToken(token: string | undefined | null, now = Date.now()) {
+  const secret = adminSecret();
+  if (!secret || !token) return false;
+  const [exp, sig] = token.split(".");
+  if (!exp || !sig || !(Number(exp) > now)) return false;
+  return safeEqual(sig, await hmac(secret, exp));
+}
+
+export async function checkAdminPassword(password: string) {
+  const secret = adminSecret();
+  if (!secret) return false;
+  // compare digests so the check doesn't leak the secret's length
+  return safeEqual(await hmac("admin-login", password), await hmac("admin-login", secret));
+}
+
+// API callers: the admin session cookie, or "Authorization: Bearer <admin secret>" for scripts
+export async function isAdminRequest(req: { headers: Headers; cookies: { get(name: string): { value: string } | undefined } }) {
+  if (await verifyAdminToken(req.cookies.get(ADMIN_COOKIE)?.value)) return true;
+  const secret = adminSecret();
+  const bearer = req.headers.get("authorization")?.replace(/^Bearer\s+/i, "") ?? "";
+  return !!secret && !!bearer && checkAdminPassword(bearer);
+}
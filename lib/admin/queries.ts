@@ -0,0 +1,101 @@
+import { and, asc, count, desc, eq, ilike, isNotNull, isNull, sql } from "drizzle-orm";
+
+import { withDrizzle, withPgClient } from "../db/pg";
+import { documentChunks, documents } from "../db/schema/documents";
+import { listTenants } from "../tenants";
+
+export const PAGE_SIZE = 50;
+
+const sourceExpr = sql<string>`coalesce(${documents.meta}->>'source', 'faq')`;
+
+export type DocumentListItem = {
+  id: string;
+  url: string;
+  title: string | null;
+  source: string;
+  preview: string;
+  chunks: number;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export async function listAdminTenants() {
+  return withPgClient((client) => listTenants(withDrizzle(client)));
+}
+
+export async function listSourceBuckets(tenantId: string) {
+  return withPgClient(async (client) =>
+    withDrizzle(client)
+      .select({ source: sourceExpr, count: count() })
+      .from(documents)
+      .where(and(eq(documents.tenantId, tenantId), isNull(documents.deletedAt)))
+      .groupBy(sourceExpr)
+      .orderBy(sourceExpr),
+  );
+}
+
+export async function listDocuments(tenantId: string, opts: { source?: string; q?: string; page?: number }) {
+  const page = Math.max(0, opts.page ?? 0);
+
+  return withPgClient(async (client) => {
+    const db = withDrizzle(client);
+    const filters = [
+      eq(documents.tenantId, tenantId),
+      sql`${documents.deletedAt} is null`,
+      opts.source ? sql`${sourceExpr} = ${opts.source}` : undefined,
+      opts.q ? ilike(documents.content, `%${opts.q}%`) : undefined,
+    ].filter(Boolean);
+
+    const rows = await db
+      .select({
+        id: documents.id,
+        url: documents.url,
+        title: documents.title,
+        source: sourceExpr,
+        preview: sql<string>`left(${documents.content}, 200)`,
+        chunks: sql<number>`(select count(*)::int from ${documentChunks} where ${documentChunks.documentId} = ${documents.id} and ${documentChunks.supersededAt} is null)`,
+        createdAt: documents.createdAt,
+        updatedAt: documents.updatedAt,
+      })
+      .from(documents)
+      .where(filters.length ? sql.join(filters, sql` and `) : undefined)
+      .orderBy(desc(documents.updatedAt))
+      .limit(PAGE_SIZE + 1)
+      .offset(page * PAGE_SIZE);
+
+    return {
+      items: rows.slice(0, PAGE_SIZE) as DocumentListItem[],
+      hasMore: rows.length > PAGE_SIZE,
+      page,
+    };
+  });
+}
+
+export async function getDocumentWithChunks(tenantId: string, id: string) {
+  return withPgClient(async (client) => {
+    const db = withDrizzle(client);
+    const [doc] = await db
+      .select()
+      .from(documents)
+      .where(and(eq(documents.tenantId, tenantId), eq(documents.id, id)))
+      .limit(1);
+    if (!doc) return null;
+
+    const chunks = await db
+      .select({
+        id: documentChunks.id,
+        chunkIndex: documentChunks.chunkIndex,
+        content: documentChunks.content,
+        charStart: documentChunks.charStart,
+        charEnd: documentChunks.charEnd,
+        headingPath: documentChunks.headingPath,
+        embedded: isNotNull(documentChunks.embedding),
+        createdAt: documentChunks.createdAt,
+      })
+      .from(documentChunks)
+      .where(and(eq(documentChunks.documentId, id), isNull(documentChunks.supersededAt)))
+      .orderBy(asc(documentChunks.chunkIndex));
+
+    return { doc, chunks };
+  });
+}
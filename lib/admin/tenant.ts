@@ -0,0 +1,16 @@
+import { cookies } from "next/headers";
+
+import { withDrizzle, withPgClient } from "../db/pg";
+import { defaultTenantSlug, loadTenant, tenantCache, type Tenant } from "../tenants";
+import { ADMIN_TENANT_COOKIE } from "./auth";
+
+const findBySlug = (slug: string) =>
+  tenantCache.find({ slug }, (ref) => withPgClient((client) => loadTenant(withDrizzle(client), ref)));
+
+// the tenant picked in the admin header; a stale cookie falls back to DEFAULT_TENANT
+export async function adminTenant(): Promise<Tenant> {
+  const picked = cookies().get(ADMIN_TENANT_COOKIE)?.value;
+  const tenant = (picked ? await findBySlug(picked) : null) ?? (await findBySlug(defaultTenantSlug()));
+  if (!tenant) throw new Error(`tenant "${defaultTenantSlug()}" not found; set DEFAULT_TENANT`);
+  return tenant;
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { createFakeChatModel, type ChatModel } from "./chat";
+import { extractCitations, streamGroundedAnswer, type SourceChunk } from "./answer";
+
+const profile = { name: "Wimo", refusal: "Not in our FAQs." };
+
+const sources: SourceChunk[] = [
+  { chunkId: "c1", documentId: "d1", url: "https://shop.test/returns", content: "Returns within 7 days.", similarity: 0.9 },
+  { chunkId: "c2", documentId: "d2", url: null, content: "Sizes run small.", similarity: 0.8, citation: "Size Guide, p.2" },
+];
+
+// the SSE body as [event, data] pairs
+async function events(stream: ReadableStream<Uint8Array>) {
+  const text = await new Response(stream).text();
+  return text
+    .split("\n\n")
+    .filter(Boolean)
+    .map((block) => {
+      const [event, data] = block.split("\n");
+      return [event.replace("event: ", ""), JSON.parse(data.replace("data: ", ""))] as const;
+    });
+}
+
+describe("streamGroundedAnswer", () => {
+  it("streams sources, tokens and the cited chunks", async () => {
+    let completed: [string, boolean] | null = null;
+    const out = await events(
+      streamGroundedAnswer({
+        query: "returns?",
+        sources,
+        model: createFakeChatModel("Returns within 7 days [c1]."),
+        profile,
+        onComplete: (answer, refused) => (completed = [answer, refused]),
+      }),
+    );
+
+    expect(out[0][0]).toBe("sources");
+    expect(out[0][1].sources.map((s: { chunkId: string }) => s.chunkId)).toEqual(["c1", "c2"]);
+    const text = out
+      .filter(([e]) => e === "token")
+      .map(([, d]) => d.text)
+      .join("");
+    expect(text).toBe("Returns within 7 days [c1].");
+    const [event, done] = out[out.length - 1];
+    expect(event).toBe("done");
+    expect(done.refused).toBe(false);
+    expect(done.citations).toEqual([{ chunkId: "c1", documentId: "d1", url: "https://shop.test/returns", citation: null }]);
+    expect(completed).toEqual(["Returns within 7 days [c1].", false]);
+  });
+
+  it("never shows the NO_ANSWER marker, only the refusal", async () => {
+    const out = await events(
+      streamGroundedAnswer({ query: "gift cards?", sources, model: createFakeChatModel("NO_ANSWER"), profile }),
+    );
+    expect(out.filter(([e]) => e === "token").map(([, d]) => d.text)).toEqual(["Not in our FAQs."]);
+    expect(out[out.length - 1][1].refused).toBe(true);
+  });
+
+  it("refuses without calling the model when no sources are left", async () => {
+    const model = createFakeChatModel(() => {
+      throw new Error("model should not be called");
+    });
+    const out = await events(streamGroundedAnswer({ query: "hi", sources: [], model, profile }));
+    expect(out.map(([e]) => e)).toEqual(["sources", "token", "done"]);
+    expect(out[2][1].refused).toBe(true);
+  });
+
+  it("reports a model failure before sending the error event", async () => {
+    const onError = vi.fn();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const model: ChatModel = {
+      name: "broken",
+      async *stream() {
+        yield "Returns ";
+        throw new Error("upstream 500");
+      },
+    };
+    const out = await events(streamGroundedAnswer({ query: "returns?", sources, model, profile, onError }));
+    expect(out.map(([e]) => e)).toEqual(["sources", "token", "error"]);
+    expect(out[2][1]).toEqual({ error: "upstream 500" });
+    expect(onError).toHaveBeenCalledOnce();
+    vi.restoreAllMocks();
+  });
+
+  it("stops the model and reports the disconnect when the reader cancels", async () => {
+    const onComplete = vi.fn();
+    const onError = vi.fn();
+    let pulled = 0;
+    let aborted = false;
+    const model: ChatModel = {
+      name: "endless",
+      async *stream(_messages, signal) {
+        signal?.addEventListener("abort", () => (aborted = true));
+        while (!signal?.aborted) {
+          pulled++;
+          yield "more ";
+          await new Promise((resolve) => setTimeout(resolve, 5));
+        }
+      },
+    };
+    const reader = streamGroundedAnswer({ query: "returns?", sources, model, profile, onComplete, onError }).getReader();
+    await reader.read();
+    await reader.read();
+    await reader.cancel();
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    expect(aborted).toBe(true);
+    const after = pulled;
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(pulled).toBe(after);
+    expect(onComplete).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledOnce();
+    expect(onError.mock.calls[0][0]).toMatchObject({ message: "client disconnected" });
+  });
+});
+
+describe("extractCitations", () => {
+  it("matches chunk ids and urls, ignoring unknown refs", () => {
+    const cited = extractCitations("A [c2, nope]. B [https://shop.test/returns].", sources);
+    expect(cited.map((c) => c.chunkId)).toEqual(["c1", "c2"]);
+    expect(cited[1].citation).toBe("Size Guide, p.2");
+  });
+});
@@ -0,0 +1,168 @@
+import type { ChatMessage, ChatModel } from "./chat";
+
+export type SourceChunk = {
+  chunkId: string;
+  documentId: string;
+  url: string | null;
+  content: string;
+  similarity: number | null;
+  // human label for uploaded-file chunks, e.g. "Size Guide, p.2"
+  citation?: string | null;
+};
+
+export const NO_ANSWER = "NO_ANSWER";
+
+// whose assistant is answering: the tenant's store name, persona and refusal (see lib/tenants)
+export type AssistantProfile = {
+  name: string;
+  // replaces the "You are the <name> store assistant." line
+  persona?: string | null;
+  refusal?: string | null;
+};
+
+export function refusalMessage(profile: AssistantProfile) {
+  return (
+    profile.refusal ||
+    `I could not find this in FAQs. Do you want to see what customers said about ${profile.name}?`
+  );
+}
+
+// the persona is the tenant's; the grounding rules are not
+function systemPrompt(profile: AssistantProfile) {
+  return `${profile.persona || `You are the ${profile.name} store assistant.`}
+Answer ONLY from the numbered sources the user gives you. Never use outside knowledge.
+End every sentence with the id of the source(s) it came from in square brackets, e.g. "Returns are accepted within 7 days [3f2a...]."
+Keep answers short (1-4 sentences).
+If the sources do not answer the question, reply with exactly: ${NO_ANSWER}`;
+}
+
+export function buildGroundedMessages(
+  query: string,
+  sources: SourceChunk[],
+  profile: AssistantProfile,
+): ChatMessage[] {
+  const blocks = sources
+    .map((s) => `[${s.chunkId}] ${s.citation ?? s.url ?? ""}\n${s.content.trim()}`)
+    .join("\n\n");
+
+  return [
+    { role: "system", content: systemPrompt(profile) },
+    { role: "user", content: `Question: ${query}\n\nSources:\n\n${blocks}` },
+  ];
+}
+
+// which of our sources the answer actually cited, by chunk id or document url
+export function extractCitations(text: string, sources: SourceChunk[]) {
+  const cited = new Set<string>();
+  for (const m of text.matchAll(/\[([^\]]+)\]/g)) {
+    for (const ref of m[1].split(/[,\s]+/).filter(Boolean)) {
+      const hit = sources.find((s) => s.chunkId === ref || s.url === ref);
+      if (hit) cited.add(hit.chunkId);
+    }
+  }
+  return sources
+    .filter((s) => cited.has(s.chunkId))
+    .map((s) => ({ chunkId: s.chunkId, documentId: s.documentId, url: s.url, citation: s.citation ?? null }));
+}
+
+function sse(event: string, data: unknown) {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Streams a grounded answer as server-sent events:
+ *   sources → token* → done   (or error)
+ * `sources` must already be thresholded by retrieval; with none left the
+ * answer is refused without calling the model. If the reader goes away the
+ * model is aborted and onError gets the disconnect.
+ */
+export function streamGroundedAnswer(opts: {
+  query: string;
+  sources: SourceChunk[];
+  model: ChatModel;
+  profile: AssistantProfile;
+  // called once with the text the shopper ended up seeing
+  onComplete?: (answer: string, refused: boolean) => void;
+  // called instead of onComplete when the model fails mid-answer or the client disconnects
+  onError?: (err: unknown) => void;
+}): ReadableStream<Uint8Array> {
+  const { query, model, sources, profile, onComplete, onError } = opts;
+  const enc = new TextEncoder();
+  const refusal = refusalMessage(profile);
+  const abort = new AbortController();
+  // set once the reader cancels or we close; enqueue/close would throw after that
+  let closed = false;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!closed) controller.enqueue(enc.encode(sse(event, data)));
+      };
+      const refuse = () => {
+        send("token", { text: refusal });
+        send("done", { refused: true, citations: [], canShowReviews: true });
+        onComplete?.(refusal, true);
+      };
+
+      send("sources", {
+        sources: sources.map((s) => ({
+          chunkId: s.chunkId,
+          documentId: s.documentId,
+          url: s.url,
+          citation: s.citation ?? null,
+          similarity: s.similarity,
+        })),
+      });
+
+      try {
+        if (sources.length === 0) {
+          refuse();
+          return;
+        }
+
+        // hold tokens back until we know the reply isn't the NO_ANSWER marker
+        let full = "";
+        let flushed = 0;
+        for await (const delta of model.stream(buildGroundedMessages(query, sources, profile), abort.signal)) {
+          abort.signal.throwIfAborted();
+          full += delta;
+          const head = full.trimStart();
+          if (flushed === 0 && (NO_ANSWER.startsWith(head) || head.startsWith(NO_ANSWER))) {
+            continue;
+          }
+          send("token", { text: full.slice(flushed) });
+          flushed = full.length;
+        }
+        abort.signal.throwIfAborted();
+
+        if (full.trim().startsWith(NO_ANSWER)) {
+          refuse();
+          return;
+        }
+        if (flushed < full.length) send("token", { text: full.slice(flushed) });
+
+        send("done", {
+          refused: false,
+          citations: extractCitations(full, sources),
+          canShowReviews: true,
+        });
+        onComplete?.(full.trim(), false);
+      } catch (err: any) {
+        // the disconnect is what failed, not the model's error it shows up as
+        const cause = abort.signal.aborted ? abort.signal.reason : err;
+        onError?.(cause);
+        if (!abort.signal.aborted) console.error("[answer] generation failed", err);
+        send("error", { error: String(cause?.message || cause) });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+      abort.abort(new Error("client disconnected"));
+    },
+  });
+}
@@ -0,0 +1,89 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { createTestDb } from "../db/testing";
+import { QueryEmbeddingCache } from "./cache";
+import { createHashEmbeddingProvider, type EmbeddingProvider } from "./embeddings";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// the hash embedder, counting what reaches it
+function countingProvider() {
+  const inner = createHashEmbeddingProvider({ dimensions: 16 });
+  const calls: string[][] = [];
+  const provider: EmbeddingProvider = {
+    ...inner,
+    async embed(texts) {
+      calls.push(texts);
+      return inner.embed(texts);
+    },
+  };
+  return { provider, calls };
+}
+
+describe("QueryEmbeddingCache", () => {
+  let testDb: Awaited<ReturnType<typeof createTestDb>>;
+  const rows = async () =>
+    (await testDb.client.query<{ text: string; hits: number }>("SELECT text, hits FROM embedding_cache ORDER BY text"))
+      .rows;
+
+  beforeAll(async () => {
+    testDb = await createTestDb();
+  });
+
+  afterAll(async () => {
+    await testDb.close();
+  });
+
+  it("embeds each distinct question once, in input order", async () => {
+    const { provider, calls } = countingProvider();
+    const cache = new QueryEmbeddingCache(100, DAY_MS, () => testDb.client);
+
+    const [a, b, c] = await cache.embedMany(provider, ["Return policy?", "shipping", "return  policy"]);
+    expect(calls).toEqual([["return policy", "shipping"]]);
+    expect(a).toEqual(c);
+    expect(a).not.toEqual(b);
+
+    await cache.embed(provider, "RETURN POLICY");
+    expect(calls).toHaveLength(1);
+    expect(cache.stats()).toMatchObject({ memoryHits: 1, misses: 2, pending: 0 });
+  });
+
+  it("writes misses and hit counts on flush, not on the request", async () => {
+    const { provider, calls } = countingProvider();
+    const first = new QueryEmbeddingCache(100, DAY_MS, () => testDb.client);
+
+    await first.embedMany(provider, ["size guide", "cod available"], testDb.client);
+    expect(first.stats().pending).toBe(2);
+    expect(await rows()).toEqual([]);
+    await first.flush();
+    expect(await rows()).toEqual([
+      { text: "cod available", hits: 0 },
+      { text: "size guide", hits: 0 },
+    ]);
+
+    // another process: empty memory, served from the table
+    const second = new QueryEmbeddingCache(100, DAY_MS, () => testDb.client);
+    await second.embed(provider, "Size guide?", testDb.client);
+    second.clear();
+    await second.embed(provider, "size guide", testDb.client);
+    expect(calls).toHaveLength(1);
+    expect(second.stats()).toMatchObject({ dbHits: 2, misses: 0, pending: 1 });
+
+    await second.flush();
+    expect(await rows()).toContainEqual({ text: "size guide", hits: 2 });
+  });
+
+  it("ignores and sweeps rows past the TTL", async () => {
+    const { provider, calls } = countingProvider();
+    const cache = new QueryEmbeddingCache(100, DAY_MS, () => testDb.client);
+    await testDb.client.query(`UPDATE embedding_cache SET created_at = now() - interval '2 days' WHERE text = 'cod available'`);
+
+    await cache.embed(provider, "cod available", testDb.client);
+    expect(calls).toHaveLength(1);
+
+    expect(await cache.purgeExpired(testDb.client)).toBe(1);
+    expect((await rows()).map((r) => r.text)).toEqual(["size guide"]);
+    await cache.flush();
+    expect((await rows()).map((r) => r.text)).toEqual(["cod available", "size guide"]);
+  });
+});
@@ -0,0 +1,267 @@
+import { createHash } from "node:crypto";
+import type { ClientBase } from "pg";
+
+import { configSection } from "../config";
+import { getPool } from "../db/pg";
+import { onShutdown } from "../shutdown";
+import type { EmbeddingProvider } from "./embeddings";
+
+const MAX_ENTRIES = 5000;
+// table writes (new entries, hit counts) wait this long, or until this many are queued
+const FLUSH_MS = 2000;
+const MAX_PENDING = 100;
+// expired rows are swept at most this often, this many per sweep
+const SWEEP_MS = 60 * 60 * 1000;
+const SWEEP_ROWS = 1000;
+
+type Db = Pick<ClientBase, "query">;
+
+// "Return policy?" and "return  policy" are the same question
+export function normalizeQuery(text: string) {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/[\s?!.]+$/, "");
+}
+
+const sha256 = (s: string) => createHash("sha256").update(s).digest("hex");
+
+export type QueryCacheStats = {
+  memoryHits: number;
+  dbHits: number;
+  misses: number;
+  dbErrors: number;
+  expired: number;
+  hitRate: number;
+  size: number;
+  // table writes waiting for the next flush
+  pending: number;
+};
+
+type Entry = { vec: number[]; at: number };
+
+type PendingWrite = { model: string; hash: string; text: string; vec: number[] };
+
+/**
+ * Query embeddings keyed by provider name + normalized text: an in-process
+ * LRU first, then the shared embedding_cache table, then the provider.
+ * The table is best-effort; if it's unreachable we still answer. Only the
+ * lookup runs on the request path: new entries and hit counts are queued and
+ * written in batches (through `store`, the shared pool by default), and each
+ * flush sweeps expired rows now and then.
+ */
+export class QueryEmbeddingCache {
+  private entries = new Map<string, Entry>();
+  private counters = { memoryHits: 0, dbHits: 0, misses: 0, dbErrors: 0, expired: 0 };
+  private writes = new Map<string, PendingWrite>();
+  private hits = new Map<string, { model: string; hash: string; n: number }>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+  private sweptAt = 0;
+
+  constructor(
+    private maxEntries = MAX_ENTRIES,
+    // EMBEDDING_CACHE_TTL_MS by default; a provider's vectors for a given text don't drift
+    private ttl?: number,
+    // where queued writes go; per-request connections are long gone by then
+    private store: () => Db = getPool,
+  ) {}
+
+  private get ttlMs() {
+    return this.ttl ?? configSection("embeddings").cacheTtlMs;
+  }
+
+  async embed(provider: EmbeddingProvider, text: string, db?: Db): Promise<number[]> {
+    const [vec] = await this.embedMany(provider, [text], db);
+    return vec;
+  }
+
+  // many texts at once, in input order: memory first, then one table lookup, then one provider call
+  async embedMany(provider: EmbeddingProvider, texts: string[], db?: Db): Promise<number[][]> {
+    const wanted = new Map<string, { hash: string; normalized: string; vec?: number[] }>();
+    const keys = texts.map((text) => {
+      const normalized = normalizeQuery(text) || text;
+      const hash = sha256(normalized);
+      const key = `${provider.name}\n${hash}`;
+      if (!wanted.has(key)) wanted.set(key, { hash, normalized });
+      return key;
+    });
+
+    for (const [key, w] of wanted) {
+      const entry = this.entries.get(key);
+      if (entry && Date.now() - entry.at <= this.ttlMs) {
+        this.counters.memoryHits++;
+        this.remember(key, entry.vec, entry.at);
+        w.vec = entry.vec;
+      }
+    }
+
+    const fromDb = [...wanted].filter(([, w]) => !w.vec);
+    if (db && fromDb.length) {
+      const stored = await this.readDb(db, provider.name, fromDb.map(([, w]) => w.hash));
+      for (const [key, w] of fromDb) {
+        const vec = stored.get(w.hash);
+        if (vec && vec.length === provider.dimensions) {
+          this.counters.dbHits++;
+          this.remember(key, vec);
+          this.countHit(provider.name, w.hash);
+          w.vec = vec;
+        }
+      }
+    }
+
+    const missing = [...wanted].filter(([, w]) => !w.vec);
+    if (missing.length) {
+      this.counters.misses += missing.length;
+      const vectors = await provider.embed(missing.map(([, w]) => w.normalized));
+      for (const [i, [key, w]] of missing.entries()) {
+        const vec = (w.vec = vectors[i]);
+        this.remember(key, vec);
+        if (db) this.queue(() => this.writes.set(key, { model: provider.name, hash: w.hash, text: w.normalized, vec }));
+      }
+    }
+
+    return keys.map((key) => wanted.get(key)!.vec!);
+  }
+
+  stats(): QueryCacheStats {
+    const { memoryHits, dbHits, misses } = this.counters;
+    const total = memoryHits + dbHits + misses;
+    return {
+      ...this.counters,
+      hitRate: total ? (memoryHits + dbHits) / total : 0,
+      size: this.entries.size,
+      pending: this.writes.size + this.hits.size,
+    };
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+
+  // writes every queued entry and hit count; flushes run one after another
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.flushing = this.flushing.then(async () => {
+      const writes = [...this.writes.values()];
+      const hits = [...this.hits.values()];
+      this.writes.clear();
+      this.hits.clear();
+      if (!writes.length && !hits.length) return;
+
+      const db = this.store();
+      for (let i = 0; i < writes.length; i += MAX_PENDING) await this.writeDb(db, writes.slice(i, i + MAX_PENDING));
+      if (hits.length) await this.writeHits(db, hits);
+      if (Date.now() - this.sweptAt >= SWEEP_MS) {
+        this.sweptAt = Date.now();
+        await this.purgeExpired(db);
+      }
+    });
+    return this.flushing;
+  }
+
+  /** Deletes up to `limit` rows older than the TTL (lookups already ignore them); returns how many went. */
+  async purgeExpired(db: Db, limit = SWEEP_ROWS): Promise<number> {
+    try {
+      const r = await db.query(
+        `DELETE FROM embedding_cache
+          WHERE ctid IN (
+            SELECT ctid FROM embedding_cache
+             WHERE created_at <= now() - $1 * interval '1 millisecond'
+             LIMIT $2
+          )`,
+        [this.ttlMs, limit],
+      );
+      this.counters.expired += r.rowCount ?? 0;
+      return r.rowCount ?? 0;
+    } catch (e) {
+      this.counters.dbErrors++;
+      console.error("[embedding-cache] sweep failed", e);
+      return 0;
+    }
+  }
+
+  private countHit(model: string, hash: string) {
+    this.queue(() => {
+      const key = `${model}\n${hash}`;
+      const hit = this.hits.get(key);
+      if (hit) hit.n++;
+      else this.hits.set(key, { model, hash, n: 1 });
+    });
+  }
+
+  private queue(add: () => void) {
+    add();
+    if (this.writes.size + this.hits.size >= MAX_PENDING) void this.flush();
+    else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), FLUSH_MS);
+      // a pending flush shouldn't keep a script alive
+      this.timer.unref?.();
+    }
+  }
+
+  // Map keeps insertion order, so re-inserting on use gives LRU eviction
+  private remember(key: string, vec: number[], at = Date.now()) {
+    this.entries.delete(key);
+    this.entries.set(key, { vec, at });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  private async readDb(db: Db, model: string, hashes: string[]) {
+    try {
+      const r = await db.query<{ text_hash: string; embedding: number[] }>(
+        `SELECT text_hash, embedding FROM embedding_cache
+          WHERE model = $1 AND text_hash = ANY($2)
+            AND created_at > now() - $3 * interval '1 millisecond'`,
+        [model, hashes, this.ttlMs],
+      );
+      return new Map(r.rows.map((row) => [row.text_hash, row.embedding.map(Number)]));
+    } catch (e) {
+      this.counters.dbErrors++;
+      console.error("[embedding-cache] read failed", e);
+      return new Map<string, number[]>();
+    }
+  }
+
+  private async writeDb(db: Db, rows: PendingWrite[]) {
+    try {
+      const values = rows.map((_, i) => `($${i * 4 + 1}, $${i * 4 + 2}, $${i * 4 + 3}, $${i * 4 + 4}::real[])`);
+      await db.query(
+        `INSERT INTO embedding_cache (model, text_hash, text, embedding)
+         VALUES ${values.join(", ")}
+         ON CONFLICT (model, text_hash) DO UPDATE
+           SET embedding = excluded.embedding, text = excluded.text, created_at = now(), hits = 0`,
+        rows.flatMap((r) => [r.model, r.hash, r.text, r.vec]),
+      );
+    } catch (e) {
+      this.counters.dbErrors++;
+      console.error(`[embedding-cache] write of ${rows.length} failed`, e);
+    }
+  }
+
+  private async writeHits(db: Db, hits: { model: string; hash: string; n: number }[]) {
+    try {
+      await db.query(
+        `UPDATE embedding_cache AS c
+            SET hits = c.hits + v.n, last_hit_at = now()
+           FROM unnest($1::text[], $2::text[], $3::int[]) AS v(model, text_hash, n)
+          WHERE c.model = v.model AND c.text_hash = v.text_hash`,
+        [hits.map((h) => h.model), hits.map((h) => h.hash), hits.map((h) => h.n)],
+      );
+    } catch (e) {
+      this.counters.dbErrors++;
+      console.error(`[embedding-cache] hit counts for ${hits.length} failed`, e);
+    }
+  }
+}
+
+export const queryEmbeddingCache = new QueryEmbeddingCache();
+// whatever is still queued when the server stops
+onShutdown(() => queryEmbeddingCache.flush());
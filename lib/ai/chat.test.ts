@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { complete, createFakeChatModel, getChatModel } from "./chat";
+import { buildGroundedMessages, type SourceChunk } from "./answer";
+
+const profile = { name: "Wimo" };
+
+const source = (chunkId: string, content: string): SourceChunk => ({
+  chunkId,
+  documentId: `doc-${chunkId}`,
+  url: `https://shop.test/${chunkId}`,
+  content,
+  similarity: 0.9,
+});
+
+async function deltas(model: ReturnType<typeof createFakeChatModel>) {
+  const out: string[] = [];
+  for await (const d of model.stream([{ role: "user", content: "hi" }])) out.push(d);
+  return out;
+}
+
+describe("createFakeChatModel", () => {
+  it("streams the script word by word", async () => {
+    const model = createFakeChatModel("Returns are free  within 7 days.");
+    expect(await deltas(model)).toEqual(["Returns ", "are ", "free  ", "within ", "7 ", "days."]);
+    expect(await complete(model, [])).toBe("Returns are free  within 7 days.");
+  });
+
+  it("builds the reply from the conversation when given a function", async () => {
+    const model = createFakeChatModel((messages) => `seen ${messages.length}`);
+    expect(await complete(model, [{ role: "system", content: "" }, { role: "user", content: "" }])).toBe("seen 2");
+  });
+});
+
+describe("getChatModel with CHAT_PROVIDER=fake", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("answers with the first sentence of the first source, cited by id", async () => {
+    vi.stubEnv("CHAT_PROVIDER", "fake");
+    vi.stubEnv("FAKE_CHAT_SCRIPT", "");
+    const model = getChatModel();
+    const messages = buildGroundedMessages(
+      "how long do returns take?",
+      [source("c1", "Returns are accepted within 7 days. Refunds take 3 days."), source("c2", "Shipping is free.")],
+      profile,
+    );
+
+    expect(model.name).toBe("fake");
+    expect(await complete(model, messages)).toBe("Returns are accepted within 7 days. [c1]");
+  });
+
+  it("refuses when there are no sources to echo", async () => {
+    vi.stubEnv("CHAT_PROVIDER", "fake");
+    vi.stubEnv("FAKE_CHAT_SCRIPT", "");
+    expect(await complete(getChatModel(), [{ role: "user", content: "Question: hi" }])).toBe("NO_ANSWER");
+  });
+
+  it("replies with FAKE_CHAT_SCRIPT when set", async () => {
+    vi.stubEnv("CHAT_PROVIDER", "fake");
+    vi.stubEnv("FAKE_CHAT_SCRIPT", "Scripted reply.");
+    expect(await complete(getChatModel(), [])).toBe("Scripted reply.");
+  });
+});
@@ -0,0 +1,89 @@
+import OpenAI from "openai";
+
+import { configSection } from "../config";
+
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+// anything that can turn a conversation into a stream of text deltas;
+// aborting `signal` stops the generation (the stream then throws)
+export interface ChatModel {
+  name: string;
+  stream(messages: ChatMessage[], signal?: AbortSignal): AsyncIterable<string>;
+}
+
+export function createOpenAIChatModel(opts: {
+  apiKey: string;
+  model?: string;
+}): ChatModel {
+  const openai = new OpenAI({ apiKey: opts.apiKey });
+  const model = opts.model || "gpt-4o-mini";
+
+  return {
+    name: `openai:${model}`,
+    async *stream(messages, signal) {
+      const res = await openai.chat.completions.create(
+        {
+          model,
+          messages,
+          temperature: 0,
+          stream: true,
+        },
+        { signal },
+      );
+      for await (const part of res) {
+        const delta = part.choices[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+  };
+}
+
+// non-streaming convenience: collect the whole reply
+export async function complete(model: ChatModel, messages: ChatMessage[]) {
+  let out = "";
+  for await (const delta of model.stream(messages)) out += delta;
+  return out.trim();
+}
+
+// Scripted model for offline runs: replies with `script` word by word,
+// so callers see the same chunked stream a real provider would give them.
+export function createFakeChatModel(
+  script: string | ((messages: ChatMessage[]) => string),
+): ChatModel {
+  return {
+    name: "fake",
+    async *stream(messages, signal) {
+      const text = typeof script === "function" ? script(messages) : script;
+      for (const piece of text.match(/\S+\s*/g) ?? []) {
+        signal?.throwIfAborted();
+        yield piece;
+      }
+    },
+  };
+}
+
+// default fake reply: first sentence of the first source, cited by its id
+function echoFirstSource(messages: ChatMessage[]) {
+  const prompt = messages[messages.length - 1]?.content ?? "";
+  const m = prompt.match(/^\[([^\]]+)\][^\n]*\n([^\n]+)/m);
+  if (!m) return "NO_ANSWER";
+  const sentence = m[2].split(/(?<=[.!?])\s/)[0].trim();
+  return `${sentence} [${m[1]}]`;
+}
+
+// CHAT_PROVIDER=fake swaps in the scripted model (FAKE_CHAT_SCRIPT overrides the reply);
+// `model` is a tenant's chatModel, falling back to CHAT_MODEL
+export function getChatModel(model?: string | null): ChatModel {
+  const chat = configSection("chat");
+
+  if (chat.provider === "fake") {
+    return createFakeChatModel(chat.fakeScript || echoFirstSource);
+  }
+
+  const { apiKey } = configSection("openai");
+  if (!apiKey) throw new Error("Missing OPENAI_API_KEY");
+  return createOpenAIChatModel({ apiKey, model: model || chat.model });
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+
+import { createHashEmbeddingProvider, toVectorLiteral } from "./embeddings";
+
+const dot = (a: number[], b: number[]) => a.reduce((s, x, i) => s + x * b[i], 0);
+
+describe("createHashEmbeddingProvider", () => {
+  it("returns unit vectors of the configured size", async () => {
+    const provider = createHashEmbeddingProvider({ dimensions: 64 });
+    const [vec] = await provider.embed(["Free returns within seven days"]);
+
+    expect(provider.dimensions).toBe(64);
+    expect(provider.name).toBe("fake:hash@64");
+    expect(vec).toHaveLength(64);
+    expect(Math.sqrt(dot(vec, vec))).toBeCloseTo(1, 10);
+  });
+
+  it("is deterministic across calls and instances", async () => {
+    const a = await createHashEmbeddingProvider({ dimensions: 128 }).embed(["Do you ship to Canada?"]);
+    const b = await createHashEmbeddingProvider({ dimensions: 128 }).embed(["do you SHIP to canada"]);
+    expect(a).toEqual(b);
+  });
+
+  it("puts texts that share words closer than unrelated ones", async () => {
+    const [q, near, far] = await createHashEmbeddingProvider({ dimensions: 256 }).embed([
+      "how long does shipping take",
+      "shipping takes how long to arrive",
+      "the jacket is made of wool",
+    ]);
+    expect(dot(q, near)).toBeGreaterThan(dot(q, far));
+  });
+
+  it("embeds text without words as the zero vector", async () => {
+    const [vec] = await createHashEmbeddingProvider({ dimensions: 8 }).embed(["  ?! "]);
+    expect(vec).toEqual(new Array(8).fill(0));
+  });
+});
+
+describe("toVectorLiteral", () => {
+  it("formats a pgvector literal", () => {
+    expect(toVectorLiteral([0.5, -1, 0])).toBe("[0.5,-1,0]");
+  });
+});
@@ -0,0 +1,163 @@
+import { createHash } from "crypto";
+import OpenAI from "openai";
+
+import { configSection } from "../config";
+
+// anything that turns texts into fixed-size vectors
+export interface EmbeddingProvider {
+  // stored per chunk (document_chunks.embedding_model); a change means re-embed
+  name: string;
+  dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export const DEFAULT_OPENAI_MODEL = "text-embedding-3-small";
+export const DEFAULT_LOCAL_MODEL = "Xenova/all-MiniLM-L6-v2";
+
+// native sizes of the models we default to
+const DEFAULT_DIMENSIONS: Record<string, number> = {
+  openai: 1536,
+  local: 384,
+  fake: 1536,
+};
+
+export function createOpenAIEmbeddingProvider(opts: {
+  apiKey: string;
+  model?: string;
+  // text-embedding-3-* can shorten vectors server-side
+  dimensions?: number;
+}): EmbeddingProvider {
+  const openai = new OpenAI({ apiKey: opts.apiKey });
+  const model = opts.model || DEFAULT_OPENAI_MODEL;
+  const dimensions = opts.dimensions || DEFAULT_DIMENSIONS.openai;
+  // the API caps a call at 2048 inputs
+  const batchSize = 512;
+
+  return {
+    name: `openai:${model}@${dimensions}`,
+    dimensions,
+    async embed(texts) {
+      const out: number[][] = [];
+      for (let i = 0; i < texts.length; i += batchSize) {
+        const emb = await openai.embeddings.create({
+          model,
+          input: texts.slice(i, i + batchSize),
+          ...(opts.dimensions ? { dimensions } : {}),
+        });
+        out.push(...[...emb.data].sort((a, b) => a.index - b.index).map((d) => d.embedding));
+      }
+      return out;
+    },
+  };
+}
+
+// Sentence-transformers model on CPU via transformers.js (ONNX); the model is
+// downloaded to the HF cache on first use, then runs offline.
+export function createLocalEmbeddingProvider(opts: { model?: string; dimensions?: number } = {}): EmbeddingProvider {
+  const model = opts.model || DEFAULT_LOCAL_MODEL;
+  const dimensions = opts.dimensions || DEFAULT_DIMENSIONS.local;
+  const batchSize = 32;
+  let extractor: Promise<any> | null = null;
+
+  return {
+    name: `local:${model}@${dimensions}`,
+    dimensions,
+    async embed(texts) {
+      // imported lazily so the openai path never loads onnxruntime
+      extractor ??= import("@huggingface/transformers").then(({ pipeline }) =>
+        pipeline("feature-extraction", model),
+      );
+      const run = await extractor;
+      const out: number[][] = [];
+      for (let i = 0; i < texts.length; i += batchSize) {
+        const tensor = await run(texts.slice(i, i + batchSize), { pooling: "mean", normalize: true });
+        out.push(...(tensor.tolist() as number[][]));
+      }
+      return out;
+    },
+  };
+}
+
+// Deterministic offline embeddings: hashed word unigrams and bigrams, signed and
+// L2-normalized. Texts sharing words land close together, which is all tests need.
+export function createHashEmbeddingProvider(opts: { dimensions?: number } = {}): EmbeddingProvider {
+  const dimensions = opts.dimensions || DEFAULT_DIMENSIONS.fake;
+
+  const embedOne = (text: string) => {
+    const vec = new Array<number>(dimensions).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    const features = [...words, ...words.slice(1).map((w, i) => `${words[i]} ${w}`)];
+    for (const f of features) {
+      const h = createHash("sha256").update(f).digest();
+      vec[h.readUInt32BE(0) % dimensions] += h[4] & 1 ? 1 : -1;
+    }
+    const norm = Math.sqrt(vec.reduce((n, x) => n + x * x, 0));
+    return norm ? vec.map((x) => x / norm) : vec;
+  };
+
+  return {
+    name: `fake:hash@${dimensions}`,
+    dimensions,
+    async embed(texts) {
+      return texts.map(embedOne);
+    },
+  };
+}
+
+// wrong-sized vectors would only fail later, at the pgvector cast
+function checked(provider: EmbeddingProvider): EmbeddingProvider {
+  return {
+    ...provider,
+    async embed(texts) {
+      if (texts.length === 0) return [];
+      const vectors = await provider.embed(texts);
+      if (vectors.length !== texts.length) {
+        throw new Error(`${provider.name} returned ${vectors.length} embeddings for ${texts.length} texts`);
+      }
+      const bad = vectors.find((v) => v.length !== provider.dimensions);
+      if (bad) throw new Error(`${provider.name}: embedding length ${bad.length}, expected ${provider.dimensions}`);
+      return vectors;
+    },
+  };
+}
+
+let provider: EmbeddingProvider | null = null;
+
+// EMBEDDING_PROVIDER=openai | local | fake, EMBEDDING_MODEL, EMBEDDING_DIM; built on first use
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (provider) return provider;
+
+  const { provider: kind, model, dimensions } = configSection("embeddings");
+
+  if (kind === "fake") {
+    provider = checked(createHashEmbeddingProvider({ dimensions }));
+  } else if (kind === "local") {
+    provider = checked(createLocalEmbeddingProvider({ model, dimensions }));
+  } else {
+    const { apiKey } = configSection("openai");
+    if (!apiKey) throw new Error("Missing OPENAI_API_KEY");
+    provider = checked(createOpenAIEmbeddingProvider({ apiKey, model, dimensions }));
+  }
+  return provider;
+}
+
+// the vector size configured for this deployment, without building a provider
+export function configuredDimensions() {
+  const { provider: kind, dimensions } = configSection("embeddings");
+  return dimensions || DEFAULT_DIMENSIONS[kind] || DEFAULT_DIMENSIONS.openai;
+}
+
+export async function embedQuery(text: string): Promise<number[]> {
+  const [vec] = await getEmbeddingProvider().embed([text]);
+  return vec;
+}
+
+// many texts at once, in input order
+export async function embedTexts(texts: string[]): Promise<number[][]> {
+  return getEmbeddingProvider().embed(texts);
+}
+
+// JS array → pgvector literal ("[0.1,0.2,...]")
+export function toVectorLiteral(vec: number[]) {
+  return `[${vec.join(",")}]`;
+}
@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import type { ChatTurn } from "../chat/memory";
+import { createFakeChatModel, type ChatMessage } from "./chat";
+import { rewriteQuery } from "./rewrite";
+
+const history: ChatTurn[] = [
+  { role: "user", content: "Do you ship to Canada?" },
+  { role: "assistant", content: "Yes, in 5 to 7 days." },
+];
+
+describe("rewriteQuery", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("leaves a first question alone without calling the model", async () => {
+    const model = createFakeChatModel(() => {
+      throw new Error("model should not be called");
+    });
+    expect(await rewriteQuery("do you ship to canada?", [], model)).toBe("do you ship to canada?");
+  });
+
+  it("asks with the conversation and keeps the first line of the reply", async () => {
+    let seen: ChatMessage[] = [];
+    const model = createFakeChatModel((messages) => {
+      seen = messages;
+      return 'Standalone query: "how long does shipping to Canada take"\nbecause the shopper asked earlier';
+    });
+
+    expect(await rewriteQuery("how long does that take?", history, model)).toBe(
+      "how long does shipping to Canada take",
+    );
+    expect(seen[1].content).toContain("Shopper: Do you ship to Canada?\nAssistant: Yes, in 5 to 7 days.");
+    expect(seen[1].content).toContain("Follow-up: how long does that take?");
+  });
+
+  it("falls back to the raw query when the rewrite is unusable", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const query = "how long does that take?";
+    const failing = createFakeChatModel(() => {
+      throw new Error("rate limited");
+    });
+
+    expect(await rewriteQuery(query, history, createFakeChatModel("NO_ANSWER"))).toBe(query);
+    expect(await rewriteQuery(query, history, createFakeChatModel("word ".repeat(100)))).toBe(query);
+    expect(await rewriteQuery(query, history, failing)).toBe(query);
+  });
+});
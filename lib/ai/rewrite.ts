@@ -0,0 +1,51 @@
+import { complete, type ChatMessage, type ChatModel } from "./chat";
+import { NO_ANSWER } from "./answer";
+import type { ChatTurn } from "../chat/memory";
+
+// how many past turns the rewriter gets to see
+const REWRITE_TURNS = 6;
+// a standalone query longer than this is the model rambling, not rewriting
+const MAX_QUERY_CHARS = 300;
+
+const SYSTEM_PROMPT = `You rewrite a shopper's follow-up message into a standalone search query for an online store's FAQ.
+Resolve pronouns and references ("that", "it", "the blouse") using the conversation.
+Keep the shopper's wording where you can. Do not answer the question.
+Reply with the rewritten query only, on one line. If it is already standalone, repeat it unchanged.`;
+
+function buildRewriteMessages(query: string, history: ChatTurn[]): ChatMessage[] {
+  const convo = history
+    .slice(-REWRITE_TURNS)
+    .map((t) => `${t.role === "user" ? "Shopper" : "Assistant"}: ${t.content.replace(/\s+/g, " ").slice(0, 400)}`)
+    .join("\n");
+
+  return [
+    { role: "system", content: SYSTEM_PROMPT },
+    { role: "user", content: `Conversation:\n${convo}\n\nFollow-up: ${query}\n\nStandalone query:` },
+  ];
+}
+
+/**
+ * Turn "and what about the blouse?" into "blouse size and fit for the ready
+ * to wear saree" using recent turns. Falls back to the raw query whenever the
+ * model gives back nothing usable, so a bad rewrite never blocks an answer.
+ */
+export async function rewriteQuery(
+  query: string,
+  history: ChatTurn[],
+  model: ChatModel,
+): Promise<string> {
+  if (history.length === 0) return query;
+
+  try {
+    const out = (await complete(model, buildRewriteMessages(query, history)))
+      .split("\n")[0]
+      .replace(/^standalone query:\s*/i, "")
+      .replace(/^["']|["']$/g, "")
+      .trim();
+    if (!out || out === NO_ANSWER || out.length > MAX_QUERY_CHARS) return query;
+    return out;
+  } catch (err) {
+    console.warn("[rewrite] failed, using raw query", err);
+    return query;
+  }
+}
@@ -0,0 +1,68 @@
+export type QueryCount = { text: string; count: number };
+
+export type QueryCluster = {
+  // the most-asked phrasing, a decent working title for the missing FAQ
+  label: string;
+  total: number;
+  queries: QueryCount[];
+};
+
+function cosine(a: number[], b: number[]) {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
+
+/**
+ * Greedy single-pass clustering: most frequent queries first, each joins the
+ * closest existing cluster centroid above `threshold` or starts a new one.
+ * Good enough for a few hundred short questions; no k to pick up front.
+ */
+export function clusterQueries(
+  items: QueryCount[],
+  vectors: number[][],
+  opts: { threshold?: number; minTotal?: number } = {},
+): QueryCluster[] {
+  const threshold = opts.threshold ?? 0.82;
+  const minTotal = opts.minTotal ?? 2;
+
+  const order = items.map((_, i) => i).sort((a, b) => items[b].count - items[a].count);
+  const clusters: { centroid: number[]; size: number; members: QueryCount[] }[] = [];
+
+  for (const i of order) {
+    const v = vectors[i];
+    let best = -1;
+    let bestSim = threshold;
+    clusters.forEach((c, ci) => {
+      const sim = cosine(v, c.centroid);
+      if (sim >= bestSim) {
+        best = ci;
+        bestSim = sim;
+      }
+    });
+
+    if (best === -1) {
+      clusters.push({ centroid: [...v], size: 1, members: [items[i]] });
+      continue;
+    }
+    const c = clusters[best];
+    c.centroid = c.centroid.map((x, d) => (x * c.size + v[d]) / (c.size + 1));
+    c.size += 1;
+    c.members.push(items[i]);
+  }
+
+  return clusters
+    .map((c) => ({
+      label: c.members[0].text,
+      total: c.members.reduce((n, m) => n + m.count, 0),
+      queries: c.members,
+    }))
+    .filter((c) => c.total >= minTotal)
+    .sort((a, b) => b.total - a.total);
+}
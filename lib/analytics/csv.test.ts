@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+
+import { toCsv } from "./csv";
+
+describe("toCsv", () => {
+  it("quotes commas, quotes and line breaks", () => {
+    const row = { q: 'size "M", please', n: 2, at: new Date("2026-01-02T03:04:05Z"), x: null };
+    const csv = toCsv([row], ["q", "n", "at", "x"]);
+    expect(csv).toBe('q,n,at,x\r\n"size ""M"", please",2,2026-01-02T03:04:05.000Z,\r\n');
+  });
+
+  it("defuses text that a spreadsheet would run as a formula", () => {
+    const texts = ['=HYPERLINK("http://x")', "+1", "-2+3", "@SUM(A1)", "\tcmd", "\rcmd", "fine = ok"];
+    const rows = texts.map((q) => ({ q }));
+    expect(toCsv(rows, ["q"]).split("\r\n").slice(1, -1)).toEqual([
+      `"'=HYPERLINK(""http://x"")"`,
+      "'+1",
+      "'-2+3",
+      "'@SUM(A1)",
+      "'\tcmd",
+      `"'\rcmd"`,
+      "fine = ok",
+    ]);
+  });
+
+  it("leaves numbers alone", () => {
+    expect(toCsv([{ ms: -5 }], ["ms"])).toBe("ms\r\n-5\r\n");
+  });
+});
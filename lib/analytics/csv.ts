@@ -0,0 +1,14 @@
+// RFC 4180-ish: quote when needed, double the quotes, CRLF line ends. Shopper
+// text that starts like a formula (=, +, -, @, tab, CR) gets a leading ' so a
+// spreadsheet shows it instead of running it.
+function cell(v: unknown) {
+  if (v == null) return "";
+  const s = v instanceof Date ? v.toISOString() : typeof v === "string" && /^[=+\-@\t\r]/.test(v) ? `'${v}` : String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCsv<T extends Record<string, unknown>>(rows: T[], columns: (keyof T & string)[]) {
+  const lines = [columns.join(",")];
+  for (const r of rows) lines.push(columns.map((c) => cell(r[c])).join(","));
+  return lines.join("\r\n") + "\r\n";
+}
@@ -0,0 +1,32 @@
+import { withDrizzle, withPgClient } from "../db/pg";
+import { missingFaqSuggestions, type MissingFaqOptions } from "./missing";
+import { answerTypeMix, latencyPercentiles, queryVolume, type Bucket, type Range } from "./queries";
+
+export * from "./cluster";
+export * from "./csv";
+export * from "./missing";
+export * from "./queries";
+
+export type AnalyticsSummary = {
+  range: Range;
+  bucket: Bucket;
+  total: number;
+  volume: Awaited<ReturnType<typeof queryVolume>>;
+  mix: Awaited<ReturnType<typeof answerTypeMix>>;
+  latency: Awaited<ReturnType<typeof latencyPercentiles>>;
+};
+
+export async function loadSummary(tenantId: string, range: Range, bucket: Bucket = "day"): Promise<AnalyticsSummary> {
+  return withPgClient(async (client) => {
+    const db = withDrizzle(client);
+    // one connection, so sequential
+    const volume = await queryVolume(db, tenantId, range, bucket);
+    const mix = await answerTypeMix(db, tenantId, range);
+    const latency = await latencyPercentiles(db, tenantId, range);
+    return { range, bucket, total: mix.reduce((n, m) => n + m.count, 0), volume, mix, latency };
+  });
+}
+
+export async function loadMissingFaqs(tenantId: string, range: Range, opts?: MissingFaqOptions) {
+  return withPgClient((client) => missingFaqSuggestions(withDrizzle(client), tenantId, range, opts, client));
+}
@@ -0,0 +1,44 @@
+import type { ClientBase } from "pg";
+
+import { queryEmbeddingCache } from "../ai/cache";
+import { getEmbeddingProvider } from "../ai/embeddings";
+import type { PgExecutor } from "../db/pg";
+import { clusterQueries, type QueryCluster } from "./cluster";
+import { frequentFallbacks, type Range } from "./queries";
+
+export type MissingFaqOptions = {
+  // cosine similarity for two questions to count as "the same ask"
+  threshold?: number;
+  // drop suggestions asked fewer times than this in the range
+  minTotal?: number;
+  // distinct fallback questions to embed
+  maxQueries?: number;
+};
+
+/**
+ * Questions we answered with a fallback, grouped by meaning: each cluster is
+ * one FAQ the content team could write, biggest first. The questions were
+ * embedded when they were asked, so with `cacheDb` (the embedding_cache
+ * table) only ones the cache has lost go to the provider again.
+ */
+export async function missingFaqSuggestions(
+  db: PgExecutor,
+  tenantId: string,
+  range: Range,
+  opts: MissingFaqOptions = {},
+  cacheDb?: Pick<ClientBase, "query">,
+): Promise<QueryCluster[]> {
+  const rows = await frequentFallbacks(db, tenantId, range, opts.maxQueries ?? 500);
+  if (rows.length === 0) return [];
+
+  const vectors = await queryEmbeddingCache.embedMany(
+    getEmbeddingProvider(),
+    rows.map((r) => r.text),
+    cacheDb,
+  );
+  return clusterQueries(
+    rows.map((r) => ({ text: r.text, count: r.count })),
+    vectors,
+    { threshold: opts.threshold, minTotal: opts.minTotal },
+  );
+}
@@ -0,0 +1,101 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+import { chatQueries } from "../db/schema/chatQueries";
+import { tenants } from "../db/schema/tenants";
+import { createTestDb, DEFAULT_TENANT_ID } from "../db/testing";
+import { missingFaqSuggestions } from "./missing";
+import { answerTypeMix, frequentFallbacks, latencyPercentiles, queryVolume, type Range } from "./queries";
+
+const tenantId = DEFAULT_TENANT_ID;
+const OTHER_TENANT_ID = "00000000-0000-0000-0000-000000000002";
+const range: Range = { from: new Date("2025-03-01T00:00:00Z"), to: new Date("2025-03-03T00:00:00Z") };
+
+type Row = typeof chatQueries.$inferInsert;
+const asked = (at: string, responseType: string, responseMs: number | null, queryText = "q", extra: Partial<Row> = {}) =>
+  ({ tenantId, askedAt: new Date(at), responseType, responseMs, queryText, ...extra }) satisfies Row;
+
+describe("analytics", () => {
+  let testDb: Awaited<ReturnType<typeof createTestDb>>;
+
+  beforeAll(async () => {
+    vi.stubEnv("EMBEDDING_PROVIDER", "fake");
+    vi.stubEnv("EMBEDDING_DIM", "1536");
+    testDb = await createTestDb();
+    await testDb.db.insert(tenants).values({ id: OTHER_TENANT_ID, slug: "other", name: "Other" });
+    await testDb.db.insert(chatQueries).values([
+      asked("2025-03-01T09:00:00Z", "faq", 100, "Do you ship to Canada?"),
+      asked("2025-03-01T10:00:00Z", "faq", 300),
+      asked("2025-03-01T11:00:00Z", "fallback", 200, "Do you take PayPal?"),
+      asked("2025-03-02T09:00:00Z", "fallback", 400, "  do you  take paypal? "),
+      asked("2025-03-02T10:00:00Z", "fallback", null, "Do you accept PayPal"),
+      asked("2025-03-02T12:00:00Z", "generated", 1000),
+      // a click, not a question
+      asked("2025-03-02T13:00:00Z", "fallback", null, "Do you take PayPal?", { event: "source_click" }),
+      // outside the range, the end being exclusive
+      asked("2025-02-28T23:59:00Z", "faq", 50),
+      asked("2025-03-03T00:00:00Z", "fallback", 50, "Do you take PayPal?"),
+      // another tenant's
+      asked("2025-03-01T09:30:00Z", "fallback", 50, "Do you take PayPal?", { tenantId: OTHER_TENANT_ID }),
+    ]);
+  });
+
+  afterAll(async () => {
+    await testDb.close();
+    vi.unstubAllEnvs();
+  });
+
+  it("counts questions per bucket and answer type", async () => {
+    const volume = await queryVolume(testDb.db, tenantId, range, "day");
+    const byDay = volume
+      .map((v) => `${v.bucket.toISOString().slice(0, 10)} ${v.responseType} ${v.count}`)
+      .sort();
+    expect(byDay).toEqual(["2025-03-01 fallback 1", "2025-03-01 faq 2", "2025-03-02 fallback 2", "2025-03-02 generated 1"]);
+  });
+
+  it("reports the answer type mix as shares of all questions", async () => {
+    expect(await answerTypeMix(testDb.db, tenantId, range)).toEqual([
+      { responseType: "fallback", count: 3, share: 0.5 },
+      { responseType: "faq", count: 2, share: 2 / 6 },
+      { responseType: "generated", count: 1, share: 1 / 6 },
+    ]);
+  });
+
+  it("computes latency percentiles overall and per type, over timed rows only", async () => {
+    const [overall, ...perType] = await latencyPercentiles(testDb.db, tenantId, range);
+
+    expect(overall).toMatchObject({ responseType: null, samples: 5, p50: 300, avg: 400 });
+    expect(overall.p90).toBeCloseTo(760);
+    expect(overall.p99).toBeCloseTo(976);
+    expect(perType.map((l) => [l.responseType, l.samples, l.p50, l.avg])).toEqual([
+      ["fallback", 2, 300, 300],
+      ["faq", 2, 200, 200],
+      ["generated", 1, 1000, 1000],
+    ]);
+  });
+
+  it("folds fallback questions on case and whitespace, most asked first", async () => {
+    const rows = await frequentFallbacks(testDb.db, tenantId, range);
+    expect(rows).toEqual([
+      { text: "do you take paypal?", count: 2, lastAskedAt: new Date("2025-03-02T09:00:00Z") },
+      { text: "do you accept paypal", count: 1, lastAskedAt: new Date("2025-03-02T10:00:00Z") },
+    ]);
+  });
+
+  it("groups unanswered questions into suggested FAQs", async () => {
+    // the hash embedder sees "take" and "accept" as different words
+    expect(await missingFaqSuggestions(testDb.db, tenantId, range)).toEqual([
+      { label: "do you take paypal?", total: 2, queries: [{ text: "do you take paypal?", count: 2 }] },
+    ]);
+    const loose = await missingFaqSuggestions(testDb.db, tenantId, range, { threshold: 0.5 });
+    expect(loose).toEqual([
+      {
+        label: "do you take paypal?",
+        total: 3,
+        queries: [
+          { text: "do you take paypal?", count: 2 },
+          { text: "do you accept paypal", count: 1 },
+        ],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+import { and, asc, count, desc, eq, gte, isNotNull, isNull, lt, sql } from "drizzle-orm";
+
+import { configSection } from "../config";
+import type { PgExecutor } from "../db/pg";
+import { chatQueries } from "../db/schema/chatQueries";
+
+export type Range = { from: Date; to: Date };
+export type Bucket = "hour" | "day" | "week";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_RANGE_DAYS = 30;
+
+// ?from=&to= (ISO dates) or ?days=N, defaulting to the last 30 days
+export function parseRange(params: { from?: string | null; to?: string | null; days?: string | null }): Range {
+  const to = params.to ? new Date(params.to) : new Date();
+  const days = Number(params.days) || DEFAULT_RANGE_DAYS;
+  const from = params.from ? new Date(params.from) : new Date(to.getTime() - days * DAY_MS);
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from >= to) {
+    throw new Error("invalid range");
+  }
+  return { from, to };
+}
+
+export function parseBucket(raw: string | null | undefined): Bucket {
+  return raw === "hour" || raw === "week" ? raw : "day";
+}
+
+// one tenant's questions asked within the range; client events (clicks) aren't questions
+function inRange(tenantId: string, r: Range) {
+  return and(
+    eq(chatQueries.tenantId, tenantId),
+    gte(chatQueries.askedAt, r.from),
+    lt(chatQueries.askedAt, r.to),
+    isNull(chatQueries.event),
+  );
+}
+
+// pg hands aggregates back as strings
+const num = (v: unknown) => (v == null ? null : Number(v));
+
+export type VolumePoint = { bucket: Date; responseType: string; count: number };
+
+export async function queryVolume(db: PgExecutor, tenantId: string, range: Range, bucket: Bucket = "day"): Promise<VolumePoint[]> {
+  // inlined, not a bind param: GROUP BY only matches the select expression verbatim
+  const b = sql<Date>`date_trunc('${sql.raw(bucket)}', ${chatQueries.askedAt})`;
+  const rows = await db
+    .select({ bucket: b, responseType: chatQueries.responseType, count: count() })
+    .from(chatQueries)
+    .where(inRange(tenantId, range))
+    .groupBy(b, chatQueries.responseType)
+    .orderBy(asc(b));
+  return rows.map((r) => ({ ...r, bucket: new Date(r.bucket) }));
+}
+
+export type TypeMix = { responseType: string; count: number; share: number };
+
+export async function answerTypeMix(db: PgExecutor, tenantId: string, range: Range): Promise<TypeMix[]> {
+  const rows = await db
+    .select({ responseType: chatQueries.responseType, count: count() })
+    .from(chatQueries)
+    .where(inRange(tenantId, range))
+    .groupBy(chatQueries.responseType)
+    .orderBy(desc(count()));
+  const total = rows.reduce((n, r) => n + r.count, 0);
+  return rows.map((r) => ({ ...r, share: total ? r.count / total : 0 }));
+}
+
+export type Latency = {
+  responseType: string | null;
+  samples: number;
+  p50: number | null;
+  p90: number | null;
+  p99: number | null;
+  avg: number | null;
+};
+
+const pct = (p: number) =>
+  sql<string | null>`percentile_cont(${sql.raw(String(p))}) within group (order by ${chatQueries.responseMs})`;
+
+// overall (responseType null) plus one row per answer type; rows without response_ms are ignored
+export async function latencyPercentiles(db: PgExecutor, tenantId: string, range: Range): Promise<Latency[]> {
+  const cols = {
+    samples: count(),
+    p50: pct(0.5),
+    p90: pct(0.9),
+    p99: pct(0.99),
+    avg: sql<string | null>`avg(${chatQueries.responseMs})`,
+  };
+  const where = and(inRange(tenantId, range), isNotNull(chatQueries.responseMs));
+
+  const [overall] = await db.select(cols).from(chatQueries).where(where);
+  const perType = await db
+    .select({ responseType: chatQueries.responseType, ...cols })
+    .from(chatQueries)
+    .where(where)
+    .groupBy(chatQueries.responseType)
+    .orderBy(asc(chatQueries.responseType));
+
+  return [{ responseType: null, ...overall }, ...perType].map((r) => ({
+    responseType: r.responseType,
+    samples: r.samples,
+    p50: num(r.p50),
+    p90: num(r.p90),
+    p99: num(r.p99),
+    avg: num(r.avg),
+  }));
+}
+
+/** Fallback questions folded on case/whitespace, most asked first. */
+export async function frequentFallbacks(db: PgExecutor, tenantId: string, range: Range, limit = 500) {
+  const text = sql<string>`lower(regexp_replace(trim(${chatQueries.queryText}), '\\s+', ' ', 'g'))`;
+  return db
+    .select({ text, count: count(), lastAskedAt: sql<Date>`max(${chatQueries.askedAt})`.mapWith(chatQueries.askedAt) })
+    .from(chatQueries)
+    .where(and(inRange(tenantId, range), eq(chatQueries.responseType, "fallback")))
+    .groupBy(text)
+    .orderBy(desc(count()), desc(sql`max(${chatQueries.askedAt})`))
+    .limit(limit);
+}
+
+// capped at EXPORT_MAX_ROWS, the most raw rows we hand out (CSV export)
+export async function listChatQueries(db: PgExecutor, tenantId: string, range: Range, limit?: number) {
+  const maxRows = configSection("limits").exportRows;
+  return db
+    .select()
+    .from(chatQueries)
+    .where(inRange(tenantId, range))
+    .orderBy(asc(chatQueries.askedAt))
+    .limit(Math.min(limit ?? maxRows, maxRows));
+}
@@ -0,0 +1,139 @@
+// Request and response shapes of /api/v1/answer, /log and /feedback: the contract
+// between the routes and the embeddable widget (widget/). Nothing but types is
+// imported, so the widget bundle can use it; a breaking change here means a /api/v2.
+
+import type { ChatTurn } from "../chat/memory";
+import type { ReviewQuery, ReviewSort, ReviewStats } from "../retrieval/reviews";
+import type { REVIEW_SOURCE } from "../reviews";
+
+export const API_VERSION = "v1";
+
+// where a versioned endpoint lives, e.g. apiPath("answer") → "/api/v1/answer"
+export function apiPath(endpoint: "answer" | "log" | "feedback") {
+  return `/api/${API_VERSION}/${endpoint}`;
+}
+
+export type ApiError = {
+  ok: false;
+  error: string;
+  issues?: string[];
+};
+
+/* ---------- POST /api/v1/answer ---------- */
+
+export type AnswerRequest = {
+  query: string;
+  // same id the widget logs with; lets follow-ups ("how long does that take?") resolve
+  session_id?: string | null;
+  // the storefront page asked from, kept with the recorded interaction
+  url_path?: string | null;
+  // only its user turns are read, and only when the session has none stored
+  history?: ChatTurn[];
+  // the "see what customers said?" follow-up: reviews instead of FAQs
+  showReviews?: boolean;
+  reviews?: Partial<Omit<ReviewQuery, "from" | "to">> & { from?: string; to?: string };
+  // stream a grounded LLM answer (text/event-stream) instead of JSON
+  mode?: "generate";
+};
+
+type Conversation = {
+  query: string;
+  // this exchange in the interaction log; feedback and click events send it back
+  interaction_id: string;
+  session_id: string | null;
+  // set when a follow-up was rewritten before searching
+  standaloneQuery?: string;
+};
+
+export type FaqResult = {
+  chunkId: string;
+  content: string;
+  similarity: number | null;
+  source: string;
+  url: string | null;
+  // e.g. "Size Guide, p.2" for chunks of uploaded files
+  citation: string | null;
+};
+
+export type ReviewResult = {
+  content: string;
+  similarity: number | null;
+  source: string;
+  link: string | null;
+  reviewer: string | null;
+  rating: number | null;
+  date: string | null;
+  platform: string;
+};
+
+export type FaqAnswer = Conversation & {
+  ok: true;
+  source: "faq";
+  results: FaqResult[];
+  // the widget may offer "see what customers said?" next
+  canShowReviews: boolean;
+};
+
+export type NoAnswer = Conversation & {
+  ok: true;
+  source: "none";
+  results: [];
+  canShowReviews: boolean;
+  // the tenant's refusal, shown as the reply
+  message: string;
+};
+
+export type ReviewsAnswer = Conversation & {
+  ok: true;
+  source: typeof REVIEW_SOURCE;
+  results: ReviewResult[];
+  reviewLink: string | null;
+  stats: ReviewStats;
+  sort: ReviewSort;
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+};
+
+export type AnswerResponse = FaqAnswer | NoAnswer | ReviewsAnswer;
+
+/* ---------- POST /api/v1/log ---------- */
+
+// chat_queries.response_type
+export type LoggedResponseType = "faq" | "review" | "fallback";
+
+// things only the browser sees; questions and answers are recorded by /answer itself
+export type WidgetEvent = "source_click" | "review_click" | "all_reviews_click" | "show_reviews";
+
+export type LogRequest = {
+  // the question the event belongs to
+  query_text: string;
+  // from the answer the event is about; only with `event`
+  interaction_id?: string | null;
+  // snake_case event name; rows without one are self-reported answers from older widgets
+  event?: WidgetEvent | (string & {});
+  session_id?: string | null;
+  url_path?: string | null;
+  user_agent?: string | null;
+  response_type?: LoggedResponseType;
+  faq_id?: string | null;
+  faq_title?: string | null;
+  reviews_count?: number | null;
+  response_ms?: number | null;
+  response_text?: string | null;
+};
+
+export type LogResponse = { ok: true };
+
+/* ---------- POST /api/v1/feedback ---------- */
+
+export type FeedbackRequest = {
+  interaction_id: string;
+  rating: "up" | "down";
+  // the answer chunk the vote is about (FaqResult.chunkId); omit for the refusal
+  chunk_id?: string | null;
+  comment?: string | null;
+  session_id?: string | null;
+};
+
+export type FeedbackResponse = { ok: true };
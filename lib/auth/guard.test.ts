@@ -0,0 +1,78 @@
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { Tenant, TenantRef } from "../tenants";
+import { authorize, clientIp } from "./guard";
+import type { ApiKey } from "./keys";
+import { RateLimiter } from "./limiter";
+
+const tenant = (slug: string) => ({ id: `id-${slug}`, slug, config: {} }) as unknown as Tenant;
+const tenants: Record<string, Tenant> = { default: tenant("default"), other: tenant("other") };
+const findTenant = async (ref: TenantRef) => ("slug" in ref ? tenants[ref.slug] : null) ?? null;
+
+const request = (headers: Record<string, string> = {}, url = "https://bot.example/api/answer") =>
+  new NextRequest(url, { headers });
+
+describe("clientIp", () => {
+  it("takes the entry the trusted proxy added, not what the client sent", () => {
+    const req = request({ "x-forwarded-for": "6.6.6.6, 1.2.3.4" });
+    expect(clientIp(req, 1)).toBe("1.2.3.4");
+    expect(clientIp(req, 2)).toBe("6.6.6.6");
+    expect(clientIp(req, 5)).toBe("6.6.6.6");
+    expect(clientIp(req, 0)).toBe("unknown");
+  });
+
+  it("prefers the platform's address", () => {
+    const req = request({ "x-forwarded-for": "6.6.6.6" });
+    Object.defineProperty(req, "ip", { value: "9.9.9.9" });
+    expect(clientIp(req, 1)).toBe("9.9.9.9");
+  });
+});
+
+describe("authorize", () => {
+  beforeEach(() => {
+    vi.stubEnv("INGEST_SECRET", "s3cret");
+    vi.stubEnv("RATE_LIMIT_BAD_KEY_PER_MIN", "2");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("stops looking up keys for an IP that keeps sending unknown ones", async () => {
+    const findKey = vi.fn(async (): Promise<ApiKey | null> => null);
+    const opts = { findKey, findTenant, limiter: new RateLimiter() };
+    const guess = (n: number, ip = "1.2.3.4") =>
+      authorize(request({ "x-api-key": `pk_${"x".repeat(30)}${n}`, "x-forwarded-for": ip }), { audience: "public" }, opts);
+
+    expect(await guess(1)).toMatchObject({ status: 401 });
+    expect(await guess(2)).toMatchObject({ status: 401 });
+    expect(await guess(3)).toMatchObject({ status: 429, headers: { "Retry-After": "30" } });
+    expect(findKey).toHaveBeenCalledTimes(2);
+    // another IP still gets its lookups
+    expect(await guess(4, "5.6.7.8")).toMatchObject({ status: 401 });
+    expect(findKey).toHaveBeenCalledTimes(3);
+  });
+
+  it("accepts the ingest secret only when it matches", async () => {
+    const opts = { findTenant, limiter: new RateLimiter() };
+    const ingest = (secret: string) =>
+      authorize(request({ "x-ingest-secret": secret }), { scope: "ingest" }, opts);
+
+    expect(await ingest("s3cret")).toMatchObject({ via: "ingest-secret", tenant: { slug: "default" } });
+    expect(await ingest("s3cre")).toMatchObject({ status: 401 });
+    expect(await ingest("s3cretx")).toMatchObject({ status: 401 });
+  });
+
+  it("keeps anonymous widget calls on the default tenant", async () => {
+    vi.stubEnv("ALLOW_ANONYMOUS_WIDGET", "1");
+    const opts = { findTenant, limiter: new RateLimiter() };
+    const anon = (headers: Record<string, string>, url?: string) =>
+      authorize(request(headers, url), { audience: "public" }, opts);
+
+    expect(await anon({})).toMatchObject({ via: "anonymous", tenant: { slug: "default" } });
+    expect(await anon({ "x-tenant": "default" })).toMatchObject({ tenant: { slug: "default" } });
+    expect(await anon({ "x-tenant": "other" })).toMatchObject({ status: 401 });
+    expect(await anon({}, "https://bot.example/api/answer?tenant=other")).toMatchObject({ status: 401 });
+  });
+});
@@ -0,0 +1,258 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+
+import { NextResponse, type NextRequest } from "next/server";
+
+import { ADMIN_TENANT_COOKIE, isAdminRequest } from "../admin/auth";
+import { configSection } from "../config";
+import { withDrizzle, withPgClient } from "../db/pg";
+import { defaultTenantSlug, loadTenant, tenantCache, type Tenant, type TenantRef } from "../tenants";
+import {
+  apiKeyCache,
+  hasScope,
+  keyAllowsOrigin,
+  loadApiKey,
+  originAllowed,
+  looksLikeApiKey,
+  type ApiKey,
+  type ApiScope,
+} from "./keys";
+import { apiRateLimiter, rateLimitHeaders, type BucketLimit, type RateLimiter } from "./limiter";
+
+export type ApiPolicy =
+  // widget endpoints: a publishable key from one of its origins, or any secret key
+  | { audience: "public" }
+  // a secret key with this scope, or the admin session / ADMIN_SECRET bearer
+  | { scope: ApiScope };
+
+export type ApiAuth = {
+  via: "publishable" | "secret" | "admin" | "ingest-secret" | "anonymous";
+  key: ApiKey | null;
+  // every handler works on exactly this tenant's data
+  tenant: Tenant;
+};
+
+export type GuardOptions = {
+  limiter?: RateLimiter;
+  // plaintext key → active key row; defaults to the cached DB lookup
+  findKey?: (key: string) => Promise<ApiKey | null>;
+  // defaults to the cached DB lookup
+  findTenant?: (ref: TenantRef) => Promise<Tenant | null>;
+};
+
+type Denial = { status: number; error: string; headers?: Record<string, string> };
+
+const CORS_ALLOW_HEADERS = "Content-Type, Authorization, X-Api-Key, X-Tenant";
+const CORS_EXPOSE_HEADERS =
+  "RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, Retry-After, X-Session-Id, X-Standalone-Query, X-Interaction-Id";
+
+// a full minute's worth of burst, refilled evenly
+const bucket = (n: number): BucketLimit => ({ capacity: n, perMinute: n });
+
+export function limitFor(key: ApiKey | null, kind: "ip" | "publishable" | "secret" | "bad-key"): BucketLimit {
+  if (key?.rateLimitPerMin) return bucket(key.rateLimitPerMin);
+  const limits = configSection("rateLimits");
+  if (kind === "publishable") return bucket(limits.publishablePerMin);
+  if (kind === "secret") return bucket(limits.secretPerMin);
+  if (kind === "bad-key") return bucket(limits.badKeyPerMin);
+  return bucket(limits.ipPerMin);
+}
+
+/**
+ * The platform's client IP (Vercel), else the X-Forwarded-For entry added by
+ * the outermost trusted proxy: anything further left is whatever the client
+ * sent. With no trusted proxies the header is ignored.
+ */
+export function clientIp(req: Request, trustedHops = configSection("rateLimits").trustedProxyHops) {
+  const platform = (req as NextRequest).ip;
+  if (platform) return platform;
+  if (trustedHops === 0) return "unknown";
+  const hops = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((h) => h.trim())
+    .filter(Boolean);
+  if (hops.length) return hops[Math.max(0, hops.length - trustedHops)];
+  return req.headers.get("x-real-ip")?.trim() || "unknown";
+}
+
+// digests first, so neither the comparison's time nor a length check leaks the secret
+function secretMatches(given: string | null, secret: string) {
+  if (!given) return false;
+  const digest = (s: string) => createHash("sha256").update(s).digest();
+  return timingSafeEqual(digest(given), digest(secret));
+}
+
+function presentedKey(req: Request) {
+  const header = req.headers.get("x-api-key")?.trim();
+  if (header) return header;
+  const bearer = req.headers.get("authorization")?.replace(/^Bearer\s+/i, "").trim();
+  return bearer && looksLikeApiKey(bearer) ? bearer : null;
+}
+
+// CORS_ORIGINS narrows which sites may call the widget endpoints at all; without
+// an Allow-Origin the browser drops the response
+function corsHeaders(origin: string | null): Record<string, string> {
+  const { origins } = configSection("cors");
+  const allowed = origins.length === 0 || originAllowed(origins, origin);
+  return {
+    ...(allowed ? { "Access-Control-Allow-Origin": origin || "*" } : {}),
+    "Access-Control-Allow-Methods": "GET,POST,OPTIONS",
+    "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
+    "Access-Control-Expose-Headers": CORS_EXPOSE_HEADERS,
+    Vary: "Origin",
+  };
+}
+
+function withHeaders(res: Response, headers: Record<string, string>) {
+  for (const [k, v] of Object.entries(headers)) res.headers.set(k, v);
+  return res;
+}
+
+function deny(status: number, error: string, headers: Record<string, string>) {
+  return NextResponse.json({ ok: false, error }, { status, headers });
+}
+
+const findKeyInDb = (key: string) =>
+  apiKeyCache.find(key, (hash) => withPgClient((client) => loadApiKey(withDrizzle(client), hash)));
+
+const findTenantInDb = (ref: TenantRef) =>
+  tenantCache.find(ref, (r) => withPgClient((client) => loadTenant(withDrizzle(client), r)));
+
+/**
+ * A key always acts for its own tenant, and anonymous widget calls for
+ * DEFAULT_TENANT. Otherwise (admin, ingest secret) the tenant comes from
+ * X-Tenant / ?tenant= (a slug), then the admin UI's tenant switcher for the
+ * admin session, then DEFAULT_TENANT.
+ */
+async function resolveTenant(
+  req: NextRequest,
+  caller: Omit<ApiAuth, "tenant">,
+  findTenant: (ref: TenantRef) => Promise<Tenant | null>,
+): Promise<Tenant | Denial> {
+  const asked = req.headers.get("x-tenant")?.trim() || req.nextUrl.searchParams.get("tenant")?.trim() || null;
+
+  if (caller.key) {
+    const tenant = await findTenant({ id: caller.key.tenantId });
+    if (!tenant) return { status: 401, error: "invalid api key" };
+    if (asked && asked !== tenant.slug) return { status: 403, error: "key belongs to another tenant" };
+    return tenant;
+  }
+
+  if (caller.via === "anonymous") {
+    if (asked && asked !== defaultTenantSlug()) return { status: 401, error: "api key required for this tenant" };
+    const slug = defaultTenantSlug();
+    return (await findTenant({ slug })) ?? { status: 404, error: `unknown tenant "${slug}"` };
+  }
+
+  const fromSwitcher = caller.via === "admin" ? req.cookies.get(ADMIN_TENANT_COOKIE)?.value : null;
+  const slug = asked || fromSwitcher || defaultTenantSlug();
+  return (await findTenant({ slug })) ?? { status: 404, error: `unknown tenant "${slug}"` };
+}
+
+/** Who is calling and for which tenant, per `policy`, or the response that turns them away. */
+export async function authorize(
+  req: NextRequest,
+  policy: ApiPolicy,
+  opts: GuardOptions = {},
+): Promise<ApiAuth | Denial> {
+  const caller = await identify(req, policy, opts.findKey ?? findKeyInDb, opts.limiter ?? apiRateLimiter);
+  if ("error" in caller) return caller;
+  const tenant = await resolveTenant(req, caller, opts.findTenant ?? findTenantInDb);
+  if ("error" in tenant) return tenant;
+  return { ...caller, tenant };
+}
+
+async function identify(
+  req: NextRequest,
+  policy: ApiPolicy,
+  findKey: (key: string) => Promise<ApiKey | null>,
+  limiter: RateLimiter,
+): Promise<Omit<ApiAuth, "tenant"> | Denial> {
+  const origin = req.headers.get("origin");
+  const presented = presentedKey(req);
+
+  if (presented) {
+    if (!looksLikeApiKey(presented)) return { status: 401, error: "invalid api key" };
+    // every unknown key is a DB lookup (the key cache only helps with repeats), so
+    // an IP that keeps guessing is turned away before looking
+    const misses = { id: `bad-key:${clientIp(req)}`, limit: limitFor(null, "bad-key") };
+    const budget = await limiter.peek(misses);
+    if (!budget.allowed) return { status: 429, error: "too many invalid api keys", headers: rateLimitHeaders(budget) };
+    const key = await findKey(presented);
+    if (!key) {
+      await limiter.check([misses]);
+      return { status: 401, error: "invalid api key" };
+    }
+
+    if ("audience" in policy) {
+      if (key.kind === "publishable" && !keyAllowsOrigin(key, origin)) {
+        return { status: 403, error: "origin not allowed for this key" };
+      }
+      return { via: key.kind, key };
+    }
+    if (!hasScope(key, policy.scope)) return { status: 403, error: `key lacks the "${policy.scope}" scope` };
+    return { via: "secret", key };
+  }
+
+  if ("scope" in policy) {
+    if (await isAdminRequest(req)) return { via: "admin", key: null };
+    // the old shared secret still works for ingest while callers move to keys
+    const { ingestSecret } = configSection("auth");
+    if (policy.scope === "ingest" && ingestSecret && secretMatches(req.headers.get("x-ingest-secret"), ingestSecret)) {
+      return { via: "ingest-secret", key: null };
+    }
+    return { status: 401, error: "unauthorized" };
+  }
+
+  // rollout switch: widgets that don't send a key yet, rate limited per IP
+  if (configSection("features").anonymousWidget) return { via: "anonymous", key: null };
+  return { status: 401, error: "api key required" };
+}
+
+/**
+ * Shared guard for API route handlers: authenticates the caller per `policy`,
+ * resolves the tenant it acts for, takes a token from its rate limit buckets
+ * (per key, plus per IP on public endpoints), answers 401/403/404/429 itself,
+ * and adds CORS and RateLimit-* headers to whatever the handler returns.
+ */
+export function withApiAuth<C = { params: Record<string, string | string[]> }>(
+  policy: ApiPolicy,
+  handler: (req: NextRequest, ctx: C, auth: ApiAuth) => Response | Promise<Response>,
+  opts: GuardOptions = {},
+) {
+  const limiter = opts.limiter ?? apiRateLimiter;
+
+  return async (req: NextRequest, ctx: C): Promise<Response> => {
+    const isPublic = "audience" in policy;
+    const cors = isPublic ? corsHeaders(req.headers.get("origin")) : {};
+
+    let auth: Awaited<ReturnType<typeof authorize>>;
+    try {
+      auth = await authorize(req, policy, { ...opts, limiter });
+    } catch (e) {
+      console.error("[auth] key or tenant lookup failed", e);
+      return deny(503, "could not verify api key", cors);
+    }
+    if ("error" in auth) return deny(auth.status, auth.error, { ...cors, ...auth.headers });
+
+    const ip = clientIp(req);
+    const buckets = auth.key
+      ? [{ id: `key:${auth.key.id}`, limit: limitFor(auth.key, auth.key.kind) }]
+      : [{ id: `${isPublic ? "ip" : auth.via}:${ip}`, limit: limitFor(null, isPublic ? "ip" : "secret") }];
+    if (isPublic && auth.key) buckets.push({ id: `ip:${ip}`, limit: limitFor(null, "ip") });
+
+    const rate = await limiter.check(buckets);
+    const headers = { ...cors, ...(rate ? rateLimitHeaders(rate) : {}) };
+    if (rate && !rate.allowed) return deny(429, "rate limit exceeded", headers);
+
+    return withHeaders(await handler(req, ctx, auth), headers);
+  };
+}
+
+// OPTIONS for public endpoints; a preflight carries no key, the real request is checked
+export function preflight() {
+  return async (req: Request) =>
+    new NextResponse(null, {
+      status: 204,
+      headers: { ...corsHeaders(req.headers.get("origin")), "Access-Control-Max-Age": "600" },
+    });
+}
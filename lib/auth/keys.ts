@@ -0,0 +1,170 @@
+import { createHash, randomBytes } from "node:crypto";
+import { and, desc, eq, isNull, lt, or } from "drizzle-orm";
+import { z } from "zod";
+
+import type { PgDb } from "../db/pg";
+import { apiKeys, type ApiKey, type ApiKeyKind, type ApiScope } from "../db/schema/apiKeys";
+
+export type { ApiKey, ApiKeyKind, ApiScope };
+
+export const API_SCOPES: ApiScope[] = ["ingest", "admin", "analytics"];
+
+const KIND_PREFIX: Record<ApiKeyKind, string> = { publishable: "pk", secret: "sk" };
+
+// how long a looked-up key (or a miss) is trusted before asking the DB again
+const CACHE_TTL_MS = 60 * 1000;
+const MAX_CACHED_KEYS = 1000;
+// last_used_at is bookkeeping; don't write it on every request
+const TOUCH_EVERY_MS = 5 * 60 * 1000;
+
+export function hashApiKey(key: string) {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+// "pk_…" / "sk_…" followed by 32 random bytes
+export function generateApiKey(kind: ApiKeyKind) {
+  return `${KIND_PREFIX[kind]}_${randomBytes(32).toString("base64url")}`;
+}
+
+export function looksLikeApiKey(s: string) {
+  return /^(pk|sk)_[A-Za-z0-9_-]{20,}$/.test(s);
+}
+
+export function hasScope(key: Pick<ApiKey, "kind" | "scopes">, scope: ApiScope) {
+  return key.kind === "secret" && (key.scopes.includes(scope) || key.scopes.includes("admin"));
+}
+
+// a key without allowed origins works from anywhere
+export function keyAllowsOrigin(key: Pick<ApiKey, "allowedOrigins">, origin: string | null) {
+  return key.allowedOrigins.length === 0 || originAllowed(key.allowedOrigins, origin);
+}
+
+// exact origins, or "https://*.example.com" for any subdomain
+export function originAllowed(patterns: string[], origin: string | null) {
+  if (!origin) return false;
+  return patterns.some((pattern) => {
+    if (!pattern.includes("*.")) return pattern === origin;
+    const [scheme, host] = pattern.split("*.");
+    return origin.startsWith(scheme) && origin.endsWith(`.${host}`);
+  });
+}
+
+const originSchema = z
+  .string()
+  .trim()
+  .regex(/^https?:\/\/(\*\.)?[a-z0-9.-]+(:\d+)?$/i, "origin must look like https://example.com or https://*.example.com");
+
+export const apiKeyInputSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    kind: z.enum(["publishable", "secret"]),
+    scopes: z.array(z.enum(["ingest", "admin", "analytics"])).default([]),
+    allowedOrigins: z.array(originSchema).default([]),
+    rateLimitPerMin: z.number().int().min(1).max(100_000).nullable().optional(),
+  })
+  .refine((k) => k.kind === "secret" || k.scopes.length === 0, {
+    message: "publishable keys can't have scopes",
+    path: ["scopes"],
+  })
+  .refine((k) => k.kind === "publishable" || k.allowedOrigins.length === 0, {
+    message: "only publishable keys are origin-scoped",
+    path: ["allowedOrigins"],
+  });
+
+export type ApiKeyInput = z.input<typeof apiKeyInputSchema>;
+
+// the stored row minus the hash, for listing
+export type ApiKeyView = Omit<ApiKey, "keyHash">;
+
+const view = ({ keyHash: _hash, ...rest }: ApiKey): ApiKeyView => rest;
+
+/** Create a key for `tenantId`; the plaintext `key` is returned here and never again. */
+export async function createApiKey(db: PgDb, tenantId: string, input: ApiKeyInput) {
+  const data = apiKeyInputSchema.parse(input);
+  const key = generateApiKey(data.kind);
+  const [row] = await db
+    .insert(apiKeys)
+    .values({
+      tenantId,
+      name: data.name,
+      kind: data.kind,
+      prefix: key.slice(0, 10),
+      keyHash: hashApiKey(key),
+      scopes: data.scopes,
+      allowedOrigins: data.allowedOrigins,
+      rateLimitPerMin: data.rateLimitPerMin ?? null,
+    })
+    .returning();
+  return { key, apiKey: view(row) };
+}
+
+export async function listApiKeys(db: PgDb, tenantId: string) {
+  const rows = await db
+    .select()
+    .from(apiKeys)
+    .where(eq(apiKeys.tenantId, tenantId))
+    .orderBy(desc(apiKeys.createdAt));
+  return rows.map(view);
+}
+
+export async function revokeApiKey(db: PgDb, tenantId: string, id: string) {
+  const [row] = await db
+    .update(apiKeys)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(apiKeys.tenantId, tenantId), eq(apiKeys.id, id), isNull(apiKeys.revokedAt)))
+    .returning();
+  if (row) apiKeyCache.forget(row.keyHash);
+  return row ? view(row) : null;
+}
+
+/** An active key by hash; also bumps last_used_at every few minutes. */
+export async function loadApiKey(db: PgDb, hash: string): Promise<ApiKey | null> {
+  const [row] = await db
+    .select()
+    .from(apiKeys)
+    .where(and(eq(apiKeys.keyHash, hash), isNull(apiKeys.revokedAt)))
+    .limit(1);
+  if (!row) return null;
+
+  const stale = new Date(Date.now() - TOUCH_EVERY_MS);
+  await db
+    .update(apiKeys)
+    .set({ lastUsedAt: new Date() })
+    .where(and(eq(apiKeys.id, row.id), or(isNull(apiKeys.lastUsedAt), lt(apiKeys.lastUsedAt, stale))));
+  return row;
+}
+
+type CacheEntry = { key: ApiKey | null; at: number };
+
+/**
+ * Keys by hash, remembered for a minute (misses too, so a bad key can't make
+ * every request hit the DB). Revocation elsewhere takes up to that long here.
+ */
+export class ApiKeyCache {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(
+    private ttlMs = CACHE_TTL_MS,
+    private maxEntries = MAX_CACHED_KEYS,
+  ) {}
+
+  async find(key: string, load: (hash: string) => Promise<ApiKey | null>): Promise<ApiKey | null> {
+    const hash = hashApiKey(key);
+    const hit = this.entries.get(hash);
+    if (hit && Date.now() - hit.at < this.ttlMs) return hit.key;
+
+    const row = await load(hash);
+    this.entries.delete(hash);
+    this.entries.set(hash, { key: row, at: Date.now() });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+    return row;
+  }
+
+  forget(hash: string) {
+    this.entries.delete(hash);
+  }
+}
+
+export const apiKeyCache = new ApiKeyCache();
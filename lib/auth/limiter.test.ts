@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+
+import { MemoryRateLimitStore, RateLimiter, rateLimitHeaders } from "./limiter";
+
+const limit = { capacity: 3, perMinute: 60 };
+
+describe("MemoryRateLimitStore", () => {
+  it("allows a full bucket, then refuses with the time until the next token", async () => {
+    const store = new MemoryRateLimitStore();
+    const results = [];
+    for (let i = 0; i < 4; i++) results.push(await store.take("k", limit, 0));
+
+    expect(results.map((r) => r.allowed)).toEqual([true, true, true, false]);
+    expect(results.map((r) => r.remaining)).toEqual([2, 1, 0, 0]);
+    expect(results[3].retryAfterMs).toBe(1000);
+    expect(results[3].resetMs).toBe(3000);
+  });
+
+  it("refills at perMinute, capped at capacity", async () => {
+    const store = new MemoryRateLimitStore();
+    for (let i = 0; i < 3; i++) await store.take("k", limit, 0);
+
+    expect((await store.take("k", limit, 999)).allowed).toBe(false);
+    expect((await store.take("k", limit, 2000)).allowed).toBe(true);
+    // an hour later the bucket holds capacity, not 3600 tokens
+    expect((await store.take("k", limit, 3_600_000)).remaining).toBe(2);
+  });
+
+  it("keeps buckets apart and evicts the least recently used", async () => {
+    const store = new MemoryRateLimitStore(2);
+    const one = { capacity: 1, perMinute: 1 };
+    await store.take("a", one, 0);
+    await store.take("b", one, 0);
+    await store.take("a", one, 0);
+    await store.take("c", one, 0);
+
+    // "a" was used more recently than "b", so "b" went and starts full again
+    expect((await store.take("a", one, 0)).allowed).toBe(false);
+    expect((await store.take("b", one, 0)).allowed).toBe(true);
+  });
+});
+
+describe("RateLimiter", () => {
+  it("reports the tightest bucket", async () => {
+    let now = 0;
+    const limiter = new RateLimiter(new MemoryRateLimitStore(), () => now);
+    const buckets = [
+      { id: "key", limit: { capacity: 10, perMinute: 10 } },
+      { id: "ip", limit: { capacity: 2, perMinute: 2 } },
+    ];
+
+    expect((await limiter.check(buckets))?.remaining).toBe(1);
+    await limiter.check(buckets);
+    const refused = await limiter.check(buckets);
+    expect(refused?.allowed).toBe(false);
+    expect(refused?.limit).toBe(2);
+
+    now = 30_000;
+    expect((await limiter.check(buckets))?.allowed).toBe(true);
+  });
+
+  it("takes nothing from the other buckets when one refuses", async () => {
+    const store = new MemoryRateLimitStore();
+    const limiter = new RateLimiter(store, () => 0);
+    const key = { id: "key", limit: { capacity: 3, perMinute: 3 } };
+    const ip = { id: "ip", limit: { capacity: 1, perMinute: 1 } };
+
+    expect((await limiter.check([key, ip]))?.allowed).toBe(true);
+    for (let i = 0; i < 5; i++) expect((await limiter.check([key, ip]))?.allowed).toBe(false);
+
+    // only the first request came out of the key's bucket
+    expect((await store.peek("key", key.limit, 0)).remaining).toBe(1);
+    expect((await limiter.check([key]))?.remaining).toBe(1);
+  });
+});
+
+describe("rateLimitHeaders", () => {
+  it("adds Retry-After only when refused", () => {
+    const ok = { allowed: true, limit: 5, remaining: 4, retryAfterMs: 0, resetMs: 1200 };
+    expect(rateLimitHeaders(ok)).toEqual({ "RateLimit-Limit": "5", "RateLimit-Remaining": "4", "RateLimit-Reset": "2" });
+    expect(rateLimitHeaders({ ...ok, allowed: false, retryAfterMs: 200 })["Retry-After"]).toBe("1");
+  });
+});
@@ -0,0 +1,124 @@
+// Token buckets: each bucket holds up to `capacity` tokens and refills at
+// `perMinute` tokens a minute; a request takes one token or is refused.
+
+export type BucketLimit = {
+  capacity: number;
+  perMinute: number;
+};
+
+export type TakeResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // until one token is back (0 when allowed)
+  retryAfterMs: number;
+  // until the bucket is full again
+  resetMs: number;
+};
+
+export type BucketState = { tokens: number; updatedAt: number };
+
+// the bucket arithmetic, shared by every store
+export function takeToken(state: BucketState | undefined, limit: BucketLimit, now: number) {
+  const perMs = limit.perMinute / 60_000;
+  const tokens = state
+    ? Math.min(limit.capacity, state.tokens + Math.max(0, now - state.updatedAt) * perMs)
+    : limit.capacity;
+  const allowed = tokens >= 1;
+  const left = allowed ? tokens - 1 : tokens;
+
+  const result: TakeResult = {
+    allowed,
+    limit: limit.capacity,
+    remaining: Math.floor(left),
+    retryAfterMs: allowed ? 0 : Math.ceil((1 - left) / perMs),
+    resetMs: Math.ceil((limit.capacity - left) / perMs),
+  };
+  return { state: { tokens: left, updatedAt: now }, result };
+}
+
+/** Where buckets live. The in-memory store is per process; a shared one (Redis, Postgres) slots in here. */
+export interface RateLimitStore {
+  take(id: string, limit: BucketLimit, now: number): Promise<TakeResult>;
+  // what take would say, without taking
+  peek(id: string, limit: BucketLimit, now: number): Promise<TakeResult>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, BucketState>();
+
+  constructor(private maxBuckets = 10_000) {}
+
+  async take(id: string, limit: BucketLimit, now: number) {
+    const { state, result } = takeToken(this.buckets.get(id), limit, now);
+    // re-insert so the Map's order is least recently used first
+    this.buckets.delete(id);
+    this.buckets.set(id, state);
+    while (this.buckets.size > this.maxBuckets) {
+      this.buckets.delete(this.buckets.keys().next().value as string);
+    }
+    return result;
+  }
+
+  async peek(id: string, limit: BucketLimit, now: number) {
+    return takeToken(this.buckets.get(id), limit, now).result;
+  }
+
+  clear() {
+    this.buckets.clear();
+  }
+}
+
+// the refusal furthest from a token, or the allowed result with the fewest left
+function tightest(results: TakeResult[]): TakeResult | null {
+  let out: TakeResult | null = null;
+  for (const r of results) {
+    if (
+      !out ||
+      (!r.allowed && (out.allowed || r.retryAfterMs > out.retryAfterMs)) ||
+      (r.allowed && out.allowed && r.remaining < out.remaining)
+    ) {
+      out = r;
+    }
+  }
+  return out;
+}
+
+export class RateLimiter {
+  constructor(
+    public store: RateLimitStore = new MemoryRateLimitStore(),
+    private now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Take a token from every bucket; the tightest result decides. A request
+   * refused by one bucket takes nothing from the others, so being throttled
+   * on one limit doesn't also drain the rest.
+   */
+  async check(buckets: { id: string; limit: BucketLimit }[]): Promise<TakeResult | null> {
+    const now = this.now();
+    const peeked = await Promise.all(buckets.map((b) => this.store.peek(b.id, b.limit, now)));
+    if (peeked.some((r) => !r.allowed)) return tightest(peeked);
+    const taken = [];
+    for (const b of buckets) taken.push(await this.store.take(b.id, b.limit, now));
+    return tightest(taken);
+  }
+
+  /** Whether `bucket` has a token left, without taking it. */
+  async peek(bucket: { id: string; limit: BucketLimit }): Promise<TakeResult> {
+    return this.store.peek(bucket.id, bucket.limit, this.now());
+  }
+}
+
+// standard rate limit headers (IETF draft names), plus Retry-After on a 429
+export function rateLimitHeaders(r: TakeResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(r.limit),
+    "RateLimit-Remaining": String(r.remaining),
+    "RateLimit-Reset": String(Math.ceil(r.resetMs / 1000)),
+  };
+  if (!r.allowed) headers["Retry-After"] = String(Math.max(1, Math.ceil(r.retryAfterMs / 1000)));
+  return headers;
+}
+
+export const apiRateLimiter = new RateLimiter();
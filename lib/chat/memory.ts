@@ -0,0 +1,131 @@
+import { and, desc, eq, isNull, or } from "drizzle-orm";
+
+import type { PgExecutor } from "../db/pg";
+import { chatQueries } from "../db/schema/chatQueries";
+
+export type ChatTurn = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+// per session: last N turns (user + assistant each count), idle sessions expire
+const MAX_TURNS = 12;
+const MAX_SESSIONS = 1000;
+const SESSION_TTL_MS = 30 * 60 * 1000;
+const MAX_TURN_CHARS = 2000;
+
+type Entry = { turns: ChatTurn[]; touchedAt: number };
+
+/**
+ * Bounded, in-process conversation memory keyed by the widget's session_id.
+ * A Map keeps insertion order, so re-inserting on touch gives us LRU eviction.
+ */
+export class SessionMemory {
+  private sessions = new Map<string, Entry>();
+
+  constructor(
+    private maxTurns = MAX_TURNS,
+    private maxSessions = MAX_SESSIONS,
+    private ttlMs = SESSION_TTL_MS,
+  ) {}
+
+  get(sessionId: string): ChatTurn[] | null {
+    const entry = this.sessions.get(sessionId);
+    if (!entry) return null;
+    if (Date.now() - entry.touchedAt > this.ttlMs) {
+      this.sessions.delete(sessionId);
+      return null;
+    }
+    return entry.turns;
+  }
+
+  set(sessionId: string, turns: ChatTurn[]) {
+    this.sessions.delete(sessionId);
+    this.sessions.set(sessionId, {
+      turns: turns.slice(-this.maxTurns),
+      touchedAt: Date.now(),
+    });
+    while (this.sessions.size > this.maxSessions) {
+      const oldest = this.sessions.keys().next().value as string;
+      this.sessions.delete(oldest);
+    }
+  }
+
+  append(sessionId: string, ...turns: ChatTurn[]) {
+    this.set(sessionId, [...(this.get(sessionId) ?? []), ...turns.map(clampTurn)]);
+  }
+
+  clear(sessionId: string) {
+    this.sessions.delete(sessionId);
+  }
+}
+
+export const sessionMemory = new SessionMemory();
+
+// session ids come from the widget, so two storefronts could pick the same one
+export function sessionKey(tenantId: string, sessionId: string) {
+  return `${tenantId}:${sessionId}`;
+}
+
+function clampTurn(t: ChatTurn): ChatTurn {
+  return { role: t.role, content: t.content.slice(0, MAX_TURN_CHARS) };
+}
+
+// accept the user turns of [{ role, content }] from a request body, dropping anything else:
+// what the assistant said comes from our own memory or log, never from the client
+export function parseHistory(raw: unknown): ChatTurn[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((t): t is ChatTurn => !!t && t.role === "user" && typeof t.content === "string" && t.content.trim().length > 0)
+    .map(clampTurn)
+    .slice(-MAX_TURNS);
+}
+
+/**
+ * Rebuild a session's turns from the interaction log: each /api/answer row
+ * (or one an older widget sent to /api/log) is a question plus the reply we showed.
+ */
+export async function loadSessionTurns(db: PgExecutor, tenantId: string, sessionId: string): Promise<ChatTurn[]> {
+  const rows = await db
+    .select({ queryText: chatQueries.queryText, responseText: chatQueries.responseText })
+    .from(chatQueries)
+    .where(
+      and(
+        eq(chatQueries.tenantId, tenantId),
+        eq(chatQueries.sessionId, sessionId),
+        // answers only: not /api/search lookups or client click events
+        isNull(chatQueries.event),
+        or(isNull(chatQueries.endpoint), eq(chatQueries.endpoint, "answer")),
+      ),
+    )
+    .orderBy(desc(chatQueries.askedAt))
+    .limit(Math.ceil(MAX_TURNS / 2));
+
+  return rows.reverse().flatMap((r) => {
+    const turns: ChatTurn[] = [{ role: "user", content: r.queryText }];
+    if (r.responseText) turns.push({ role: "assistant", content: r.responseText });
+    return turns.map(clampTurn);
+  });
+}
+
+/**
+ * With a session, the server's turns win: what this process remembers, then
+ * the log table. The client's (user-only) turns are used when there's no
+ * session or nothing is stored for it yet.
+ */
+export async function resolveHistory(
+  db: PgExecutor,
+  tenantId: string,
+  sessionId: string | null,
+  clientHistory: ChatTurn[],
+): Promise<ChatTurn[]> {
+  if (!sessionId) return clientHistory;
+
+  const cached = sessionMemory.get(sessionKey(tenantId, sessionId));
+  if (cached?.length) return cached;
+
+  const turns = await loadSessionTurns(db, tenantId, sessionId);
+  if (turns.length === 0) return clientHistory;
+  sessionMemory.set(sessionKey(tenantId, sessionId), turns);
+  return turns;
+}
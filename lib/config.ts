@@ -0,0 +1,296 @@
+import { z } from "zod";
+
+/*
+ * Every environment variable the service reads, parsed and typed in one
+ * place (documented in .env.example). Each section is a schema over the raw
+ * env names, so a bad value is reported by the variable that holds it.
+ * Blank values count as unset, the way .env.example leaves them.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const blank = (v: unknown) => (typeof v === "string" && v.trim() === "" ? undefined : v);
+
+const str = () => z.preprocess(blank, z.string().trim().optional());
+const int = (fallback: number, min = 0) => z.preprocess(blank, z.coerce.number().int().min(min).default(fallback));
+const flag = (fallback: boolean) =>
+  z.preprocess(
+    blank,
+    z
+      .enum(["1", "0", "true", "false"], { message: "must be 1 or 0" })
+      .optional()
+      .transform((v) => (v == null ? fallback : v === "1" || v === "true")),
+  );
+const list = <T extends z.ZodTypeAny>(item: T) =>
+  z.preprocess(
+    (v) => (typeof v === "string" ? v.split(",").map((s) => s.trim()).filter(Boolean) : (blank(v) ?? [])),
+    z.array(item),
+  );
+
+const originSchema = z
+  .string()
+  .regex(/^https?:\/\/(\*\.)?[a-z0-9.-]+(:\d+)?$/i, "origins must look like https://example.com or https://*.example.com");
+
+// SUPABASE_CONN wins when both are set
+const database = z
+  .preprocess(
+    (env) => {
+      const raw = env as Env;
+      return { ...raw, DATABASE_URL: blank(raw.SUPABASE_CONN) ?? raw.DATABASE_URL };
+    },
+    z.object({
+      DATABASE_URL: z.preprocess(
+        blank,
+        z
+          .string({ required_error: "set SUPABASE_CONN or DATABASE_URL" })
+          .trim()
+          .regex(/^postgres(ql)?:\/\//, "must be a postgres:// URL"),
+      ),
+      PG_SSL: z.preprocess(blank, z.enum(["disable", "require", "verify", "no-verify"]).optional()),
+      PG_SSL_CA: str(),
+      PG_POOL_MAX: int(10, 1),
+      PG_IDLE_TIMEOUT_MS: int(10_000),
+      PG_CONNECT_TIMEOUT_MS: int(5_000),
+      PG_STATEMENT_TIMEOUT_MS: int(15_000),
+    }),
+  )
+  .transform((env) => ({
+    url: env.DATABASE_URL,
+    // unset: disable for localhost, verify otherwise (see lib/db/pg)
+    ssl: env.PG_SSL,
+    sslCa: env.PG_SSL_CA?.replace(/\\n/g, "\n"),
+    poolMax: env.PG_POOL_MAX,
+    idleTimeoutMs: env.PG_IDLE_TIMEOUT_MS,
+    connectTimeoutMs: env.PG_CONNECT_TIMEOUT_MS,
+    // 0 = no limit
+    statementTimeoutMs: env.PG_STATEMENT_TIMEOUT_MS,
+  }));
+
+const openai = z.object({ OPENAI_API_KEY: str() }).transform((env) => ({ apiKey: env.OPENAI_API_KEY }));
+
+const embeddings = z
+  .object({
+    EMBEDDING_PROVIDER: z.preprocess(blank, z.enum(["openai", "local", "fake"]).default("openai")),
+    EMBEDDING_MODEL: str(),
+    EMBEDDING_DIM: z.preprocess(blank, z.coerce.number().int().min(1).max(16_000).optional()),
+    EMBEDDING_CACHE_TTL_MS: int(30 * DAY_MS),
+  })
+  .transform((env) => ({
+    provider: env.EMBEDDING_PROVIDER,
+    // each provider has its own default model and size
+    model: env.EMBEDDING_MODEL,
+    dimensions: env.EMBEDDING_DIM,
+    cacheTtlMs: env.EMBEDDING_CACHE_TTL_MS,
+  }));
+
+const chat = z
+  .object({
+    CHAT_PROVIDER: z.preprocess(blank, z.enum(["openai", "fake"]).default("openai")),
+    CHAT_MODEL: z.preprocess(blank, z.string().trim().default("gpt-4o-mini")),
+    FAKE_CHAT_SCRIPT: str(),
+  })
+  .transform((env) => ({ provider: env.CHAT_PROVIDER, model: env.CHAT_MODEL, fakeScript: env.FAKE_CHAT_SCRIPT }));
+
+const auth = z
+  .object({
+    ADMIN_SECRET: str(),
+    INGEST_SECRET: str(),
+    DEFAULT_TENANT: z.preprocess(blank, z.string().trim().default("default")),
+  })
+  .transform((env) => ({
+    // the admin login falls back to the ingest secret; neither set = admin disabled
+    adminSecret: env.ADMIN_SECRET || env.INGEST_SECRET || "",
+    ingestSecret: env.INGEST_SECRET || "",
+    defaultTenant: env.DEFAULT_TENANT,
+  }));
+
+const rateLimits = z
+  .object({
+    RATE_LIMIT_PUBLISHABLE_PER_MIN: int(120, 1),
+    RATE_LIMIT_SECRET_PER_MIN: int(600, 1),
+    RATE_LIMIT_IP_PER_MIN: int(30, 1),
+    RATE_LIMIT_BAD_KEY_PER_MIN: int(10, 1),
+    TRUSTED_PROXY_HOPS: int(1, 0),
+  })
+  .transform((env) => ({
+    publishablePerMin: env.RATE_LIMIT_PUBLISHABLE_PER_MIN,
+    secretPerMin: env.RATE_LIMIT_SECRET_PER_MIN,
+    ipPerMin: env.RATE_LIMIT_IP_PER_MIN,
+    badKeyPerMin: env.RATE_LIMIT_BAD_KEY_PER_MIN,
+    // proxies in front of the app that append to X-Forwarded-For; 0 = ignore the header
+    trustedProxyHops: env.TRUSTED_PROXY_HOPS,
+  }));
+
+const cors = z
+  .object({ CORS_ORIGINS: list(originSchema) })
+  // empty = any origin may call the widget endpoints (keys can still narrow it)
+  .transform((env) => ({ origins: env.CORS_ORIGINS }));
+
+const retrieval = z
+  .object({
+    // "faq=0.5,website=0.4"
+    SOURCE_MIN_SIM: list(
+      z.string().regex(/^[a-z0-9_-]+=(0(\.\d+)?|1(\.0+)?)$/i, "entries must look like faq=0.45 (0 to 1)"),
+    ),
+    RETRIEVAL_FEEDBACK_WEIGHT: z.preprocess(blank, z.coerce.number().min(0).max(1).default(0.25)),
+  })
+  .transform((env) => ({
+    // service-wide similarity floors per source; a tenant's own still win
+    minSim: Object.fromEntries(
+      env.SOURCE_MIN_SIM.map((entry) => {
+        const [source, value] = entry.split("=");
+        return [source.toLowerCase(), Number(value)];
+      }),
+    ) as Partial<Record<string, number>>,
+    feedbackWeight: env.RETRIEVAL_FEEDBACK_WEIGHT,
+  }));
+
+const reviews = z
+  .object({ REVIEW_LINK: z.preprocess(blank, z.string().trim().url().optional()) })
+  // for tenants without a reviewLink of their own
+  .transform((env) => ({ link: env.REVIEW_LINK ?? null }));
+
+const limits = z
+  .object({
+    INGEST_MAX_FILES: int(20, 1),
+    INGEST_MAX_FILE_MB: int(20, 1),
+    INGEST_MAX_BATCH_DOCUMENTS: int(1000, 1),
+    INGEST_MAX_REVIEWS: int(5000, 1),
+    CRAWL_MAX_PAGES: int(200, 1),
+    CRAWL_FETCH_TIMEOUT_MS: int(15_000, 1),
+    CRAWL_MAX_RESPONSE_MB: int(5, 1),
+    EXPORT_MAX_ROWS: int(50_000, 1),
+  })
+  .transform((env) => ({
+    uploadFiles: env.INGEST_MAX_FILES,
+    uploadBytes: env.INGEST_MAX_FILE_MB * 1024 * 1024,
+    batchDocuments: env.INGEST_MAX_BATCH_DOCUMENTS,
+    reviewsPerRequest: env.INGEST_MAX_REVIEWS,
+    crawlPages: env.CRAWL_MAX_PAGES,
+    // per page or sitemap request, redirects included
+    crawlTimeoutMs: env.CRAWL_FETCH_TIMEOUT_MS,
+    // body of one page or sitemap, after decompression
+    crawlBytes: env.CRAWL_MAX_RESPONSE_MB * 1024 * 1024,
+    exportRows: env.EXPORT_MAX_ROWS,
+  }));
+
+const features = z
+  .object({
+    ALLOW_ANONYMOUS_WIDGET: flag(false),
+    INTERACTION_LOG: flag(true),
+    INTERACTION_OTEL: flag(false),
+  })
+  .transform((env) => ({
+    anonymousWidget: env.ALLOW_ANONYMOUS_WIDGET,
+    interactionLog: env.INTERACTION_LOG,
+    interactionOtel: env.INTERACTION_OTEL,
+  }));
+
+const sections = {
+  database,
+  openai,
+  embeddings,
+  chat,
+  auth,
+  rateLimits,
+  cors,
+  retrieval,
+  reviews,
+  limits,
+  features,
+};
+
+type Sections = typeof sections;
+export type AppConfig = { [K in keyof Sections]: z.output<Sections[K]> };
+
+type Env = Record<string, string | undefined>;
+
+export class ConfigError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid configuration:\n${issues.map((i) => `  - ${i}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+const describe = (issue: z.ZodIssue) => `${issue.path.join(".") || "env"}: ${issue.message}`;
+
+function parseSection<K extends keyof Sections>(key: K, env: Env) {
+  return sections[key].safeParse(env) as z.SafeParseReturnType<Env, AppConfig[K]>;
+}
+
+// checks that span sections, over whichever sections parsed
+function crossCheck(config: Partial<AppConfig>): string[] {
+  const issues: string[] = [];
+  const needsOpenai = [
+    config.embeddings?.provider === "openai" && "EMBEDDING_PROVIDER=openai",
+    config.chat?.provider === "openai" && "CHAT_PROVIDER=openai",
+  ].filter(Boolean);
+  if (needsOpenai.length && config.openai && !config.openai.apiKey) {
+    issues.push(`OPENAI_API_KEY: required with ${needsOpenai.join(" and ")}`);
+  }
+  return issues;
+}
+
+/**
+ * Parses the whole configuration, collecting every problem instead of
+ * stopping at the first. Throws a ConfigError listing them all.
+ */
+export function loadConfig(env: Env = process.env): AppConfig {
+  const issues: string[] = [];
+  const config: Partial<Record<keyof Sections, unknown>> = {};
+  for (const key of Object.keys(sections) as (keyof Sections)[]) {
+    const parsed = parseSection(key, env);
+    if (parsed.success) config[key] = parsed.data;
+    else issues.push(...parsed.error.issues.map(describe));
+  }
+  issues.push(...crossCheck(config as Partial<AppConfig>));
+  if (issues.length) throw new ConfigError(issues);
+  return config as AppConfig;
+}
+
+let cached: AppConfig | null = null;
+
+// the process's configuration, parsed on first use (instrumentation.ts does that at boot)
+export function config(): AppConfig {
+  return (cached ??= loadConfig());
+}
+
+/**
+ * One section on its own, for code that must not depend on the rest: the
+ * edge middleware, the db:* scripts, drizzle-kit. An `env` other than
+ * process.env is always parsed, never answered from config()'s cache.
+ */
+export function configSection<K extends keyof Sections>(key: K, env: Env = process.env): AppConfig[K] {
+  if (cached && env === process.env) return cached[key];
+  const parsed = parseSection(key, env);
+  if (!parsed.success) throw new ConfigError(parsed.error.issues.map(describe));
+  return parsed.data;
+}
+
+// query parameters that carry credentials (password=, sslpassword=, api_key=, token=…)
+const SECRET_PARAM = /pass|secret|token|key|auth/i;
+
+// user:password@host → user:redacted@host, and the same for secret query parameters
+function redactUrl(url: string) {
+  try {
+    const u = new URL(url);
+    if (u.password) u.password = "redacted";
+    for (const name of [...u.searchParams.keys()]) {
+      if (SECRET_PARAM.test(name)) u.searchParams.set(name, "redacted");
+    }
+    return u.toString();
+  } catch {
+    return "redacted";
+  }
+}
+
+// for admins on /api/ping: secrets become "set" / null, credentials in the DB url are masked
+export function redactedConfig(c: AppConfig = config()) {
+  const secret = (v: string | undefined | null) => (v ? "set" : null);
+  return {
+    ...c,
+    database: { ...c.database, url: redactUrl(c.database.url), sslCa: secret(c.database.sslCa) },
+    openai: { apiKey: secret(c.openai.apiKey) },
+    auth: { ...c.auth, adminSecret: secret(c.auth.adminSecret), ingestSecret: secret(c.auth.ingestSecret) },
+  };
+}
@@ -0,0 +1,238 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { gzipSync } from "node:zlib";
+
+import { eq } from "drizzle-orm";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+import { createHashEmbeddingProvider } from "../ai/embeddings";
+import { documentChunks, documents } from "../db/schema/documents";
+import { createTestDb, DEFAULT_TENANT_ID } from "../db/testing";
+import { crawlSite } from "./crawl";
+import { BlockedUrlError, guardedFetch, isPrivateAddress, ResponseTooLargeError } from "./fetch";
+import { readSitemap } from "./sitemap";
+
+// fixture.test only resolves through the guard's own lookup, to the local shop below
+vi.mock("node:dns/promises", async (importOriginal) => {
+  const dns = await importOriginal<typeof import("node:dns/promises")>();
+  const lookup = (async (host: string, opts: object) =>
+    host === "fixture.test" ? [{ address: "127.0.0.1", family: 4 }] : dns.lookup(host, opts)) as typeof dns.lookup;
+  return { ...dns, lookup, default: { ...dns, lookup } };
+});
+
+const page = (title: string, body: string) =>
+  `<html lang="en"><head><title>${title}</title></head><body><nav>Home</nav><main><p>${body}</p></main></body></html>`;
+
+const urlset = (urls: string[]) =>
+  `<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${urls
+    .map((u) => `<url><loc>${u}</loc></url>`)
+    .join("")}</urlset>`;
+
+// a small shop on 127.0.0.1, which the crawler only reaches through allowHosts
+let server: Server;
+let base: string;
+let hits: Record<string, number> = {};
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const path = new URL(req.url ?? "/", "http://x").pathname;
+    hits[path] = (hits[path] ?? 0) + 1;
+    const html = (body: string, headers: Record<string, string> = {}) => {
+      res.writeHead(200, { "content-type": "text/html; charset=utf-8", ...headers });
+      res.end(body);
+    };
+    switch (path) {
+      case "/sitemap.xml":
+        res.writeHead(200, { "content-type": "application/xml" });
+        return res.end(
+          `<?xml version="1.0"?><sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"><sitemap><loc>${base}/pages.xml</loc></sitemap></sitemapindex>`,
+        );
+      case "/pages.xml":
+        res.writeHead(200, { "content-type": "application/xml" });
+        return res.end(urlset([`${base}/returns`, `${base}/shipping`]));
+      case "/returns":
+        if (req.headers["if-none-match"] === '"r1"') {
+          res.writeHead(304);
+          return res.end();
+        }
+        return html(page("Returns", "Returns are accepted within 7 days of delivery."), { etag: '"r1"' });
+      case "/shipping":
+        return html(page("Shipping", "We ship across India in 3 to 5 working days."));
+      case "/moved":
+        res.writeHead(302, { location: "/shipping" });
+        return res.end();
+      case "/to-localhost":
+        res.writeHead(302, { location: base.replace("127.0.0.1", "localhost") + "/returns" });
+        return res.end();
+      case "/wide.xml":
+        res.writeHead(200, { "content-type": "application/xml" });
+        return res.end(
+          `<?xml version="1.0"?><sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${Array.from(
+            { length: 80 },
+            (_, i) => `<sitemap><loc>${base}/pages.xml?n=${i}</loc></sitemap>`,
+          ).join("")}</sitemapindex>`,
+        );
+      case "/big":
+        return html("x".repeat(4096));
+      case "/big-declared":
+        res.writeHead(200, { "content-type": "text/html", "content-length": "4096" });
+        return res.end("x".repeat(4096));
+      case "/gzip":
+        res.writeHead(200, { "content-type": "text/html", "content-encoding": "gzip" });
+        return res.end(gzipSync(page("Zipped", "Compressed pages are decoded.")));
+      case "/slow":
+        // never answers; the guard's timeout has to give up
+        return;
+      case "/logo.png":
+        res.writeHead(200, { "content-type": "image/png" });
+        return res.end("png");
+      default:
+        res.writeHead(404);
+        return res.end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const allowHosts = ["127.0.0.1"];
+
+describe("isPrivateAddress", () => {
+  it.each([
+    ["127.0.0.1", true],
+    ["10.1.2.3", true],
+    ["172.20.0.5", true],
+    ["192.168.1.1", true],
+    ["169.254.169.254", true],
+    ["::1", true],
+    ["fd00:ec2::254", true],
+    ["::ffff:10.0.0.1", true],
+    ["8.8.8.8", false],
+    ["2606:4700::1111", false],
+  ])("%s → %s", (address, expected) => {
+    expect(isPrivateAddress(address)).toBe(expected);
+  });
+});
+
+describe("guardedFetch", () => {
+  it("refuses loopback, metadata and non-http urls", async () => {
+    await expect(guardedFetch(`${base}/returns`)).rejects.toBeInstanceOf(BlockedUrlError);
+    await expect(guardedFetch("http://169.254.169.254/latest/meta-data/")).rejects.toThrow(/private address/);
+    await expect(guardedFetch("file:///etc/passwd")).rejects.toThrow(/not http/);
+  });
+
+  it("follows redirects between allowed hosts", async () => {
+    const res = await guardedFetch(`${base}/moved`, {}, { allowHosts });
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain("We ship across India");
+  });
+
+  it("checks every redirect hop", async () => {
+    await expect(guardedFetch(`${base}/to-localhost`, {}, { allowHosts })).rejects.toThrow(
+      /localhost resolves to private address/,
+    );
+  });
+
+  it("connects to the address it checked instead of resolving again", async () => {
+    const port = new URL(base).port;
+    const res = await guardedFetch(`http://fixture.test:${port}/shipping`, {}, { allowHosts: ["fixture.test"] });
+    expect(await res.text()).toContain("We ship across India");
+    await expect(guardedFetch(`http://fixture.test:${port}/shipping`)).rejects.toThrow(/private address 127.0.0.1/);
+  });
+
+  it("cuts off a body over the size limit", async () => {
+    const res = await guardedFetch(`${base}/big`, {}, { allowHosts, maxBytes: 1024 });
+    await expect(res.text()).rejects.toBeInstanceOf(ResponseTooLargeError);
+    await expect(guardedFetch(`${base}/big-declared`, {}, { allowHosts, maxBytes: 1024 })).rejects.toBeInstanceOf(
+      ResponseTooLargeError,
+    );
+    expect(await (await guardedFetch(`${base}/big`, {}, { allowHosts, maxBytes: 4096 })).text()).toHaveLength(4096);
+  });
+
+  it("decodes compressed bodies", async () => {
+    const res = await guardedFetch(`${base}/gzip`, {}, { allowHosts });
+    expect(await res.text()).toContain("Compressed pages are decoded.");
+  });
+
+  it("gives up on a host that never answers", async () => {
+    await expect(guardedFetch(`${base}/slow`, {}, { allowHosts, timeoutMs: 200 })).rejects.toThrow(/timeout|abort/i);
+  });
+});
+
+describe("readSitemap", () => {
+  it("follows a sitemap index to its urls", async () => {
+    const entries = await readSitemap(`${base}/sitemap.xml`, { allowHosts });
+    expect(entries.map((e) => e.url)).toEqual([`${base}/returns`, `${base}/shipping`]);
+  });
+
+  it("stops at maxUrls and at a bounded number of sitemaps", async () => {
+    expect(await readSitemap(`${base}/sitemap.xml`, { allowHosts }, 1)).toEqual([{ url: `${base}/returns` }]);
+
+    hits = {};
+    const entries = await readSitemap(`${base}/wide.xml`, { allowHosts }, 1000);
+    expect(hits["/pages.xml"]).toBe(49);
+    expect(entries).toHaveLength(98);
+    hits = {};
+    expect(await readSitemap(`${base}/wide.xml`, { allowHosts }, 5)).toHaveLength(5);
+    expect(hits["/pages.xml"]).toBe(3);
+  });
+
+  it("refuses a sitemap on a private address", async () => {
+    await expect(readSitemap(`${base}/sitemap.xml`)).rejects.toBeInstanceOf(BlockedUrlError);
+  });
+});
+
+describe("crawlSite", () => {
+  const embedder = createHashEmbeddingProvider({ dimensions: 1536 });
+
+  it("stores new pages, then skips unchanged ones on the next run", async () => {
+    const testDb = await createTestDb();
+    const opts = { withDb: testDb.withDb, embedder, tenantId: DEFAULT_TENANT_ID, allowHosts };
+    hits = {};
+
+    const first = await crawlSite({
+      ...opts,
+      sitemapUrl: `${base}/sitemap.xml`,
+      urls: [`${base}/logo.png`, `${base}/missing`],
+    });
+    expect(first.summary).toEqual({ created: 2, updated: 0, unchanged: 0, skipped: 1, error: 1 });
+
+    const [returns] = await testDb.db.select().from(documents).where(eq(documents.url, `${base}/returns`));
+    expect(returns.title).toBe("Returns");
+    expect(returns.content).toBe("Returns are accepted within 7 days of delivery.");
+    expect(returns.meta).toMatchObject({ source: "website", etag: '"r1"', lang: "en" });
+    const chunks = await testDb.db.select().from(documentChunks).where(eq(documentChunks.documentId, returns.id));
+    expect(chunks.length).toBeGreaterThan(0);
+
+    const second = await crawlSite({ ...opts, sitemapUrl: `${base}/sitemap.xml` });
+    expect(second.results).toEqual([
+      { url: `${base}/returns`, status: "unchanged", documentId: returns.id, reason: "not modified" },
+      expect.objectContaining({ url: `${base}/shipping`, status: "unchanged", reason: "content hash" }),
+    ]);
+    expect(hits["/returns"]).toBe(2);
+
+    await testDb.close();
+  });
+
+  it("reports a page that redirects to a private host as an error", async () => {
+    const testDb = await createTestDb();
+    const { results } = await crawlSite({
+      withDb: testDb.withDb,
+      embedder,
+      tenantId: DEFAULT_TENANT_ID,
+      allowHosts,
+      urls: [`${base}/to-localhost`],
+    });
+    expect(results).toEqual([
+      expect.objectContaining({ status: "error", reason: expect.stringMatching(/private address/) }),
+    ]);
+    expect(await testDb.db.select().from(documents)).toHaveLength(0);
+
+    await testDb.close();
+  });
+});
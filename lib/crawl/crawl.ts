@@ -0,0 +1,173 @@
+import { createHash } from "node:crypto";
+import { and, eq } from "drizzle-orm";
+
+import type { EmbeddingProvider } from "../ai/embeddings";
+import { configSection } from "../config";
+import { withDb as pooledDb, type WithDb } from "../db/pg";
+import { documents, type DocumentMeta } from "../db/schema/documents";
+import type { ChunkOptions } from "../ingest/chunker";
+import { embedChunks, writeChunks } from "../ingest/chunks";
+import { embeddingInputFor, reviseDocument } from "../ingest/documents";
+import { extractReadable } from "./extract";
+import { guardedFetch, type FetchGuard } from "./fetch";
+import { readSitemap, type SitemapEntry } from "./sitemap";
+
+export type CrawlOptions = FetchGuard & {
+  // a connection per page, checked out only around its reads and writes (a pooled one by default)
+  withDb?: WithDb;
+  embedder: EmbeddingProvider;
+  // crawled pages belong to this tenant; the same URL can be crawled by several
+  tenantId: string;
+  sitemapUrl?: string;
+  urls?: string[];
+  sourceBucket?: string;
+  // CRAWL_MAX_PAGES by default
+  maxPages?: number;
+  // ignore ETag / Last-Modified / hash and re-embed everything
+  force?: boolean;
+  chunking?: ChunkOptions;
+};
+
+export type CrawlPageResult = {
+  url: string;
+  status: "created" | "updated" | "unchanged" | "skipped" | "error";
+  documentId?: string;
+  reason?: string;
+};
+
+const USER_AGENT = "wimo-rag-crawler/1.0";
+
+export function contentHash(text: string) {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+function isHttpUrl(u: string) {
+  try {
+    const p = new URL(u);
+    return p.protocol === "http:" || p.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+async function collectTargets(opts: CrawlOptions): Promise<SitemapEntry[]> {
+  const maxPages = opts.maxPages ?? configSection("limits").crawlPages;
+  const seen = new Set<string>();
+  const out: SitemapEntry[] = [];
+  const push = (e: SitemapEntry) => {
+    if (!isHttpUrl(e.url) || seen.has(e.url)) return;
+    seen.add(e.url);
+    out.push(e);
+  };
+
+  if (opts.sitemapUrl) {
+    for (const e of await readSitemap(opts.sitemapUrl, opts, maxPages)) push(e);
+  }
+  for (const url of opts.urls ?? []) push({ url });
+
+  return out.slice(0, maxPages);
+}
+
+async function crawlPage(entry: SitemapEntry, opts: CrawlOptions): Promise<CrawlPageResult> {
+  const { embedder } = opts;
+  const withDb = opts.withDb ?? pooledDb;
+  const { url } = entry;
+
+  const [existing] = await withDb((db) =>
+    db
+      .select()
+      .from(documents)
+      .where(and(eq(documents.tenantId, opts.tenantId), eq(documents.url, url)))
+      .limit(1),
+  );
+  const prev: DocumentMeta = existing?.meta ?? {};
+
+  // deleted by someone on purpose; a re-crawl shouldn't bring it back
+  if (existing?.deletedAt) {
+    return { url, status: "skipped", documentId: existing.id, reason: "deleted" };
+  }
+
+  // sitemap says nothing changed since our last crawl → don't even fetch
+  if (!opts.force && existing && entry.lastmod && typeof prev.crawledAt === "string") {
+    if (new Date(entry.lastmod).getTime() <= new Date(prev.crawledAt).getTime()) {
+      return { url, status: "unchanged", documentId: existing.id, reason: "sitemap lastmod" };
+    }
+  }
+
+  const headers: Record<string, string> = { "user-agent": USER_AGENT, accept: "text/html" };
+  if (!opts.force && existing) {
+    if (typeof prev.etag === "string") headers["if-none-match"] = prev.etag;
+    if (typeof prev.lastModified === "string") headers["if-modified-since"] = prev.lastModified;
+  }
+
+  // no connection held while the page downloads
+  const res = await guardedFetch(url, { headers }, opts);
+  if (res.status === 304 && existing) {
+    return { url, status: "unchanged", documentId: existing.id, reason: "not modified" };
+  }
+  if (!res.ok) return { url, status: "error", reason: `HTTP ${res.status}` };
+
+  const ctype = res.headers.get("content-type") || "";
+  if (!ctype.includes("html")) return { url, status: "skipped", reason: `content-type ${ctype}` };
+
+  const page = extractReadable(await res.text());
+  if (!page.text) return { url, status: "skipped", reason: "no readable text" };
+
+  const hash = contentHash(page.text);
+  const meta: DocumentMeta = {
+    ...prev,
+    source: opts.sourceBucket || prev.source || "website",
+    description: page.description,
+    canonical: page.canonical,
+    lang: page.lang,
+    etag: res.headers.get("etag"),
+    lastModified: res.headers.get("last-modified"),
+    contentHash: hash,
+    crawledAt: new Date().toISOString(),
+  };
+
+  // same text as last time → refresh validators only, keep the old vectors
+  if (!opts.force && existing && prev.contentHash === hash) {
+    await withDb((db) => db.update(documents).set({ meta }).where(eq(documents.id, existing.id)));
+    return { url, status: "unchanged", documentId: existing.id, reason: "content hash" };
+  }
+
+  // embeddings first, with no connection held; then a fresh one for the transaction that writes
+  const toInput = embeddingInputFor(meta.source || "website");
+  const embedded = await embedChunks(withDb, embedder, page.text, opts.chunking, toInput);
+  const docId = await withDb((db) =>
+    db.transaction(async (tx) => {
+      if (existing) {
+        await reviseDocument(tx, existing, { title: page.title, content: page.text, meta, chunks: embedded });
+        return existing.id;
+      }
+      const [doc] = await tx
+        .insert(documents)
+        .values({ tenantId: opts.tenantId, url, title: page.title, content: page.text, meta })
+        .returning({ id: documents.id });
+      await writeChunks(tx, doc.id, embedded);
+      return doc.id;
+    }),
+  );
+
+  return { url, status: existing ? "updated" : "created", documentId: docId };
+}
+
+/** Crawl a sitemap and/or seed URLs, (re)embedding only pages whose content changed. */
+export async function crawlSite(opts: CrawlOptions) {
+  const targets = await collectTargets(opts);
+  const results: CrawlPageResult[] = [];
+
+  for (const entry of targets) {
+    try {
+      results.push(await crawlPage(entry, opts));
+    } catch (err: any) {
+      console.error("[crawl] page failed", entry.url, err);
+      results.push({ url: entry.url, status: "error", reason: String(err?.message || err) });
+    }
+  }
+
+  const summary = { created: 0, updated: 0, unchanged: 0, skipped: 0, error: 0 };
+  for (const r of results) summary[r.status]++;
+  return { summary, results };
+}
@@ -0,0 +1,90 @@
+import * as cheerio from "cheerio";
+
+export type ExtractedPage = {
+  title: string | null;
+  description: string | null;
+  canonical: string | null;
+  lang: string | null;
+  text: string;
+};
+
+// boilerplate that never carries FAQ/policy content
+const DROP_SELECTORS = [
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+  "iframe",
+  "form",
+  "nav",
+  "header",
+  "footer",
+  "aside",
+  "[role=navigation]",
+  "[role=banner]",
+  "[role=contentinfo]",
+  "[aria-hidden=true]",
+  ".cookie, .cookies, .newsletter, .breadcrumb, .breadcrumbs",
+  "#shopify-section-header, #shopify-section-footer, #shopify-section-announcement-bar",
+].join(",");
+
+const MAIN_SELECTORS = ["main", "[role=main]", "article", "#MainContent", "#content", ".content"];
+
+const BLOCK_TAGS = "p,li,h1,h2,h3,h4,h5,h6,td,th,dt,dd,blockquote,pre,br,div,section";
+
+export function extractReadable(html: string): ExtractedPage {
+  const $ = cheerio.load(html);
+
+  const title =
+    $("meta[property='og:title']").attr("content")?.trim() ||
+    $("title").first().text().trim() ||
+    null;
+  const description =
+    $("meta[name='description']").attr("content")?.trim() ||
+    $("meta[property='og:description']").attr("content")?.trim() ||
+    null;
+  const canonical = $("link[rel='canonical']").attr("href")?.trim() || null;
+  const lang = $("html").attr("lang")?.trim() || null;
+
+  $(DROP_SELECTORS).remove();
+
+  // prefer an explicit main region, otherwise fall back to the whole body
+  let root: cheerio.Cheerio<any> = $("body");
+  for (const sel of MAIN_SELECTORS) {
+    const el = $(sel).first();
+    if (el.length && el.text().trim().length > 0) {
+      root = el;
+      break;
+    }
+  }
+
+  // tables as "cell | cell" rows, so a size chart still reads as a table once flattened
+  root.find("tr").each((_, tr) => {
+    const cells = $(tr)
+      .children("th,td")
+      .map((_, cell) => $(cell).text().replace(/\s+/g, " ").trim())
+      .get();
+    $(tr).replaceWith($("<p>").text(cells.join(" | ")));
+  });
+
+  // markdown-style heading markers, so the chunker can build heading paths
+  root.find("h1,h2,h3,h4,h5,h6").each((_, el) => {
+    const level = Number(el.tagName.slice(1));
+    $(el).prepend(`${"#".repeat(level)} `);
+  });
+
+  // keep block boundaries as newlines so paragraphs survive text()
+  root.find(BLOCK_TAGS).each((_, el) => {
+    $(el).append("\n");
+  });
+
+  const text = root
+    .text()
+    .split("\n")
+    .map((l) => l.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+
+  return { title, description, canonical, lang, text };
+}
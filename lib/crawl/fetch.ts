@@ -0,0 +1,196 @@
+import { lookup } from "node:dns/promises";
+import { request as httpRequest, type IncomingMessage } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+import { pipeline, Readable, Transform } from "node:stream";
+import { createBrotliDecompress, createGunzip, createInflate } from "node:zlib";
+
+import { configSection } from "../config";
+
+/*
+ * Every crawler request goes through here: the URLs come from tenants and
+ * from their sitemaps, so a page must not be able to point us at our own
+ * network (loopback, RFC 1918, link-local cloud metadata, ...). The host is
+ * resolved and checked before each hop, redirects included, and the socket
+ * connects to the address that was checked rather than resolving again (a
+ * second answer could rebind the name to a private address). Bodies are
+ * streamed and cut off past a size limit.
+ */
+
+export type FetchGuard = {
+  // per request, redirects included; CRAWL_FETCH_TIMEOUT_MS by default
+  timeoutMs?: number;
+  // decoded body size per response; CRAWL_MAX_RESPONSE_MB by default
+  maxBytes?: number;
+  // hostnames fetched even when they resolve to a private address (a local fixture, an intranet site)
+  allowHosts?: string[];
+};
+
+export type GuardedInit = { method?: "GET" | "HEAD"; headers?: Record<string, string> };
+
+export class BlockedUrlError extends Error {
+  constructor(
+    public url: string,
+    reason: string,
+  ) {
+    super(`refusing to fetch ${url}: ${reason}`);
+    this.name = "BlockedUrlError";
+  }
+}
+
+export class ResponseTooLargeError extends Error {
+  constructor(
+    public url: string,
+    public maxBytes: number,
+  ) {
+    super(`${url}: response is over ${maxBytes} bytes`);
+    this.name = "ResponseTooLargeError";
+  }
+}
+
+const MAX_REDIRECTS = 5;
+
+const blocked = new BlockList();
+for (const [net, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blocked.addSubnet(net, prefix, "ipv4");
+}
+for (const [net, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blocked.addSubnet(net, prefix, "ipv6");
+}
+
+export function isPrivateAddress(address: string) {
+  // ::ffff:10.0.0.1 is 10.0.0.1
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  if (mapped) return isPrivateAddress(mapped);
+  const family = isIP(address);
+  if (family === 0) return true;
+  return blocked.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+type Pinned = { address: string; family: number };
+
+// the address to connect to, once every address the host resolves to has been checked
+async function resolvePublic(url: URL, guard: FetchGuard): Promise<Pinned> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new BlockedUrlError(url.href, `${url.protocol} is not http(s)`);
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  const family = isIP(host);
+  const addresses = family ? [{ address: host, family }] : await lookup(host, { all: true });
+  if (!guard.allowHosts?.includes(url.hostname)) {
+    const bad = addresses.find((a) => isPrivateAddress(a.address));
+    if (bad) throw new BlockedUrlError(url.href, `${url.hostname} resolves to private address ${bad.address}`);
+  }
+  if (addresses.length === 0) throw new Error(`${url.hostname} has no addresses`);
+  return addresses[0];
+}
+
+// a dns lookup that always answers with the address we checked
+const pinnedLookup =
+  (pinned: Pinned): LookupFunction =>
+  (_host, options, callback) => {
+    if (options.all) callback(null, [pinned]);
+    else callback(null, pinned.address, pinned.family);
+  };
+
+function send(url: URL, init: GuardedInit, pinned: Pinned, signal: AbortSignal) {
+  const request = url.protocol === "https:" ? httpsRequest : httpRequest;
+  return new Promise<IncomingMessage>((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: init.method ?? "GET",
+        headers: { "accept-encoding": "gzip, deflate, br", ...init.headers },
+        lookup: pinnedLookup(pinned),
+        // no pooled sockets: each request connects to the address checked for it
+        agent: false,
+        signal,
+      },
+      resolve,
+    );
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+const decoders: Record<string, () => Transform> = {
+  gzip: createGunzip,
+  "x-gzip": createGunzip,
+  deflate: createInflate,
+  br: createBrotliDecompress,
+};
+
+function byteLimit(url: string, maxBytes: number) {
+  let seen = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, done) {
+      seen += chunk.length;
+      if (seen > maxBytes) done(new ResponseTooLargeError(url, maxBytes));
+      else done(null, chunk);
+    },
+  });
+}
+
+// the fetch() Response the callers expect, its body decoded and counted as it's read
+function toResponse(url: string, res: IncomingMessage, init: GuardedInit, maxBytes: number) {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(res.headers)) {
+    for (const v of [value ?? []].flat()) headers.append(name, v);
+  }
+  const status = res.statusCode ?? 502;
+  const meta = { status, statusText: res.statusMessage, headers };
+  if (init.method === "HEAD" || status === 204 || status === 205 || status === 304) {
+    res.resume();
+    return new Response(null, meta);
+  }
+  if (Number(res.headers["content-length"]) > maxBytes) {
+    res.destroy();
+    throw new ResponseTooLargeError(url, maxBytes);
+  }
+
+  const decode = decoders[String(res.headers["content-encoding"] ?? "").trim().toLowerCase()];
+  // an error anywhere (a reset, the timeout, the limit) fails the body being read
+  let body: Readable = res;
+  for (const stage of decode ? [decode(), byteLimit(url, maxBytes)] : [byteLimit(url, maxBytes)]) {
+    body = pipeline(body, stage, () => {});
+  }
+  return new Response(Readable.toWeb(body) as ReadableStream<Uint8Array>, meta);
+}
+
+/** fetch() for crawler requests: public hosts only, redirects followed by hand, bounded in time and size. */
+export async function guardedFetch(url: string, init: GuardedInit = {}, guard: FetchGuard = {}): Promise<Response> {
+  const limits = configSection("limits");
+  const signal = AbortSignal.timeout(guard.timeoutMs ?? limits.crawlTimeoutMs);
+  const maxBytes = guard.maxBytes ?? limits.crawlBytes;
+
+  let current = new URL(url);
+  for (let hop = 0; ; hop++) {
+    const res = await send(current, init, await resolvePublic(current, guard), signal);
+    const location = res.headers.location;
+    if (!res.statusCode || res.statusCode < 300 || res.statusCode >= 400 || res.statusCode === 304 || !location) {
+      return toResponse(current.href, res, init, maxBytes);
+    }
+
+    res.destroy();
+    if (hop >= MAX_REDIRECTS) throw new Error(`${url}: more than ${MAX_REDIRECTS} redirects`);
+    current = new URL(location, current);
+  }
+}
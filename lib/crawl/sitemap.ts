@@ -0,0 +1,45 @@
+import { Readable } from "node:stream";
+import { parseSitemap, parseSitemapIndex } from "sitemap";
+
+import { configSection } from "../config";
+import { guardedFetch, type FetchGuard } from "./fetch";
+
+export type SitemapEntry = { url: string; lastmod?: string };
+
+// follow nested <sitemapindex> files, but never forever, nor into thousands of them
+const MAX_SITEMAP_DEPTH = 3;
+const MAX_SITEMAPS = 50;
+
+type Walk = { guard: FetchGuard; maxUrls: number; fetched: number; out: SitemapEntry[] };
+
+/** The page urls of a sitemap (index), in order, stopping at `maxUrls` (CRAWL_MAX_PAGES by default). */
+export async function readSitemap(
+  sitemapUrl: string,
+  guard: FetchGuard = {},
+  maxUrls = configSection("limits").crawlPages,
+): Promise<SitemapEntry[]> {
+  const walk: Walk = { guard, maxUrls, fetched: 0, out: [] };
+  await visit(sitemapUrl, walk, 0);
+  return walk.out;
+}
+
+async function visit(sitemapUrl: string, walk: Walk, depth: number) {
+  walk.fetched++;
+  const res = await guardedFetch(sitemapUrl, { headers: { accept: "application/xml,text/xml" } }, walk.guard);
+  if (!res.ok) throw new Error(`sitemap ${sitemapUrl} → HTTP ${res.status}`);
+  const xml = await res.text();
+
+  if (/<sitemapindex[\s>]/i.test(xml)) {
+    if (depth >= MAX_SITEMAP_DEPTH) return;
+    for (const child of await parseSitemapIndex(Readable.from([xml]))) {
+      if (walk.out.length >= walk.maxUrls || walk.fetched >= MAX_SITEMAPS) return;
+      await visit(child.url, walk, depth + 1);
+    }
+    return;
+  }
+
+  const items = await parseSitemap(Readable.from([xml]));
+  for (const it of items.slice(0, walk.maxUrls - walk.out.length)) {
+    walk.out.push({ url: it.url, lastmod: it.lastmod });
+  }
+}
@@ -0,0 +1,131 @@
+import "dotenv/config";
+
+import { and, asc, eq, inArray, isNull, sql } from "drizzle-orm";
+import pkg from "pg";
+
+import { getEmbeddingProvider } from "../ai/embeddings";
+import { prefilledEmbedder } from "../ingest/batch";
+import { chunkText } from "../ingest/chunker";
+import { embedChunks, embeddingInputHash, type EmbeddedChunks } from "../ingest/chunks";
+import { reviseDocument } from "../ingest/documents";
+import { REVIEW_SOURCE, reviewEmbeddingText, reviewFromLegacyText, toReviewMeta } from "../reviews";
+import { connectionConfig, withDrizzle, type WithDb } from "./pg";
+import { documentChunks, documents } from "./schema/documents";
+
+const { Client } = pkg;
+
+// rows per embeddings call; well under the API's 2048-input cap
+const BATCH_SIZE = 100;
+
+const runBackfill = async () => {
+  const embedder = getEmbeddingProvider();
+  const client = new Client(connectionConfig({ statementTimeoutMs: 0 }));
+  await client.connect();
+  const db = withDrizzle(client);
+  const withDb: WithDb = (fn) => fn(db);
+  const start = Date.now();
+
+  console.log("⏳ Converting \"Reviewer: …\" review blobs to typed meta.review...");
+
+  let structured = 0;
+  let done = 0;
+
+  try {
+    // 1) legacy text reviews → review text as content, fields in meta.review, re-embedded chunks;
+    //    each rewrite is a new version, the blob kept in document_versions
+    const toInput = (c: { content: string }) => reviewEmbeddingText(c.content);
+    for (;;) {
+      const docs = await db
+        .select({ id: documents.id, content: documents.content })
+        .from(documents)
+        .where(
+          and(
+            sql`${documents.meta}->>'source' = ${REVIEW_SOURCE}`,
+            sql`${documents.meta}->'review' is null`,
+            isNull(documents.deletedAt),
+          ),
+        )
+        .orderBy(asc(documents.createdAt))
+        .limit(BATCH_SIZE);
+      if (docs.length === 0) break;
+
+      // one embeddings call for the batch, then each document's chunks from it
+      const records = docs.map((d) => reviewFromLegacyText(d.content));
+      const batchEmbedder = prefilledEmbedder(embedder, new Map());
+      await batchEmbedder.embed(records.flatMap((r) => chunkText(r.text).map(toInput)));
+      const embedded: EmbeddedChunks[] = [];
+      for (const r of records) embedded.push(await embedChunks(withDb, batchEmbedder, r.text, undefined, toInput));
+
+      await db.transaction(async (tx) => {
+        const current = await tx
+          .select()
+          .from(documents)
+          .where(inArray(documents.id, docs.map((d) => d.id)))
+          .for("update");
+        for (const doc of current) {
+          const i = docs.findIndex((d) => d.id === doc.id);
+          // edited since we read it; the next pass picks it up again
+          if (doc.content !== docs[i].content || doc.meta.review) continue;
+          await reviseDocument(tx, doc, {
+            content: records[i].text,
+            title: records[i].reviewer ?? null,
+            meta: { ...doc.meta, review: toReviewMeta(records[i]) },
+            chunks: embedded[i],
+          });
+        }
+      });
+
+      structured += docs.length;
+      console.log(`   …${structured} structured`);
+      if (docs.length < BATCH_SIZE) break;
+    }
+
+    // 2) anything still missing an embedding
+    console.log("⏳ Embedding google-review chunks with NULL embedding...");
+    for (;;) {
+      const rows = await db
+        .select({ id: documentChunks.id, content: documentChunks.content })
+        .from(documentChunks)
+        .innerJoin(documents, eq(documents.id, documentChunks.documentId))
+        .where(
+          and(
+            sql`${documents.meta}->>'source' = ${REVIEW_SOURCE}`,
+            isNull(documentChunks.embedding),
+            isNull(documentChunks.supersededAt),
+            sql`length(trim(${documentChunks.content})) > 0`,
+          ),
+        )
+        .orderBy(asc(documentChunks.createdAt))
+        .limit(BATCH_SIZE);
+      if (rows.length === 0) break;
+
+      const inputs = rows.map((r) => reviewEmbeddingText(r.content) || r.content);
+      const vectors = await embedder.embed(inputs);
+
+      await db.transaction(async (tx) => {
+        for (const [i, embedding] of vectors.entries()) {
+          await tx
+            .update(documentChunks)
+            .set({ embedding, embeddingModel: embedder.name, contentHash: embeddingInputHash(inputs[i]) })
+            .where(eq(documentChunks.id, rows[i].id));
+        }
+      });
+
+      done += rows.length;
+      console.log(`   …${done} embedded`);
+      if (rows.length < BATCH_SIZE) break;
+    }
+  } finally {
+    await client.end();
+  }
+
+  console.log("✅ Structured", structured, "reviews and embedded", done, "review chunks in", Date.now() - start, "ms");
+
+  process.exit(0);
+};
+
+runBackfill().catch((err) => {
+  console.error("❌ Backfill failed");
+  console.error(err);
+  process.exit(1);
+});
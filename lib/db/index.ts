@@ -1,7 +1,2 @@
-import { drizzle } from "drizzle-orm/postgres-js";
-import postgres from "postgres";
-import { env } from "@/lib/env.mjs";
-
-const client = postgres(env.DATABASE_URL);
-export const db = drizzle(client);
-
+// the app's one data layer: a pooled node-postgres connection (see ./pg)
+export { getPool, poolStats, withDrizzle, withPgClient, type PgDb, type PgExecutor } from "./pg";
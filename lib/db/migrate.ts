@@ -1,26 +1,39 @@
-import { env } from "@/lib/env.mjs";
-  
-import { drizzle } from "drizzle-orm/postgres-js";
-import { migrate } from "drizzle-orm/postgres-js/migrator";
-import postgres from "postgres";
+import "dotenv/config";
 
+import { drizzle } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import pkg from "pg";
 
-const runMigrate = async () => {
-  if (!env.DATABASE_URL) {
-    throw new Error("DATABASE_URL is not defined");
-  }
-
-  
-const connection = postgres(env.DATABASE_URL, { max: 1 });
+import { configuredDimensions } from "../ai/embeddings";
+import { connectionConfig } from "./pg";
+import { readEmbeddingColumnDimensions } from "./vector";
 
-const db = drizzle(connection);
+const { Client } = pkg;
 
+const runMigrate = async () => {
+  // same connection settings (URL, TLS) as the app; no statement timeout for DDL
+  const client = new Client(connectionConfig({ statementTimeoutMs: 0 }));
+  await client.connect();
 
   console.log("⏳ Running migrations...");
 
   const start = Date.now();
 
-  await migrate(db, { migrationsFolder: 'lib/db/migrations' });
+  try {
+    await migrate(drizzle(client), { migrationsFolder: "lib/db/migrations" });
+
+    // migrations create vector(1536); other providers need the column resized and re-filled
+    const dims = await readEmbeddingColumnDimensions(client);
+    const wanted = configuredDimensions();
+    if (dims != null && dims !== wanted) {
+      console.log(
+        `⚠️  document_chunks.embedding is vector(${dims}) but the embedding provider needs ${wanted}; ` +
+          "run `npm run db:reembed`",
+      );
+    }
+  } finally {
+    await client.end();
+  }
 
   const end = Date.now();
 
@@ -33,4 +46,4 @@ runMigrate().catch((err) => {
   console.error("❌ Migration failed");
   console.error(err);
   process.exit(1);
-});
\ No newline at end of file
+});
@@ -0,0 +1,6 @@
+-- chunk provenance for the chunking pipeline: offsets into documents.content + heading trail
+ALTER TABLE IF EXISTS "document_chunks" ADD COLUMN IF NOT EXISTS "char_start" integer;
+--> statement-breakpoint
+ALTER TABLE IF EXISTS "document_chunks" ADD COLUMN IF NOT EXISTS "char_end" integer;
+--> statement-breakpoint
+ALTER TABLE IF EXISTS "document_chunks" ADD COLUMN IF NOT EXISTS "heading_path" text[] DEFAULT '{}'::text[] NOT NULL;
@@ -0,0 +1,11 @@
+-- stored, GIN-indexed tsvector so keyword ranking (ts_rank_cd) doesn't re-parse content per query
+DO $$
+BEGIN
+  IF to_regclass('public.document_chunks') IS NOT NULL THEN
+    ALTER TABLE "document_chunks"
+      ADD COLUMN IF NOT EXISTS "content_tsv" tsvector
+      GENERATED ALWAYS AS (to_tsvector('simple', coalesce("content", ''))) STORED;
+    CREATE INDEX IF NOT EXISTS "document_chunks_content_tsv_idx"
+      ON "document_chunks" USING gin ("content_tsv");
+  END IF;
+END $$;
@@ -0,0 +1,51 @@
+CREATE TABLE IF NOT EXISTS "chat_queries" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"asked_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"session_id" text,
+	"url_path" text,
+	"user_agent" text,
+	"query_text" text NOT NULL,
+	"response_type" text DEFAULT 'fallback' NOT NULL,
+	"faq_id" text,
+	"faq_title" text,
+	"reviews_count" integer,
+	"response_ms" integer,
+	"response_text" text
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "document_chunks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"document_id" uuid NOT NULL,
+	"chunk_index" integer NOT NULL,
+	"content" text NOT NULL,
+	"embedding" vector(1536),
+	"char_start" integer,
+	"char_end" integer,
+	"heading_path" text[] DEFAULT '{}'::text[] NOT NULL,
+	"content_tsv" tsvector GENERATED ALWAYS AS (to_tsvector('simple', coalesce("content", ''))) STORED,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "documents" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"url" text NOT NULL,
+	"title" text,
+	"content" text NOT NULL,
+	"meta" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "document_chunks" ADD CONSTRAINT "document_chunks_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "chat_queries_asked_at_idx" ON "chat_queries" USING btree ("asked_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "chat_queries_session_idx" ON "chat_queries" USING btree ("session_id","asked_at");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "document_chunks_doc_idx_uq" ON "document_chunks" USING btree ("document_id","chunk_index");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "document_chunks_embedding_hnsw_idx" ON "document_chunks" USING hnsw ("embedding" vector_cosine_ops);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "document_chunks_content_tsv_idx" ON "document_chunks" USING gin ("content_tsv");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "documents_url_idx" ON "documents" USING btree ("url");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "documents_source_idx" ON "documents" USING btree (("meta"->>'source'));
\ No newline at end of file
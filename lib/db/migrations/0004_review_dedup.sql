@@ -0,0 +1,2 @@
+CREATE UNIQUE INDEX IF NOT EXISTS "documents_review_platform_id_uq" ON "documents" USING btree (("meta"->'review'->>'platform'),("meta"->'review'->>'platformReviewId')) WHERE ("documents"."meta"->'review'->>'platformReviewId') IS NOT NULL;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "documents_review_text_hash_idx" ON "documents" USING btree (("meta"->'review'->>'textHash'));
\ No newline at end of file
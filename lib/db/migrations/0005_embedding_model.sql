@@ -0,0 +1,3 @@
+ALTER TABLE "document_chunks" ADD COLUMN IF NOT EXISTS "embedding_model" text;--> statement-breakpoint
+-- everything embedded so far came from the OpenAI default
+UPDATE "document_chunks" SET "embedding_model" = 'openai:text-embedding-3-small@1536' WHERE "embedding" IS NOT NULL AND "embedding_model" IS NULL;
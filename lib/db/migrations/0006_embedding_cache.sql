@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS "embedding_cache" (
+	"model" text NOT NULL,
+	"text_hash" text NOT NULL,
+	"text" text NOT NULL,
+	"embedding" real[] NOT NULL,
+	"hits" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_hit_at" timestamp with time zone,
+	CONSTRAINT "embedding_cache_model_text_hash_pk" PRIMARY KEY("model","text_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "document_chunks" ADD COLUMN IF NOT EXISTS "content_hash" text;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "embedding_cache_created_at_idx" ON "embedding_cache" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "document_chunks_content_hash_idx" ON "document_chunks" USING btree ("embedding_model","content_hash");
\ No newline at end of file
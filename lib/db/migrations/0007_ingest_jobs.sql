@@ -0,0 +1,41 @@
+CREATE TABLE IF NOT EXISTS "ingest_job_items" (
+	"job_id" uuid NOT NULL,
+	"item_index" integer NOT NULL,
+	"title" text,
+	"payload" jsonb,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"document_id" uuid,
+	"chunks" integer,
+	"error" text,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "ingest_job_items_job_id_item_index_pk" PRIMARY KEY("job_id","item_index")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "ingest_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"total" integer NOT NULL,
+	"succeeded" integer DEFAULT 0 NOT NULL,
+	"failed" integer DEFAULT 0 NOT NULL,
+	"error" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"started_at" timestamp with time zone,
+	"finished_at" timestamp with time zone,
+	"heartbeat_at" timestamp with time zone,
+	"attempts" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ingest_job_items" ADD CONSTRAINT "ingest_job_items_job_id_ingest_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."ingest_jobs"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ingest_job_items" ADD CONSTRAINT "ingest_job_items_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "ingest_jobs_created_at_idx" ON "ingest_jobs" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "ingest_jobs_status_idx" ON "ingest_jobs" USING btree ("status","heartbeat_at");
\ No newline at end of file
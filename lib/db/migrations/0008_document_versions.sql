@@ -0,0 +1,25 @@
+CREATE TABLE IF NOT EXISTS "document_versions" (
+	"document_id" uuid NOT NULL,
+	"version" integer NOT NULL,
+	"title" text,
+	"content" text NOT NULL,
+	"meta" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"created_at" timestamp with time zone NOT NULL,
+	"superseded_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "document_versions_document_id_version_pk" PRIMARY KEY("document_id","version")
+);
+--> statement-breakpoint
+DROP INDEX IF EXISTS "document_chunks_doc_idx_uq";--> statement-breakpoint
+ALTER TABLE "document_chunks" ADD COLUMN IF NOT EXISTS "version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "document_chunks" ADD COLUMN IF NOT EXISTS "superseded_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "external_key" text;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "deleted_at" timestamp with time zone;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "document_versions" ADD CONSTRAINT "document_versions_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "documents_external_key_uq" ON "documents" USING btree ("external_key") WHERE "documents"."external_key" IS NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "document_chunks_doc_idx_uq" ON "document_chunks" USING btree ("document_id","version","chunk_index");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "document_chunks" ADD COLUMN IF NOT EXISTS "source_file" text;--> statement-breakpoint
+ALTER TABLE "document_chunks" ADD COLUMN IF NOT EXISTS "page" integer;
\ No newline at end of file
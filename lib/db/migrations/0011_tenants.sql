@@ -0,0 +1,66 @@
+CREATE TABLE IF NOT EXISTS "tenants" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"slug" text NOT NULL,
+	"name" text NOT NULL,
+	"config" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+-- everything stored so far belongs to the original storefront
+INSERT INTO "tenants" ("id", "slug", "name", "config") VALUES ('00000000-0000-0000-0000-000000000001', 'default', 'WiMO', '{"reviewLink": "https://www.google.com/search?q=wimo+ready+to+wear+saree+reviews"}'::jsonb) ON CONFLICT DO NOTHING;--> statement-breakpoint
+DROP INDEX IF EXISTS "chat_queries_asked_at_idx";--> statement-breakpoint
+DROP INDEX IF EXISTS "chat_queries_session_idx";--> statement-breakpoint
+DROP INDEX IF EXISTS "documents_url_idx";--> statement-breakpoint
+DROP INDEX IF EXISTS "documents_external_key_uq";--> statement-breakpoint
+DROP INDEX IF EXISTS "documents_review_platform_id_uq";--> statement-breakpoint
+DROP INDEX IF EXISTS "ingest_jobs_created_at_idx";--> statement-breakpoint
+ALTER TABLE "api_keys" ADD COLUMN IF NOT EXISTS "tenant_id" uuid DEFAULT '00000000-0000-0000-0000-000000000001' NOT NULL;--> statement-breakpoint
+ALTER TABLE "api_keys" ALTER COLUMN "tenant_id" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "chat_queries" ADD COLUMN IF NOT EXISTS "tenant_id" uuid DEFAULT '00000000-0000-0000-0000-000000000001' NOT NULL;--> statement-breakpoint
+ALTER TABLE "chat_queries" ALTER COLUMN "tenant_id" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "document_chunks" ADD COLUMN IF NOT EXISTS "tenant_id" uuid DEFAULT '00000000-0000-0000-0000-000000000001' NOT NULL;--> statement-breakpoint
+ALTER TABLE "document_chunks" ALTER COLUMN "tenant_id" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "tenant_id" uuid DEFAULT '00000000-0000-0000-0000-000000000001' NOT NULL;--> statement-breakpoint
+ALTER TABLE "documents" ALTER COLUMN "tenant_id" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "ingest_jobs" ADD COLUMN IF NOT EXISTS "tenant_id" uuid DEFAULT '00000000-0000-0000-0000-000000000001' NOT NULL;--> statement-breakpoint
+ALTER TABLE "ingest_jobs" ALTER COLUMN "tenant_id" DROP DEFAULT;--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "tenants_slug_uq" ON "tenants" USING btree ("slug");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "chat_queries" ADD CONSTRAINT "chat_queries_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "document_chunks" ADD CONSTRAINT "document_chunks_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "documents" ADD CONSTRAINT "documents_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ingest_jobs" ADD CONSTRAINT "ingest_jobs_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "api_keys_tenant_idx" ON "api_keys" USING btree ("tenant_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "chat_queries_tenant_asked_at_idx" ON "chat_queries" USING btree ("tenant_id","asked_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "chat_queries_tenant_session_idx" ON "chat_queries" USING btree ("tenant_id","session_id","asked_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "document_chunks_tenant_idx" ON "document_chunks" USING btree ("tenant_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "documents_tenant_url_idx" ON "documents" USING btree ("tenant_id","url");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "documents_tenant_external_key_uq" ON "documents" USING btree ("tenant_id","external_key") WHERE "documents"."external_key" IS NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "documents_tenant_review_platform_id_uq" ON "documents" USING btree ("tenant_id",("meta"->'review'->>'platform'),("meta"->'review'->>'platformReviewId')) WHERE ("documents"."meta"->'review'->>'platformReviewId') IS NOT NULL;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "ingest_jobs_tenant_created_at_idx" ON "ingest_jobs" USING btree ("tenant_id","created_at");
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "chat_queries" ADD COLUMN IF NOT EXISTS "origin" text DEFAULT 'client' NOT NULL;--> statement-breakpoint
+ALTER TABLE "chat_queries" ADD COLUMN IF NOT EXISTS "endpoint" text;--> statement-breakpoint
+ALTER TABLE "chat_queries" ADD COLUMN IF NOT EXISTS "event" text;--> statement-breakpoint
+ALTER TABLE "chat_queries" ADD COLUMN IF NOT EXISTS "standalone_query" text;--> statement-breakpoint
+ALTER TABLE "chat_queries" ADD COLUMN IF NOT EXISTS "retrieved" jsonb;--> statement-breakpoint
+ALTER TABLE "chat_queries" ADD COLUMN IF NOT EXISTS "timings" jsonb;
@@ -0,0 +1,29 @@
+CREATE TABLE IF NOT EXISTS "answer_feedback" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"interaction_id" uuid NOT NULL,
+	"chunk_id" uuid,
+	"rating" smallint NOT NULL,
+	"comment" text,
+	"session_id" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "chat_queries" ADD COLUMN IF NOT EXISTS "interaction_id" uuid;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "answer_feedback" ADD CONSTRAINT "answer_feedback_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "answer_feedback" ADD CONSTRAINT "answer_feedback_chunk_id_document_chunks_id_fk" FOREIGN KEY ("chunk_id") REFERENCES "public"."document_chunks"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "answer_feedback_interaction_chunk_uq" ON "answer_feedback" USING btree ("tenant_id","interaction_id","chunk_id") WHERE "answer_feedback"."chunk_id" IS NOT NULL;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "answer_feedback_tenant_chunk_idx" ON "answer_feedback" USING btree ("tenant_id","chunk_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "answer_feedback_tenant_created_at_idx" ON "answer_feedback" USING btree ("tenant_id","created_at");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "chat_queries_interaction_uq" ON "chat_queries" USING btree ("interaction_id") WHERE "chat_queries"."interaction_id" IS NOT NULL AND "chat_queries"."event" IS NULL;
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { connectionConfig } from "./pg";
+
+describe("connectionConfig ssl", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const sslFor = (url: string, mode?: string) => {
+    vi.stubEnv("DATABASE_URL", url);
+    vi.stubEnv("SUPABASE_CONN", "");
+    vi.stubEnv("PG_SSL", mode ?? "");
+    return connectionConfig().ssl;
+  };
+
+  it("verifies certificates unless told not to by name", () => {
+    expect(sslFor("postgres://u:p@db.example.com:5432/app")).toEqual({ rejectUnauthorized: true });
+    expect(sslFor("postgres://u:p@db.example.com:5432/app", "require")).toEqual({ rejectUnauthorized: true });
+    expect(sslFor("postgres://u:p@db.example.com:5432/app", "no-verify")).toEqual({ rejectUnauthorized: false });
+    expect(sslFor("postgres://u:p@localhost:5432/app")).toBe(false);
+  });
+});
@@ -0,0 +1,157 @@
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import pkg, { type Client, type ClientConfig, type Pool, type PoolClient } from "pg";
+
+import { configSection, type AppConfig } from "../config";
+import * as apiKeys from "./schema/apiKeys";
+import * as chatQueries from "./schema/chatQueries";
+import * as documents from "./schema/documents";
+import * as embeddingCache from "./schema/embeddingCache";
+import * as feedback from "./schema/feedback";
+import * as ingestJobs from "./schema/ingestJobs";
+import * as tenants from "./schema/tenants";
+
+export const schema = { ...documents, ...chatQueries, ...embeddingCache, ...ingestJobs, ...apiKeys, ...tenants, ...feedback };
+
+export type PgDb = NodePgDatabase<typeof schema>;
+// a db handle or the `tx` inside db.transaction(...)
+export type PgExecutor = PgDb | Parameters<Parameters<PgDb["transaction"]>[0]>[0];
+
+// typed Drizzle over the node-postgres connection a route already holds
+export function withDrizzle(client: Client | Pool | PoolClient): PgDb {
+  return drizzle(client, { schema });
+}
+
+/*
+ * One pooled data layer for routes, server actions and the interaction writer,
+ * configured by the database section of lib/config (SUPABASE_CONN or
+ * DATABASE_URL plus the PG_* knobs). The pool lives on globalThis so dev
+ * reloads don't open a new one every save.
+ */
+
+export function databaseUrl() {
+  return configSection("database").url;
+}
+
+function sslConfig(url: string, mode: AppConfig["database"]["ssl"], ca: string | undefined): ClientConfig["ssl"] {
+  // local databases rarely speak TLS; hosted ones (Supabase) need it
+  const host = new URL(url).hostname;
+  const resolved = mode ?? (host === "localhost" || host === "127.0.0.1" || host === "::1" ? "disable" : "verify");
+  if (resolved === "disable") return false;
+  // an unchecked certificate only when asked for by name; "require" verifies like "verify"
+  if (resolved === "no-verify") return { rejectUnauthorized: false };
+  return { rejectUnauthorized: true, ...(ca ? { ca } : {}) };
+}
+
+export type ConnectionOptions = {
+  // per-statement limit in ms, 0 for none (migrations, re-embedding)
+  statementTimeoutMs?: number;
+};
+
+// connection settings shared by the pool and the one-off scripts (db:migrate, db:reembed, eval)
+export function connectionConfig(opts: ConnectionOptions = {}): ClientConfig {
+  const db = configSection("database");
+  const statementTimeout = opts.statementTimeoutMs ?? db.statementTimeoutMs;
+  return {
+    connectionString: db.url,
+    ssl: sslConfig(db.url, db.ssl, db.sslCa),
+    connectionTimeoutMillis: db.connectTimeoutMs,
+    ...(statementTimeout > 0
+      ? { statement_timeout: statementTimeout, idle_in_transaction_session_timeout: statementTimeout * 2 }
+      : {}),
+    application_name: "wimo-kb",
+  };
+}
+
+type PoolState = {
+  pool: Pool;
+  opened: number;
+  acquired: number;
+  errors: number;
+  statementTimeouts: number;
+};
+
+const globalForPg = globalThis as typeof globalThis & { __wimoPg?: PoolState };
+
+function state(): PoolState {
+  if (globalForPg.__wimoPg) return globalForPg.__wimoPg;
+  const { poolMax, idleTimeoutMs } = configSection("database");
+  const pool = new pkg.Pool({ ...connectionConfig(), max: poolMax, idleTimeoutMillis: idleTimeoutMs });
+  const s: PoolState = { pool, opened: 0, acquired: 0, errors: 0, statementTimeouts: 0 };
+  pool.on("connect", () => s.opened++);
+  pool.on("acquire", () => s.acquired++);
+  // an idle connection dropped by the server; the pool replaces it on the next checkout
+  pool.on("error", (err) => {
+    s.errors++;
+    console.error("[pg] idle client error", err);
+  });
+  globalForPg.__wimoPg = s;
+  return s;
+}
+
+export function getPool(): Pool {
+  return state().pool;
+}
+
+// 57014: canceling statement due to statement timeout
+const isStatementTimeout = (err: unknown) => (err as { code?: string } | null)?.code === "57014";
+
+// the socket, not the query, failed (server errors carry a severity)
+const isConnectionError = (err: unknown) =>
+  err instanceof Error &&
+  !("severity" in err) &&
+  /ECONN|EPIPE|ETIMEDOUT|terminated|not queryable/i.test(`${(err as { code?: string }).code} ${err.message}`);
+
+/**
+ * Checks a connection out of the pool for the duration of `fn` and always
+ * gives it back. A connection that failed at the socket level is destroyed
+ * rather than handed to the next caller.
+ */
+export async function withPgClient<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const s = state();
+  let client: PoolClient;
+  try {
+    client = await s.pool.connect();
+  } catch (err) {
+    s.errors++;
+    throw err;
+  }
+  let broken: Error | undefined;
+  try {
+    return await fn(client);
+  } catch (err) {
+    if (isStatementTimeout(err)) s.statementTimeouts++;
+    else if (isConnectionError(err)) {
+      s.errors++;
+      broken = err as Error;
+    }
+    throw err;
+  } finally {
+    client.release(broken);
+  }
+}
+
+// runs `fn` on a connection held only for its duration; code that calls slow
+// APIs (embeddings) between queries takes one of these instead of a db
+export type WithDb = <T>(fn: (db: PgDb) => Promise<T>) => Promise<T>;
+
+// withPgClient for code that only speaks Drizzle
+export function withDb<T>(fn: (db: PgDb) => Promise<T>): Promise<T> {
+  return withPgClient((client) => fn(withDrizzle(client)));
+}
+
+// pool counters for /api/ping
+export function poolStats() {
+  const s = globalForPg.__wimoPg;
+  if (!s) return { started: false as const };
+  return {
+    started: true as const,
+    max: s.pool.options.max,
+    total: s.pool.totalCount,
+    idle: s.pool.idleCount,
+    waiting: s.pool.waitingCount,
+    opened: s.opened,
+    acquired: s.acquired,
+    errors: s.errors,
+    statementTimeouts: s.statementTimeouts,
+  };
+}
@@ -0,0 +1,106 @@
+import "dotenv/config";
+
+import { and, asc, eq, isNull, ne, or, sql } from "drizzle-orm";
+import pkg from "pg";
+
+import { getEmbeddingProvider } from "../ai/embeddings";
+import { chunkEmbeddingInput, embeddingInputHash } from "../ingest/chunks";
+import { REVIEW_SOURCE, reviewEmbeddingText } from "../reviews";
+import { connectionConfig, withDrizzle } from "./pg";
+import { documentChunks, documents } from "./schema/documents";
+import { readEmbeddingColumnDimensions } from "./vector";
+
+const { Client } = pkg;
+
+const BATCH_SIZE = 100;
+const HNSW_INDEX = "document_chunks_embedding_hnsw_idx";
+
+// Moves every chunk onto the configured EMBEDDING_PROVIDER: resizes vector(N)
+// if the dimension changed, then re-embeds chunks written by any other provider.
+// Safe to re-run; it picks up where it stopped.
+const runReembed = async () => {
+  const embedder = getEmbeddingProvider();
+  const client = new Client(connectionConfig({ statementTimeoutMs: 0 }));
+  await client.connect();
+  const db = withDrizzle(client);
+  const start = Date.now();
+
+  try {
+    const dims = await readEmbeddingColumnDimensions(db);
+    if (dims !== embedder.dimensions) {
+      console.log(`⏳ Resizing document_chunks.embedding vector(${dims}) → vector(${embedder.dimensions})...`);
+      // old vectors can't be cast to the new size; the index is rebuilt once everything is embedded
+      await db.transaction(async (tx) => {
+        await tx.execute(sql.raw(`DROP INDEX IF EXISTS "${HNSW_INDEX}"`));
+        await tx.execute(
+          sql.raw(
+            `ALTER TABLE "document_chunks" ALTER COLUMN "embedding" TYPE vector(${embedder.dimensions}) USING NULL`,
+          ),
+        );
+        await tx.update(documentChunks).set({ embeddingModel: null });
+      });
+    }
+
+    console.log(`⏳ Re-embedding chunks with ${embedder.name}...`);
+    let done = 0;
+    for (;;) {
+      const rows = await db
+        .select({
+          id: documentChunks.id,
+          content: documentChunks.content,
+          headingPath: documentChunks.headingPath,
+          source: sql<string>`coalesce(${documents.meta}->>'source', 'faq')`,
+        })
+        .from(documentChunks)
+        .innerJoin(documents, eq(documents.id, documentChunks.documentId))
+        .where(
+          and(
+            // superseded versions are history, never searched
+            isNull(documentChunks.supersededAt),
+            or(isNull(documentChunks.embeddingModel), ne(documentChunks.embeddingModel, embedder.name)),
+          ),
+        )
+        .orderBy(asc(documentChunks.id))
+        .limit(BATCH_SIZE);
+      if (rows.length === 0) break;
+
+      // same inputs ingestion uses: heading trail for pages/FAQs, the customer's words for reviews
+      const inputs = rows.map(
+        (r) => (r.source === REVIEW_SOURCE ? reviewEmbeddingText(r.content) : chunkEmbeddingInput(r)) || " ",
+      );
+      const vectors = await embedder.embed(inputs);
+
+      await db.transaction(async (tx) => {
+        for (const [i, embedding] of vectors.entries()) {
+          await tx
+            .update(documentChunks)
+            .set({ embedding, embeddingModel: embedder.name, contentHash: embeddingInputHash(inputs[i]) })
+            .where(eq(documentChunks.id, rows[i].id));
+        }
+      });
+
+      done += rows.length;
+      console.log(`   …${done} embedded`);
+    }
+
+    // also when an earlier run resized the column and stopped before getting here
+    console.log("⏳ Ensuring HNSW index...");
+    await db.execute(
+      sql.raw(
+        `CREATE INDEX IF NOT EXISTS "${HNSW_INDEX}" ON "document_chunks" USING hnsw ("embedding" vector_cosine_ops)`,
+      ),
+    );
+
+    console.log("✅ Re-embedded", done, "chunks in", Date.now() - start, "ms");
+  } finally {
+    await client.end();
+  }
+
+  process.exit(0);
+};
+
+runReembed().catch((err) => {
+  console.error("❌ Re-embed failed");
+  console.error(err);
+  process.exit(1);
+});
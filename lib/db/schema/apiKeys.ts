@@ -0,0 +1,42 @@
+import { sql } from "drizzle-orm";
+import { index, integer, pgTable, text, timestamp, uniqueIndex, uuid } from "drizzle-orm/pg-core";
+
+import { tenants } from "./tenants";
+
+export type ApiKeyKind = "publishable" | "secret";
+export type ApiScope = "ingest" | "admin" | "analytics";
+
+// API keys for the widget (publishable) and for scripts/servers (secret); see lib/auth/keys
+export const apiKeys = pgTable(
+  "api_keys",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    // the storefront every request made with this key is scoped to
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    kind: text("kind").$type<ApiKeyKind>().notNull(),
+    // first characters of the key, to tell keys apart in lists; never enough to use
+    prefix: text("prefix").notNull(),
+    // sha256 of the full key; the key itself is shown once at creation
+    keyHash: text("key_hash").notNull(),
+    // secret keys only; "admin" implies the others
+    scopes: text("scopes").array().$type<ApiScope[]>().notNull().default(sql`'{}'::text[]`),
+    // publishable keys only: "https://wimo.in", "https://*.wimo.in"; empty = any origin
+    allowedOrigins: text("allowed_origins").array().notNull().default(sql`'{}'::text[]`),
+    // requests per minute for this key; NULL = the default for its kind
+    rateLimitPerMin: integer("rate_limit_per_min"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .default(sql`now()`),
+    lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+    revokedAt: timestamp("revoked_at", { withTimezone: true }),
+  },
+  (t) => ({
+    keyHashIdx: uniqueIndex("api_keys_key_hash_uq").on(t.keyHash),
+    tenantIdx: index("api_keys_tenant_idx").on(t.tenantId),
+  }),
+);
+
+export type ApiKey = typeof apiKeys.$inferSelect;
@@ -0,0 +1,76 @@
+import { sql } from "drizzle-orm";
+import { bigserial, index, integer, jsonb, pgTable, text, timestamp, uniqueIndex, uuid } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+
+import { tenants } from "./tenants";
+
+// a retrieved chunk as the interaction log keeps it
+export type RetrievedRef = {
+  chunkId: string;
+  documentId: string;
+  source: string;
+  // RRF score; null for reviews, which are ranked by similarity alone
+  fused: number | null;
+  vector: number | null;
+  keyword: number | null;
+};
+
+// milliseconds spent per stage of one request; stages that didn't run are absent
+export type StageTimings = Partial<Record<"rewrite" | "embed" | "db" | "generate", number>>;
+
+// one row per widget question, recorded by /api/search and /api/answer themselves;
+// /api/log adds client-only events (clicks) and rows from older widgets
+export const chatQueries = pgTable(
+  "chat_queries",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    askedAt: timestamp("asked_at", { withTimezone: true })
+      .notNull()
+      .default(sql`now()`),
+    sessionId: text("session_id"),
+    urlPath: text("url_path"),
+    userAgent: text("user_agent"),
+    queryText: text("query_text").notNull(),
+    // faq | review | fallback | generated | error
+    responseType: text("response_type").notNull().default("fallback"),
+    faqId: text("faq_id"),
+    faqTitle: text("faq_title"),
+    reviewsCount: integer("reviews_count"),
+    responseMs: integer("response_ms"),
+    responseText: text("response_text"),
+    // handed to the widget with the answer; feedback and client events refer to it
+    interactionId: uuid("interaction_id"),
+    // "server" rows come from the routes, "client" rows through /api/log
+    origin: text("origin").notNull().default("client"),
+    // search | answer; null for client rows
+    endpoint: text("endpoint"),
+    // client-only event, e.g. "source_click"; null for questions
+    event: text("event"),
+    // follow-ups as rewritten before searching
+    standaloneQuery: text("standalone_query"),
+    // what retrieval returned, best first
+    retrieved: jsonb("retrieved").$type<RetrievedRef[]>(),
+    timings: jsonb("timings").$type<StageTimings>(),
+  },
+  (t) => ({
+    askedAtIdx: index("chat_queries_tenant_asked_at_idx").on(t.tenantId, t.askedAt),
+    sessionIdx: index("chat_queries_tenant_session_idx").on(t.tenantId, t.sessionId, t.askedAt),
+    interactionIdx: uniqueIndex("chat_queries_interaction_uq")
+      .on(t.interactionId)
+      .where(sql`${t.interactionId} IS NOT NULL AND ${t.event} IS NULL`),
+  }),
+);
+
+// Schema for chat_queries - used to validate API requests
+export const insertChatQuerySchema = createInsertSchema(chatQueries).omit({
+  id: true,
+  askedAt: true,
+});
+
+// Type for chat_queries - used to type API request params and within Components
+export type ChatQuery = typeof chatQueries.$inferSelect;
+export type NewChatQueryParams = z.infer<typeof insertChatQuerySchema>;
@@ -0,0 +1,196 @@
+import { sql } from "drizzle-orm";
+import {
+  customType,
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  primaryKey,
+  text,
+  timestamp,
+  uniqueIndex,
+  uuid,
+  vector,
+} from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+
+import { tenants } from "./tenants";
+
+// the vector(N) the migrations create, whatever the env says. A deployment on another
+// provider or EMBEDDING_DIM gets its live column resized by `npm run db:reembed`
+// (db:migrate points that out), so don't db:push this size over it.
+export const EMBEDDING_DIMENSIONS = 1536;
+
+// generated from `content` by the database (see migrations), never written by us
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+// typed fields of a customer review, set by the review importer (lib/ingest/reviews)
+export type ReviewMeta = {
+  // google, instagram, … (the bucket stays google-review for retrieval)
+  platform: string;
+  platformReviewId?: string | null;
+  reviewer?: string | null;
+  rating?: number | null;
+  // ISO date (yyyy-mm-dd)
+  date?: string | null;
+  sourceUrl?: string | null;
+  // sha256 of normalized reviewer + text; the dedup key when there's no platform id
+  textHash: string;
+};
+
+// the uploaded file a document was extracted from (lib/ingest/files)
+export type FileMeta = {
+  name: string;
+  kind: string;
+  bytes: number;
+  pages: number | null;
+};
+
+// free-form, but `source` is the bucket retrieval filters on
+export type DocumentMeta = {
+  source?: string;
+  review?: ReviewMeta;
+  file?: FileMeta;
+  [key: string]: unknown;
+};
+
+export const documents = pgTable(
+  "documents",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    // real page URL, or a synthetic faq://<id> / review://<id>
+    url: text("url").notNull(),
+    title: text("title"),
+    content: text("content").notNull(),
+    meta: jsonb("meta").$type<DocumentMeta>().notNull().default({}),
+    // caller-supplied id for upserts through /api/ingest (e.g. "faq:returns"), unique per tenant
+    externalKey: text("external_key"),
+    // bumped on every content change; older versions live in document_versions
+    version: integer("version").notNull().default(1),
+    // soft delete: hidden from retrieval and the admin list, still inspectable
+    deletedAt: timestamp("deleted_at", { withTimezone: true }),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .default(sql`now()`),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .default(sql`now()`),
+  },
+  (t) => ({
+    urlIdx: index("documents_tenant_url_idx").on(t.tenantId, t.url),
+    externalKeyIdx: uniqueIndex("documents_tenant_external_key_uq")
+      .on(t.tenantId, t.externalKey)
+      .where(sql`${t.externalKey} IS NOT NULL`),
+    sourceIdx: index("documents_source_idx").on(sql`(${t.meta}->>'source')`),
+    reviewPlatformIdIdx: uniqueIndex("documents_tenant_review_platform_id_uq")
+      .on(
+        t.tenantId,
+        sql`(${t.meta}->'review'->>'platform')`,
+        sql`(${t.meta}->'review'->>'platformReviewId')`,
+      )
+      .where(sql`(${t.meta}->'review'->>'platformReviewId') IS NOT NULL`),
+    reviewTextHashIdx: index("documents_review_text_hash_idx").on(
+      sql`(${t.meta}->'review'->>'textHash')`,
+    ),
+  }),
+);
+
+export const documentChunks = pgTable(
+  "document_chunks",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    documentId: uuid("document_id")
+      .notNull()
+      .references(() => documents.id, { onDelete: "cascade" }),
+    // copied from the document, so retrieval can filter chunks without the join
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    chunkIndex: integer("chunk_index").notNull(),
+    // documents.version this chunk was cut from
+    version: integer("version").notNull().default(1),
+    // set when a newer version replaced this chunk; retrieval skips superseded rows
+    supersededAt: timestamp("superseded_at", { withTimezone: true }),
+    content: text("content").notNull(),
+    // NULL until embedded (e.g. reviews imported before backfill)
+    embedding: vector("embedding", { dimensions: EMBEDDING_DIMENSIONS }),
+    // EmbeddingProvider.name that produced `embedding`; retrieval only compares like with like
+    embeddingModel: text("embedding_model"),
+    // sha256 of the text that was embedded; identical chunks reuse the stored vector
+    contentHash: text("content_hash"),
+    charStart: integer("char_start"),
+    charEnd: integer("char_end"),
+    // uploaded file name and 1-based page the chunk starts on, for "Size Guide, p.2" citations
+    sourceFile: text("source_file"),
+    page: integer("page"),
+    headingPath: text("heading_path")
+      .array()
+      .notNull()
+      .default(sql`'{}'::text[]`),
+    contentTsv: tsvector("content_tsv"),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .default(sql`now()`),
+  },
+  (t) => ({
+    documentChunkIdx: uniqueIndex("document_chunks_doc_idx_uq").on(
+      t.documentId,
+      t.version,
+      t.chunkIndex,
+    ),
+    embeddingIdx: index("document_chunks_embedding_hnsw_idx").using(
+      "hnsw",
+      t.embedding.op("vector_cosine_ops"),
+    ),
+    tenantIdx: index("document_chunks_tenant_idx").on(t.tenantId),
+    contentTsvIdx: index("document_chunks_content_tsv_idx").using("gin", t.contentTsv),
+    contentHashIdx: index("document_chunks_content_hash_idx").on(t.embeddingModel, t.contentHash),
+  }),
+);
+
+// previous versions of a document, written when an update or upsert replaces it
+export const documentVersions = pgTable(
+  "document_versions",
+  {
+    documentId: uuid("document_id")
+      .notNull()
+      .references(() => documents.id, { onDelete: "cascade" }),
+    version: integer("version").notNull(),
+    title: text("title"),
+    content: text("content").notNull(),
+    meta: jsonb("meta").$type<DocumentMeta>().notNull().default({}),
+    // when this version was written, and when a newer one replaced it
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+    supersededAt: timestamp("superseded_at", { withTimezone: true })
+      .notNull()
+      .default(sql`now()`),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.documentId, t.version] }),
+  }),
+);
+
+// Schema for documents - used to validate API requests
+export const insertDocumentSchema = createInsertSchema(documents).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Types for documents/chunks - used to type rows within routes and lib
+export type Document = typeof documents.$inferSelect;
+export type NewDocument = typeof documents.$inferInsert;
+export type DocumentChunk = typeof documentChunks.$inferSelect;
+export type NewDocumentChunk = typeof documentChunks.$inferInsert;
+export type NewDocumentParams = z.infer<typeof insertDocumentSchema>;
+export type DocumentVersion = typeof documentVersions.$inferSelect;
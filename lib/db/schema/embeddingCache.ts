@@ -0,0 +1,27 @@
+import { sql } from "drizzle-orm";
+import { index, integer, pgTable, primaryKey, real, text, timestamp } from "drizzle-orm/pg-core";
+
+// query embeddings by (provider, normalized text); shared by every server process
+export const embeddingCache = pgTable(
+  "embedding_cache",
+  {
+    // EmbeddingProvider.name, e.g. openai:text-embedding-3-small@1536
+    model: text("model").notNull(),
+    // sha256 of the normalized query text
+    textHash: text("text_hash").notNull(),
+    text: text("text").notNull(),
+    // real[] rather than vector(N): entries of every provider/dimension live side by side
+    embedding: real("embedding").array().notNull(),
+    hits: integer("hits").notNull().default(0),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .default(sql`now()`),
+    lastHitAt: timestamp("last_hit_at", { withTimezone: true }),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.model, t.textHash] }),
+    createdAtIdx: index("embedding_cache_created_at_idx").on(t.createdAt),
+  }),
+);
+
+export type EmbeddingCacheEntry = typeof embeddingCache.$inferSelect;
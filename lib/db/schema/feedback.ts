@@ -0,0 +1,41 @@
+import { sql } from "drizzle-orm";
+import { bigserial, index, pgTable, smallint, text, timestamp, uniqueIndex, uuid } from "drizzle-orm/pg-core";
+
+import { documentChunks } from "./documents";
+import { tenants } from "./tenants";
+
+// shopper thumbs up/down on an answer; feeds the retrieval boost and the downvote report
+export const answerFeedback = pgTable(
+  "answer_feedback",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    // chat_queries.interaction_id of the answer; not a foreign key, the
+    // interaction row is written in batches and may land after the vote
+    interactionId: uuid("interaction_id").notNull(),
+    // the chunk the shopper was shown; null for votes on a refusal
+    chunkId: uuid("chunk_id").references(() => documentChunks.id, { onDelete: "cascade" }),
+    // 1 = helpful, -1 = wrong / not helpful
+    rating: smallint("rating").notNull(),
+    comment: text("comment"),
+    sessionId: text("session_id"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .default(sql`now()`),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .default(sql`now()`),
+  },
+  (t) => ({
+    // one vote per shown chunk; voting again changes it
+    interactionChunkIdx: uniqueIndex("answer_feedback_interaction_chunk_uq")
+      .on(t.tenantId, t.interactionId, t.chunkId)
+      .where(sql`${t.chunkId} IS NOT NULL`),
+    chunkIdx: index("answer_feedback_tenant_chunk_idx").on(t.tenantId, t.chunkId),
+    createdAtIdx: index("answer_feedback_tenant_created_at_idx").on(t.tenantId, t.createdAt),
+  }),
+);
+
+export type AnswerFeedback = typeof answerFeedback.$inferSelect;
@@ -0,0 +1,66 @@
+import { sql } from "drizzle-orm";
+import { index, integer, jsonb, pgTable, primaryKey, text, timestamp, uuid } from "drizzle-orm/pg-core";
+
+import { documents } from "./documents";
+import { tenants } from "./tenants";
+
+export type IngestJobStatus = "queued" | "running" | "completed" | "failed";
+export type IngestItemStatus = "pending" | "done" | "error";
+
+// one row per batch ingest request (/api/ingest/batch)
+export const ingestJobs = pgTable(
+  "ingest_jobs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    status: text("status").$type<IngestJobStatus>().notNull().default("queued"),
+    total: integer("total").notNull(),
+    succeeded: integer("succeeded").notNull().default(0),
+    failed: integer("failed").notNull().default(0),
+    // job-level failure (e.g. lost DB connection); per-item errors live on the items
+    error: text("error"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .default(sql`now()`),
+    startedAt: timestamp("started_at", { withTimezone: true }),
+    finishedAt: timestamp("finished_at", { withTimezone: true }),
+    // bumped as items land; a running job whose worker stopped beating gets picked up again
+    heartbeatAt: timestamp("heartbeat_at", { withTimezone: true }),
+    // times a worker has claimed it
+    attempts: integer("attempts").notNull().default(0),
+  },
+  (t) => ({
+    createdAtIdx: index("ingest_jobs_tenant_created_at_idx").on(t.tenantId, t.createdAt),
+    // the worker's "anything to pick up?" scan
+    statusIdx: index("ingest_jobs_status_idx").on(t.status, t.heartbeatAt),
+  }),
+);
+
+export const ingestJobItems = pgTable(
+  "ingest_job_items",
+  {
+    jobId: uuid("job_id")
+      .notNull()
+      .references(() => ingestJobs.id, { onDelete: "cascade" }),
+    // position in the submitted array / file
+    itemIndex: integer("item_index").notNull(),
+    title: text("title"),
+    // the submitted document, so another process can finish the job; cleared once it's stored
+    payload: jsonb("payload").$type<unknown>(),
+    status: text("status").$type<IngestItemStatus>().notNull().default("pending"),
+    documentId: uuid("document_id").references(() => documents.id, { onDelete: "set null" }),
+    chunks: integer("chunks"),
+    error: text("error"),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .default(sql`now()`),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.jobId, t.itemIndex] }),
+  }),
+);
+
+export type IngestJob = typeof ingestJobs.$inferSelect;
+export type IngestJobItem = typeof ingestJobItems.$inferSelect;
@@ -0,0 +1,41 @@
+import { sql } from "drizzle-orm";
+import { jsonb, pgTable, text, timestamp, uniqueIndex, uuid } from "drizzle-orm/pg-core";
+
+// per-storefront settings; anything unset falls back to the service default
+export type TenantConfig = {
+  // "see what customers said" link shown with reviews
+  reviewLink?: string | null;
+  // similarity floors per source bucket, e.g. { faq: 0.5 }
+  minSim?: Partial<Record<string, number>>;
+  // stricter floors a hit must clear for /api/answer to answer with it, e.g. { faq: 0.8 }
+  answerMinSim?: Partial<Record<string, number>>;
+  // chat model for grounded answers and query rewriting (CHAT_MODEL otherwise)
+  chatModel?: string | null;
+  // replaces the assistant's persona line; the grounding rules always follow it
+  systemPrompt?: string | null;
+  // shown when nothing in the knowledge base answers the question
+  refusalMessage?: string | null;
+};
+
+// one row per storefront; documents, chunks, chat_queries, keys and jobs all belong to one
+export const tenants = pgTable(
+  "tenants",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    // stable handle for x-tenant / ?tenant= and the admin switcher, e.g. "wimo"
+    slug: text("slug").notNull(),
+    name: text("name").notNull(),
+    config: jsonb("config").$type<TenantConfig>().notNull().default({}),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .default(sql`now()`),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .default(sql`now()`),
+  },
+  (t) => ({
+    slugIdx: uniqueIndex("tenants_slug_uq").on(t.slug),
+  }),
+);
+
+export type Tenant = typeof tenants.$inferSelect;
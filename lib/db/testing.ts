@@ -0,0 +1,47 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+
+import { PGlite } from "@electric-sql/pglite";
+import { vector } from "@electric-sql/pglite/vector";
+import { drizzle } from "drizzle-orm/pglite";
+import type { ClientBase } from "pg";
+
+import { schema, type PgDb } from "./pg";
+
+export const DEFAULT_TENANT_ID = "00000000-0000-0000-0000-000000000001";
+
+const MIGRATIONS = path.join(__dirname, "migrations");
+
+/**
+ * An in-process Postgres (PGlite with pgvector) with every migration applied,
+ * for tests. Drizzle over it behaves like the node-postgres one routes get.
+ */
+export async function createTestDb() {
+  const pg = new PGlite({ extensions: { vector } });
+  const journal = JSON.parse(readFileSync(path.join(MIGRATIONS, "meta/_journal.json"), "utf8")) as {
+    entries: { tag: string }[];
+  };
+  for (const { tag } of journal.entries) {
+    const sql = readFileSync(path.join(MIGRATIONS, `${tag}.sql`), "utf8");
+    for (const statement of sql.split("--> statement-breakpoint")) {
+      if (statement.trim()) await pg.exec(statement);
+    }
+  }
+
+  const db = drizzle(pg, { schema }) as unknown as PgDb;
+  // node-postgres result shape: PGlite says affectedRows where pg says rowCount
+  const client = {
+    async query(text: string, params?: unknown[]) {
+      const r = await pg.query(text, params);
+      return { ...r, rowCount: r.affectedRows ?? r.rows.length };
+    },
+  } as unknown as Pick<ClientBase, "query">;
+  return {
+    db,
+    pg,
+    // for code that runs raw SQL on a node-postgres client (retrieval, health, the embedding cache)
+    client,
+    withDb: <T>(fn: (db: PgDb) => Promise<T>) => fn(db),
+    close: () => pg.close(),
+  };
+}
@@ -0,0 +1,48 @@
+import { sql } from "drizzle-orm";
+import type { ClientBase } from "pg";
+
+import type { EmbeddingProvider } from "../ai/embeddings";
+import type { PgExecutor } from "./pg";
+
+// for pgvector, atttypmod is the N of vector(N)
+const COLUMN_DIMS_SQL = `
+  SELECT atttypmod AS dims
+  FROM pg_attribute
+  WHERE attrelid = 'public.document_chunks'::regclass AND attname = 'embedding'
+`;
+
+export class EmbeddingDimensionError extends Error {
+  constructor(
+    public columnDimensions: number,
+    public provider: EmbeddingProvider,
+  ) {
+    super(
+      `document_chunks.embedding is vector(${columnDimensions}) but ${provider.name} produces ` +
+        `${provider.dimensions} dimensions; run \`npm run db:reembed\` to migrate`,
+    );
+    this.name = "EmbeddingDimensionError";
+  }
+}
+
+// providers already checked against the column in this process
+const verified = new Set<string>();
+
+export async function readEmbeddingColumnDimensions(db: Pick<ClientBase, "query"> | PgExecutor) {
+  const rows =
+    "execute" in db
+      ? (await db.execute<{ dims: number }>(sql.raw(COLUMN_DIMS_SQL))).rows
+      : (await db.query<{ dims: number }>(COLUMN_DIMS_SQL)).rows;
+  const dims = Number(rows[0]?.dims);
+  return dims > 0 ? dims : null;
+}
+
+/** Fail fast (once per process) when the configured provider can't fit the vector column. */
+export async function verifyEmbeddingColumn(
+  db: Pick<ClientBase, "query"> | PgExecutor,
+  provider: EmbeddingProvider,
+) {
+  if (verified.has(provider.name)) return;
+  const dims = await readEmbeddingColumnDimensions(db);
+  if (dims != null && dims !== provider.dimensions) throw new EmbeddingDimensionError(dims, provider);
+  verified.add(provider.name);
+}
@@ -0,0 +1,139 @@
+import "dotenv/config";
+
+import { readFile, writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import pkg from "pg";
+
+import { parseRange } from "../analytics/queries";
+import { connectionConfig, withDrizzle } from "../db/pg";
+import { defaultTenantSlug, loadTenant } from "../tenants";
+import { formatGolden, parseGolden } from "./golden";
+import { diffReports, evalConfigSchema, runEval, type EvalConfig, type EvalDiff, type EvalReport } from "./index";
+import { fallbackCandidates } from "./promote";
+
+const { Client } = pkg;
+
+// npm run eval -- --golden eval/golden.jsonl [--config a.json] [--against b.json] [--k 5] [--out report.json]
+// npm run eval:promote -- --golden eval/golden.jsonl [--days 30] [--limit 50]
+// both take --tenant <slug> (DEFAULT_TENANT otherwise)
+const { values: args, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    golden: { type: "string" },
+    config: { type: "string" },
+    against: { type: "string" },
+    tenant: { type: "string" },
+    k: { type: "string" },
+    out: { type: "string" },
+    days: { type: "string" },
+    limit: { type: "string" },
+    verbose: { type: "boolean", short: "v" },
+  },
+});
+
+const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
+const signed = (n: number) => `${n >= 0 ? "+" : ""}${(n * 100).toFixed(1)}`;
+
+// promote may start a golden set from nothing
+async function readGolden(path: string, allowMissing = false) {
+  const text = await readFile(path, "utf8").catch((err) => {
+    if (allowMissing && err?.code === "ENOENT") return "";
+    throw err;
+  });
+  const { items, errors } = parseGolden(text);
+  if (errors.length) {
+    for (const e of errors) console.error(`   ${path}:${e.line} ${e.issues.join("; ")}`);
+    throw new Error(`${errors.length} invalid line(s) in ${path}`);
+  }
+  return items;
+}
+
+async function readConfig(path?: string): Promise<EvalConfig> {
+  if (!path) return evalConfigSchema.parse({});
+  const parsed = evalConfigSchema.parse(JSON.parse(await readFile(path, "utf8")));
+  // the file name is a good enough label when the config has none
+  return parsed.name === "default" ? { ...parsed, name: path } : parsed;
+}
+
+function printReport(report: EvalReport, verbose?: boolean) {
+  const s = report.summary;
+  console.log(`\n📊 ${report.config.name} — ${s.queries} queries (${s.answerable} answerable, ${s.unlabelled} unlabelled)`);
+  console.log(`   recall@${report.k}  ${pct(s.recall)}`);
+  console.log(`   MRR        ${s.mrr.toFixed(3)}`);
+  console.log(`   nDCG@${report.k}    ${s.ndcg.toFixed(3)}`);
+  console.log(`   fallback   ${pct(s.fallbackRate)} (${s.missedAnswers} answerable fell back, ${s.wrongAnswers} no-answer queries got one)`);
+
+  for (const r of report.results) {
+    const miss = r.expected.length ? r.firstRelevantRank === null : !r.fellBack;
+    if (!miss && !verbose) continue;
+    const mark = miss ? "✗" : "✓";
+    const got = r.hits.map((h) => h.externalKey ?? h.url ?? h.documentId).join(", ") || "fallback";
+    console.log(`   ${mark} ${r.query}\n       expected ${JSON.stringify(r.expected)}\n       got ${got}`);
+  }
+}
+
+function printDiff(diff: EvalDiff) {
+  console.log(`\n🔀 ${diff.a} → ${diff.b}`);
+  for (const [name, m] of Object.entries(diff.metrics)) {
+    console.log(`   ${name.padEnd(12)} ${pct(m.a)} → ${pct(m.b)} (${signed(m.delta)} pts)`);
+  }
+  if (diff.changes.length === 0) {
+    console.log("   no query changed");
+    return;
+  }
+  const rank = (n: number | null) => (n === null ? "–" : `#${n}`);
+  for (const c of diff.changes) {
+    console.log(`   ${c.change.padEnd(6)} ${rank(c.a)} → ${rank(c.b)}  ${c.query}`);
+  }
+}
+
+const runCli = async () => {
+  if (!args.golden) {
+    throw new Error("--golden <file.jsonl> is required");
+  }
+
+  const promote = positionals[0] === "promote";
+  const golden = await readGolden(args.golden, promote);
+  const client = new Client(connectionConfig());
+  await client.connect();
+
+  try {
+    const db = withDrizzle(client);
+    const slug = args.tenant || defaultTenantSlug();
+    const tenant = await loadTenant(db, { slug });
+    if (!tenant) throw new Error(`unknown tenant "${slug}"`);
+
+    if (promote) {
+      const range = parseRange({ days: args.days });
+      const added = await fallbackCandidates(db, tenant.id, range, golden, Number(args.limit) || undefined);
+      if (added.length) await writeFile(args.golden, formatGolden([...golden, ...added]));
+      console.log("✅ Promoted", added.length, "fallback questions to", args.golden, "— label their \"expected\"");
+    } else {
+      const k = Number(args.k) || undefined;
+      const ctx = { db: client, tenant };
+      const configs = [await readConfig(args.config), ...(args.against ? [await readConfig(args.against)] : [])];
+      const reports: EvalReport[] = [];
+      for (const config of configs) {
+        console.log(`⏳ Running ${config.name} for ${tenant.slug}...`);
+        reports.push(await runEval(golden, config, ctx, { k }));
+        printReport(reports[reports.length - 1], args.verbose);
+      }
+      const diff = reports.length === 2 ? diffReports(reports[0], reports[1]) : null;
+      if (diff) printDiff(diff);
+      if (args.out) {
+        await writeFile(args.out, JSON.stringify({ reports, diff }, null, 2));
+        console.log("✅ Wrote", args.out);
+      }
+    }
+  } finally {
+    await client.end();
+  }
+
+  process.exit(0);
+};
+
+runCli().catch((err) => {
+  console.error("❌ Eval failed");
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+/**
+ * One line of a golden set (JSONL). `expected` lists the documents a good
+ * answer comes from, by document id, url or externalKey:
+ *   ["faq:returns", "https://wimo.in/pages/shipping"]
+ * [] means the knowledge base has no answer and the widget should fall back;
+ * null means nobody has labelled the query yet (promoted ones start that way).
+ */
+export const goldenQuerySchema = z.object({
+  query: z.string().trim().min(1).max(1000),
+  expected: z.array(z.string().trim().min(1)).nullable().default(null),
+  notes: z.string().optional(),
+  // promoted from chat_queries: how often shoppers asked it in the window
+  asked: z.number().int().optional(),
+  from: z.string().optional(),
+});
+
+export type GoldenQuery = z.infer<typeof goldenQuerySchema>;
+export type GoldenIssue = { line: number; issues: string[] };
+
+// case and whitespace don't make two queries different
+export function normalizeQuery(q: string) {
+  return q.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+export function parseGolden(text: string): { items: GoldenQuery[]; errors: GoldenIssue[] } {
+  const items: GoldenQuery[] = [];
+  const errors: GoldenIssue[] = [];
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("//")) return;
+    let json: unknown;
+    try {
+      json = JSON.parse(line);
+    } catch {
+      errors.push({ line: i + 1, issues: ["not valid JSON"] });
+      return;
+    }
+    const parsed = goldenQuerySchema.safeParse(json);
+    if (parsed.success) items.push(parsed.data);
+    else errors.push({ line: i + 1, issues: parsed.error.issues.map((x) => `${x.path.join(".") || "line"}: ${x.message}`) });
+  });
+  return { items, errors };
+}
+
+export function formatGolden(items: GoldenQuery[]) {
+  return items.map((q) => JSON.stringify(q)).join("\n") + (items.length ? "\n" : "");
+}
@@ -0,0 +1,85 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+import { getEmbeddingProvider } from "../ai/embeddings";
+import { createTestDb, DEFAULT_TENANT_ID } from "../db/testing";
+import { ingestDocument } from "../ingest/documents";
+import { runEval, type GoldenQuery } from "./index";
+import { ndcgAtK, reciprocalRank, recallAtK } from "./metrics";
+
+describe("metrics", () => {
+  it("scores a ranking against the expected documents", () => {
+    const ranked = [false, true, false, true];
+
+    expect(recallAtK(ranked, 2, 2)).toBe(0.5);
+    expect(recallAtK(ranked, 2, 4)).toBe(1);
+    expect(recallAtK(ranked, 0, 4)).toBe(0);
+    expect(reciprocalRank(ranked)).toBe(0.5);
+    expect(reciprocalRank([false, false])).toBe(0);
+    // (1/log2(3) + 1/log2(5)) / (1 + 1/log2(3))
+    expect(ndcgAtK(ranked, 2, 4)).toBeCloseTo(0.6509, 4);
+    expect(ndcgAtK([true, true], 2, 2)).toBe(1);
+  });
+});
+
+describe("runEval", () => {
+  let testDb: Awaited<ReturnType<typeof createTestDb>>;
+  const tenant = { id: DEFAULT_TENANT_ID, config: {} };
+
+  beforeAll(async () => {
+    vi.stubEnv("EMBEDDING_PROVIDER", "fake");
+    vi.stubEnv("EMBEDDING_DIM", "1536");
+    testDb = await createTestDb();
+    const faqs = [
+      ["faq:returns", "Returns are accepted within 7 days of delivery."],
+      ["faq:shipping", "We ship across India in 3 to 5 working days."],
+      ["faq:canada", "We ship to Canada in 7 to 10 days."],
+    ];
+    for (const [externalKey, content] of faqs) {
+      await ingestDocument(testDb.withDb, getEmbeddingProvider(), { tenantId: tenant.id, content, externalKey });
+    }
+  });
+
+  afterAll(async () => {
+    await testDb.close();
+    vi.unstubAllEnvs();
+  });
+
+  it("scores each labelled query and averages over the answerable ones", async () => {
+    const golden: GoldenQuery[] = [
+      // the hash embedder finds the document with the same words, and only that one
+      { query: "Returns are accepted within 7 days of delivery.", expected: ["faq:returns"] },
+      { query: "We ship to Canada in 7 to 10 days.", expected: ["faq:shipping", "faq:canada"] },
+      { query: "how many working days do you ship across India", expected: ["faq:returns"] },
+      { query: "gift wrapping for weddings", expected: [] },
+      { query: "not labelled yet", expected: null },
+    ];
+    const report = await runEval(golden, { name: "default" }, { db: testDb.client, tenant }, { k: 3 });
+
+    const ranked = report.results.map((r) => [
+      r.hits.map((h) => h.externalKey),
+      r.firstRelevantRank,
+      r.recall,
+      r.fellBack,
+    ]);
+    expect(ranked).toEqual([
+      [["faq:returns"], 1, 1, false],
+      [["faq:canada"], 1, 0.5, false],
+      [[], null, 0, true],
+      [[], null, 0, true],
+    ]);
+    expect(report.results[1].ndcg).toBeCloseTo(1 / (1 + 1 / Math.log2(3)), 6);
+
+    const { recall, mrr, ndcg, ...counts } = report.summary;
+    expect(counts).toEqual({
+      queries: 4,
+      answerable: 3,
+      unlabelled: 1,
+      fallbackRate: 0.5,
+      missedAnswers: 1,
+      wrongAnswers: 0,
+    });
+    expect(recall).toBeCloseTo((1 + 0.5 + 0) / 3, 6);
+    expect(mrr).toBeCloseTo((1 + 1 + 0) / 3, 6);
+    expect(ndcg).toBeCloseTo((1 + report.results[1].ndcg + 0) / 3, 6);
+  });
+});
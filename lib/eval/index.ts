@@ -0,0 +1,241 @@
+import { z } from "zod";
+
+import {
+  ANSWER_SOURCES,
+  retrieve,
+  type Db,
+  type RetrievalContext,
+  type RetrievedChunk,
+} from "../retrieval";
+import type { GoldenQuery } from "./golden";
+import { mean, ndcgAtK, reciprocalRank, recallAtK } from "./metrics";
+
+export { formatGolden, normalizeQuery, parseGolden, type GoldenQuery } from "./golden";
+
+/**
+ * The knobs we tune, as a JSON file. Anything left out is what /api/answer
+ * runs with: the answer sources, 5 hits per source, the tenant's thresholds
+ * and the default fusion weights.
+ *   { "name": "faq-0.5", "minSim": { "faq": 0.5 }, "fusion": { "keyword": 0.5 } }
+ */
+export const evalConfigSchema = z
+  .object({
+    name: z.string().trim().min(1).default("default"),
+    sources: z.array(z.string().trim().min(1)).min(1).optional(),
+    k: z.number().int().min(1).max(50).optional(),
+    minSim: z.union([z.number().min(0).max(1), z.record(z.number().min(0).max(1))]).optional(),
+    fusion: z
+      .object({
+        vector: z.number().min(0),
+        keyword: z.number().min(0),
+        k: z.number().positive(),
+        feedback: z.number().min(0).max(1),
+      })
+      .partial()
+      .optional(),
+  })
+  .strict();
+
+export type EvalConfig = z.infer<typeof evalConfigSchema>;
+
+// same as the answer route's MAX_CONTEXT_CHUNKS
+const DEFAULT_K = 5;
+
+export type EvalHit = {
+  documentId: string;
+  url: string | null;
+  externalKey: string | null;
+  title: string | null;
+  source: string;
+  similarity: number | null;
+  relevant: boolean;
+};
+
+export type QueryResult = {
+  query: string;
+  expected: string[];
+  // distinct documents, best first, cut at the metric k
+  hits: EvalHit[];
+  // 1-based rank of the first expected document; null if none came back
+  firstRelevantRank: number | null;
+  recall: number;
+  reciprocalRank: number;
+  ndcg: number;
+  // nothing passed the thresholds: the widget would show the fallback
+  fellBack: boolean;
+};
+
+export type EvalSummary = {
+  // labelled queries that were run; expected: [] ones included
+  queries: number;
+  // queries with at least one expected document; recall, mrr and ndcg average over these
+  answerable: number;
+  // null-expected lines in the golden set, not run
+  unlabelled: number;
+  recall: number;
+  mrr: number;
+  ndcg: number;
+  // share of all run queries that fell back
+  fallbackRate: number;
+  // answerable queries that fell back anyway
+  missedAnswers: number;
+  // expected: [] queries that got an answer instead of the fallback
+  wrongAnswers: number;
+};
+
+export type EvalReport = {
+  config: EvalConfig;
+  k: number;
+  summary: EvalSummary;
+  results: QueryResult[];
+};
+
+// several chunks of one document count once, at the rank of its best chunk
+function distinctDocuments(hits: RetrievedChunk[]) {
+  const seen = new Set<string>();
+  return hits.filter((h) => !seen.has(h.documentId) && seen.add(h.documentId));
+}
+
+// an expected entry names a document by id, url or externalKey
+function matches(hit: Omit<EvalHit, "relevant">, expected: string[]) {
+  return expected.some((e) => e === hit.documentId || e === hit.url || e === hit.externalKey);
+}
+
+async function externalKeys(db: Db, ids: string[]) {
+  if (ids.length === 0) return new Map<string, string | null>();
+  const { rows } = await db.query<{ id: string; external_key: string | null }>(
+    "SELECT id, external_key FROM public.documents WHERE id = ANY($1::uuid[])",
+    [ids],
+  );
+  return new Map(rows.map((r) => [r.id, r.external_key]));
+}
+
+export function summarize(results: QueryResult[], unlabelled = 0): EvalSummary {
+  const answerable = results.filter((r) => r.expected.length > 0);
+  return {
+    queries: results.length,
+    answerable: answerable.length,
+    unlabelled,
+    recall: mean(answerable.map((r) => r.recall)),
+    mrr: mean(answerable.map((r) => r.reciprocalRank)),
+    ndcg: mean(answerable.map((r) => r.ndcg)),
+    fallbackRate: results.length ? results.filter((r) => r.fellBack).length / results.length : 0,
+    missedAnswers: answerable.filter((r) => r.fellBack).length,
+    wrongAnswers: results.filter((r) => r.expected.length === 0 && !r.fellBack).length,
+  };
+}
+
+/**
+ * Runs every labelled golden query through retrieve() — the ranking behind
+ * /api/search and /api/answer — with `config` applied, and scores the
+ * documents that come back against the expected ones.
+ */
+export async function runEval(
+  golden: GoldenQuery[],
+  config: EvalConfig,
+  ctx: RetrievalContext,
+  opts: { k?: number; onQuery?: (done: number, total: number) => void } = {},
+): Promise<EvalReport> {
+  const k = opts.k ?? config.k ?? DEFAULT_K;
+  const labelled = golden.filter((g): g is GoldenQuery & { expected: string[] } => g.expected !== null);
+  const results: QueryResult[] = [];
+
+  for (const [i, g] of labelled.entries()) {
+    const { hits } = await retrieve(
+      {
+        query: g.query,
+        sources: config.sources ?? ANSWER_SOURCES,
+        k: config.k ?? DEFAULT_K,
+        minSim: config.minSim,
+        fusion: config.fusion,
+      },
+      ctx,
+    );
+
+    const docs = distinctDocuments(hits).slice(0, k);
+    const keys = await externalKeys(ctx.db, docs.map((d) => d.documentId));
+    const ranked: EvalHit[] = docs.map((d) => {
+      const hit = {
+        documentId: d.documentId,
+        url: d.url,
+        externalKey: keys.get(d.documentId) ?? null,
+        title: d.title,
+        source: d.source,
+        similarity: d.similarity,
+      };
+      return { ...hit, relevant: matches(hit, g.expected) };
+    });
+
+    const relevant = ranked.map((h) => h.relevant);
+    const first = relevant.indexOf(true);
+    results.push({
+      query: g.query,
+      expected: g.expected,
+      hits: ranked,
+      firstRelevantRank: first === -1 ? null : first + 1,
+      recall: recallAtK(relevant, g.expected.length, k),
+      reciprocalRank: reciprocalRank(relevant),
+      ndcg: ndcgAtK(relevant, g.expected.length, k),
+      fellBack: hits.length === 0,
+    });
+    opts.onQuery?.(i + 1, labelled.length);
+  }
+
+  return { config, k, summary: summarize(results, golden.length - labelled.length), results };
+}
+
+export type MetricDelta = { a: number; b: number; delta: number };
+
+export type QueryChange = {
+  query: string;
+  // rank of the first expected document under each config; null = not retrieved
+  a: number | null;
+  b: number | null;
+  // answerable queries: b now finds an expected document (fixed), loses it (broken)
+  // or ranks it elsewhere (moved); expected: [] queries: b now falls back (fixed) or answers (broken)
+  change: "fixed" | "broken" | "moved";
+};
+
+export type EvalDiff = {
+  a: string;
+  b: string;
+  metrics: Record<"recall" | "mrr" | "ndcg" | "fallbackRate", MetricDelta>;
+  changes: QueryChange[];
+};
+
+function delta(a: number, b: number): MetricDelta {
+  return { a, b, delta: b - a };
+}
+
+// what changed going from report `a` to report `b` over the same golden set
+export function diffReports(a: EvalReport, b: EvalReport): EvalDiff {
+  const before = new Map(a.results.map((r) => [r.query, r]));
+  const changes: QueryChange[] = [];
+
+  for (const rb of b.results) {
+    const ra = before.get(rb.query);
+    if (!ra) continue;
+    if (rb.expected.length === 0) {
+      if (ra.fellBack !== rb.fellBack) {
+        changes.push({ query: rb.query, a: null, b: null, change: rb.fellBack ? "fixed" : "broken" });
+      }
+      continue;
+    }
+    if (ra.firstRelevantRank === rb.firstRelevantRank) continue;
+    const change =
+      ra.firstRelevantRank === null ? "fixed" : rb.firstRelevantRank === null ? "broken" : "moved";
+    changes.push({ query: rb.query, a: ra.firstRelevantRank, b: rb.firstRelevantRank, change });
+  }
+
+  return {
+    a: a.config.name,
+    b: b.config.name,
+    metrics: {
+      recall: delta(a.summary.recall, b.summary.recall),
+      mrr: delta(a.summary.mrr, b.summary.mrr),
+      ndcg: delta(a.summary.ndcg, b.summary.ndcg),
+      fallbackRate: delta(a.summary.fallbackRate, b.summary.fallbackRate),
+    },
+    changes,
+  };
+}
@@ -0,0 +1,31 @@
+// Ranking metrics over one query's ranked documents. `relevant[i]` says whether
+// the document at rank i+1 is one of the expected ones; `expected` is how many
+// expected documents there are in total. Binary relevance throughout.
+
+export function recallAtK(relevant: boolean[], expected: number, k: number) {
+  if (expected === 0) return 0;
+  return relevant.slice(0, k).filter(Boolean).length / expected;
+}
+
+// 1 / rank of the first relevant document, 0 when none was retrieved
+export function reciprocalRank(relevant: boolean[]) {
+  const i = relevant.indexOf(true);
+  return i === -1 ? 0 : 1 / (i + 1);
+}
+
+const gain = (rank: number) => 1 / Math.log2(rank + 1);
+
+// DCG of the top k, over the DCG of a perfect ranking of `expected` documents
+export function ndcgAtK(relevant: boolean[], expected: number, k: number) {
+  const ideal = Math.min(expected, k);
+  if (ideal === 0) return 0;
+  let dcg = 0;
+  relevant.slice(0, k).forEach((rel, i) => {
+    if (rel) dcg += gain(i + 1);
+  });
+  let idcg = 0;
+  for (let r = 1; r <= ideal; r++) idcg += gain(r);
+  return dcg / idcg;
+}
+
+export const mean = (xs: number[]) => (xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0);
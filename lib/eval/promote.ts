@@ -0,0 +1,23 @@
+import { frequentFallbacks, type Range } from "../analytics/queries";
+import type { PgExecutor } from "../db/pg";
+import { normalizeQuery, type GoldenQuery } from "./golden";
+
+/**
+ * Questions shoppers got the fallback for, most asked first, that aren't in
+ * the golden set yet. They come back unlabelled (expected: null): someone
+ * fills in the documents that should answer them, or [] if none should.
+ */
+export async function fallbackCandidates(
+  db: PgExecutor,
+  tenantId: string,
+  range: Range,
+  golden: GoldenQuery[],
+  limit = 50,
+): Promise<GoldenQuery[]> {
+  const known = new Set(golden.map((g) => normalizeQuery(g.query)));
+  const rows = await frequentFallbacks(db, tenantId, range);
+  return rows
+    .filter((r) => !known.has(normalizeQuery(r.text)))
+    .slice(0, limit)
+    .map((r) => ({ query: r.text, expected: null, asked: r.count, from: "chat_queries" }));
+}
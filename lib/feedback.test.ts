@@ -0,0 +1,94 @@
+import { randomUUID } from "node:crypto";
+
+import { eq, sql } from "drizzle-orm";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+import { getEmbeddingProvider } from "./ai/embeddings";
+import { chatQueries } from "./db/schema/chatQueries";
+import { documentChunks } from "./db/schema/documents";
+import { answerFeedback } from "./db/schema/feedback";
+import { createTestDb, DEFAULT_TENANT_ID } from "./db/testing";
+import { expireUnjoinedFeedback, recordFeedback } from "./feedback";
+import { ingestDocument } from "./ingest/documents";
+import { retrieve } from "./retrieval";
+
+describe("feedback only counts on logged answers", () => {
+  let testDb: Awaited<ReturnType<typeof createTestDb>>;
+  const tenant = { id: DEFAULT_TENANT_ID, config: {} };
+  const query = "do you ship to canada";
+  let shown: string;
+  let other: string;
+
+  // the row /api/answer's trace writes for an answer that showed `chunkIds`
+  const logAnswer = (interactionId: string, chunkIds: string[]) =>
+    testDb.db.insert(chatQueries).values({
+      tenantId: tenant.id,
+      interactionId,
+      queryText: query,
+      responseType: "faq",
+      origin: "server",
+      endpoint: "answer",
+      retrieved: chunkIds.map((chunkId) => ({
+        chunkId,
+        documentId: randomUUID(),
+        source: "faq",
+        fused: 1,
+        vector: 1,
+        keyword: null,
+      })),
+    });
+
+  const votesOn = async (chunkId: string) => {
+    const { hits } = await retrieve({ query, sources: ["faq"] }, { db: testDb.client, tenant });
+    return hits.find((h) => h.chunkId === chunkId)?.scores.feedback;
+  };
+
+  beforeAll(async () => {
+    vi.stubEnv("EMBEDDING_PROVIDER", "fake");
+    vi.stubEnv("EMBEDDING_DIM", "1536");
+    testDb = await createTestDb();
+    const embedder = getEmbeddingProvider();
+    const a = await ingestDocument(testDb.withDb, embedder, { tenantId: tenant.id, content: "Do you ship to Canada?" });
+    const b = await ingestDocument(testDb.withDb, embedder, { tenantId: tenant.id, content: "We ship to Canada in a week." });
+    const chunkOf = async (documentId: string) =>
+      (await testDb.db.select().from(documentChunks).where(eq(documentChunks.documentId, documentId)))[0].id;
+    shown = await chunkOf(a.documentId);
+    other = await chunkOf(b.documentId);
+  });
+
+  afterAll(async () => {
+    await testDb.close();
+    vi.unstubAllEnvs();
+  });
+
+  it("refuses a vote on a chunk the logged answer didn't show", async () => {
+    const interactionId = randomUUID();
+    await logAnswer(interactionId, [shown]);
+
+    expect(await recordFeedback(testDb.db, tenant.id, { interaction_id: interactionId, rating: "down", chunk_id: other }))
+      .toBeNull();
+    expect(await recordFeedback(testDb.db, tenant.id, { interaction_id: interactionId, rating: "up", chunk_id: shown }))
+      .not.toBeNull();
+    expect(await votesOn(shown)).toMatchObject({ up: 1, down: 0 });
+  });
+
+  it("keeps an early vote out of the ranking until its answer is logged", async () => {
+    const interactionId = randomUUID();
+    await recordFeedback(testDb.db, tenant.id, { interaction_id: interactionId, rating: "down", chunk_id: other });
+    expect(await votesOn(other)).toMatchObject({ up: 0, down: 0 });
+
+    await logAnswer(interactionId, [other]);
+    expect(await votesOn(other)).toMatchObject({ up: 0, down: 1 });
+  });
+
+  it("expires votes that never matched an answer", async () => {
+    const orphan = randomUUID();
+    await recordFeedback(testDb.db, tenant.id, { interaction_id: orphan, rating: "down", chunk_id: shown });
+    await testDb.db.update(answerFeedback).set({ createdAt: sql`now() - interval '2 hours'` });
+
+    expect(await expireUnjoinedFeedback(testDb.db)).toBe(1);
+    const left = await testDb.db.select({ interactionId: answerFeedback.interactionId }).from(answerFeedback);
+    expect(left).toHaveLength(2);
+    expect(left.map((v) => v.interactionId)).not.toContain(orphan);
+  });
+});
@@ -0,0 +1,194 @@
+import { and, desc, eq, gte, inArray, isNull, lt, notExists, or, sql } from "drizzle-orm";
+import { z } from "zod";
+
+import type { Range } from "./analytics/queries";
+import type { BucketLimit } from "./auth/limiter";
+import { withDrizzle, withPgClient, type PgDb, type PgExecutor } from "./db/pg";
+import { chatQueries } from "./db/schema/chatQueries";
+import { documentChunks, documents } from "./db/schema/documents";
+import { answerFeedback } from "./db/schema/feedback";
+
+// body of POST /api/feedback (FeedbackRequest in lib/api/v1)
+export const feedbackInputSchema = z.object({
+  interaction_id: z.string().uuid(),
+  rating: z.enum(["up", "down"]),
+  chunk_id: z.string().uuid().nullish(),
+  comment: z.string().trim().max(1000).nullish(),
+  session_id: z.string().trim().max(200).nullish(),
+});
+
+export type FeedbackInput = z.input<typeof feedbackInputSchema>;
+
+// votes per interaction (voting again on a chunk replaces the vote, but still takes a token)
+export const VOTES_PER_INTERACTION: BucketLimit = { capacity: 10, perMinute: 10 };
+
+// the interaction log is written in batches, so a vote can arrive before its
+// answer's row; one still unmatched after this long never will be
+const UNJOINED_VOTE_TTL_MS = 60 * 60 * 1000;
+const SWEEP_MS = 60 * 60 * 1000;
+const SWEEP_ROWS = 1000;
+
+let sweptAt = 0;
+
+// the server-logged answer `answerFeedback` is about, and for a chunk vote, one that showed the chunk
+const joinsLoggedAnswer = and(
+  eq(chatQueries.tenantId, answerFeedback.tenantId),
+  eq(chatQueries.interactionId, answerFeedback.interactionId),
+  isNull(chatQueries.event),
+  eq(chatQueries.origin, "server"),
+  or(isNull(answerFeedback.chunkId), sql`${chatQueries.retrieved} @> ${shownChunk(answerFeedback.chunkId)}`),
+);
+
+function shownChunk(chunkId: unknown) {
+  return sql`jsonb_build_array(jsonb_build_object('chunkId', ${chunkId}::text))`;
+}
+
+/**
+ * Stores a vote on an answer. A second vote on the same interaction and
+ * chunk replaces the first. Returns null when the chunk isn't one of the
+ * tenant's, or the logged answer didn't show it. A vote whose answer isn't
+ * logged yet is kept, but only counts once the answer row lands (see
+ * retrieval's fb CTE), and is dropped if it never does.
+ */
+export async function recordFeedback(db: PgDb, tenantId: string, input: FeedbackInput) {
+  const data = feedbackInputSchema.parse(input);
+  const chunkId = data.chunk_id ?? null;
+
+  if (chunkId) {
+    const [chunk] = await db
+      .select({ id: documentChunks.id })
+      .from(documentChunks)
+      .where(and(eq(documentChunks.id, chunkId), eq(documentChunks.tenantId, tenantId)))
+      .limit(1);
+    if (!chunk) return null;
+
+    const [logged] = await db
+      .select({ shown: sql<boolean>`${chatQueries.retrieved} @> ${shownChunk(chunkId)}` })
+      .from(chatQueries)
+      .where(
+        and(
+          eq(chatQueries.tenantId, tenantId),
+          eq(chatQueries.interactionId, data.interaction_id),
+          isNull(chatQueries.event),
+          eq(chatQueries.origin, "server"),
+        ),
+      )
+      .limit(1);
+    if (logged && !logged.shown) return null;
+  }
+
+  if (Date.now() - sweptAt >= SWEEP_MS) {
+    sweptAt = Date.now();
+    await expireUnjoinedFeedback(db);
+  }
+
+  const values = {
+    tenantId,
+    interactionId: data.interaction_id,
+    chunkId,
+    rating: data.rating === "up" ? 1 : -1,
+    comment: data.comment || null,
+    sessionId: data.session_id || null,
+  };
+  const insert = db.insert(answerFeedback).values(values);
+  const [row] = chunkId
+    ? await insert
+        .onConflictDoUpdate({
+          target: [answerFeedback.tenantId, answerFeedback.interactionId, answerFeedback.chunkId],
+          targetWhere: sql`${answerFeedback.chunkId} IS NOT NULL`,
+          set: { rating: values.rating, comment: values.comment, updatedAt: new Date() },
+        })
+        .returning()
+    : await insert.returning();
+  return row;
+}
+
+/** Deletes up to `limit` votes that never matched a logged answer; returns how many went. */
+export async function expireUnjoinedFeedback(db: PgDb, olderThanMs = UNJOINED_VOTE_TTL_MS, limit = SWEEP_ROWS) {
+  const stale = db
+    .select({ id: answerFeedback.id })
+    .from(answerFeedback)
+    .where(
+      and(
+        lt(answerFeedback.createdAt, new Date(Date.now() - olderThanMs)),
+        notExists(db.select({ one: sql`1` }).from(chatQueries).where(joinsLoggedAnswer)),
+      ),
+    )
+    .limit(limit);
+  const gone = await db
+    .delete(answerFeedback)
+    .where(inArray(answerFeedback.id, stale))
+    .returning({ id: answerFeedback.id });
+  return gone.length;
+}
+
+export type DownvotedAnswer = {
+  chunkId: string;
+  documentId: string;
+  title: string | null;
+  url: string | null;
+  content: string;
+  // the chunk has been replaced by a newer version of its document since
+  superseded: boolean;
+  up: number;
+  down: number;
+  lastVotedAt: Date;
+  // latest comments left with a downvote
+  comments: string[];
+  // questions the chunk was shown for
+  queries: string[];
+};
+
+const MAX_SAMPLES = 5;
+
+// answer chunks with the most downvotes in the range, then the worst balance
+export async function mostDownvoted(
+  db: PgExecutor,
+  tenantId: string,
+  range: Range,
+  limit = 50,
+): Promise<DownvotedAnswer[]> {
+  const up = sql<number>`count(*) FILTER (WHERE ${answerFeedback.rating} > 0)`.mapWith(Number);
+  const down = sql<number>`count(*) FILTER (WHERE ${answerFeedback.rating} < 0)`.mapWith(Number);
+  const rows = await db
+    .select({
+      chunkId: documentChunks.id,
+      documentId: documentChunks.documentId,
+      title: documents.title,
+      url: documents.url,
+      content: documentChunks.content,
+      superseded: sql<boolean>`${documentChunks.supersededAt} IS NOT NULL`,
+      up,
+      down,
+      lastVotedAt: sql<Date>`max(${answerFeedback.updatedAt})`.mapWith(answerFeedback.updatedAt),
+      comments: sql<string[]>`(array_remove(array_agg(${answerFeedback.comment} ORDER BY ${answerFeedback.updatedAt} DESC) FILTER (WHERE ${answerFeedback.rating} < 0), NULL))[1:${sql.raw(String(MAX_SAMPLES))}]`,
+      queries: sql<string[]>`(array_remove(array_agg(DISTINCT ${chatQueries.queryText}), NULL))[1:${sql.raw(String(MAX_SAMPLES))}]`,
+    })
+    .from(answerFeedback)
+    .innerJoin(documentChunks, eq(documentChunks.id, answerFeedback.chunkId))
+    .innerJoin(documents, eq(documents.id, documentChunks.documentId))
+    .leftJoin(
+      chatQueries,
+      and(
+        eq(chatQueries.tenantId, answerFeedback.tenantId),
+        eq(chatQueries.interactionId, answerFeedback.interactionId),
+        isNull(chatQueries.event),
+      ),
+    )
+    .where(
+      and(
+        eq(answerFeedback.tenantId, tenantId),
+        gte(answerFeedback.updatedAt, range.from),
+        lt(answerFeedback.updatedAt, range.to),
+      ),
+    )
+    .groupBy(documentChunks.id, documents.id)
+    .having(sql`${down} > 0`)
+    .orderBy(desc(down), desc(sql`${down} - ${up}`))
+    .limit(limit);
+  return rows.map((r) => ({ ...r, comments: r.comments ?? [], queries: r.queries ?? [] }));
+}
+
+export async function loadDownvotedAnswers(tenantId: string, range: Range, limit?: number) {
+  return withPgClient((client) => mostDownvoted(withDrizzle(client), tenantId, range, limit));
+}
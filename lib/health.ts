@@ -0,0 +1,74 @@
+import { getChatModel } from "./ai/chat";
+import { getEmbeddingProvider } from "./ai/embeddings";
+import { ConfigError, config } from "./config";
+import { withPgClient } from "./db/pg";
+import { readEmbeddingColumnDimensions } from "./db/vector";
+
+export type Check = { ok: boolean; ms: number; detail?: string; error?: string | string[] };
+
+export type Readiness = { ready: boolean; checkedAt: Date; checks: Record<string, Check> };
+
+// a check that hasn't answered by then counts as down
+const CHECK_TIMEOUT_MS = 3000;
+// /api/ping is public; don't hit the database on every call
+const CACHE_MS = 5000;
+
+async function run(fn: () => Promise<string | undefined> | string | undefined): Promise<Check> {
+  const start = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`no answer after ${CHECK_TIMEOUT_MS} ms`)), CHECK_TIMEOUT_MS);
+  });
+  try {
+    const detail = await Promise.race([Promise.resolve().then(fn), timeout]);
+    return { ok: true, ms: Date.now() - start, ...(detail ? { detail } : {}) };
+  } catch (e) {
+    const error = e instanceof ConfigError ? e.issues : String((e as Error)?.message || e);
+    return { ok: false, ms: Date.now() - start, error };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Whether this process can serve traffic: the configuration parses, the
+ * database answers and its vector column fits the embedding provider, and
+ * both model providers can be built. Nothing here calls a model API.
+ */
+async function checkReadiness(): Promise<Readiness> {
+  const configured = await run(() => {
+    config();
+    return undefined;
+  });
+  const checks: Record<string, Check> = { config: configured };
+
+  if (configured.ok) {
+    checks.database = await run(() =>
+      withPgClient(async (client) => {
+        await client.query("SELECT 1");
+        const dims = await readEmbeddingColumnDimensions(client);
+        const provider = getEmbeddingProvider();
+        if (dims != null && dims !== provider.dimensions) {
+          throw new Error(`document_chunks.embedding is vector(${dims}), ${provider.name} needs ${provider.dimensions}`);
+        }
+        return dims == null ? "no embedding column" : `vector(${dims})`;
+      }),
+    );
+    checks.embeddings = await run(() => getEmbeddingProvider().name);
+    checks.chat = await run(() => {
+      getChatModel();
+      const { provider, model } = config().chat;
+      return provider === "fake" ? "fake" : `${provider}:${model}`;
+    });
+  }
+
+  return { ready: Object.values(checks).every((c) => c.ok), checkedAt: new Date(), checks };
+}
+
+let last: { at: number; result: Promise<Readiness> } | null = null;
+
+export function readiness(): Promise<Readiness> {
+  if (last && Date.now() - last.at < CACHE_MS) return last.result;
+  last = { at: Date.now(), result: checkReadiness() };
+  return last.result;
+}
@@ -0,0 +1,144 @@
+import { z } from "zod";
+
+import type { EmbeddingProvider } from "../ai/embeddings";
+import type { WithDb } from "../db/pg";
+import { REVIEW_SOURCE } from "../reviews";
+import { chunkText } from "./chunker";
+import { chunkEmbeddingInput, chunkOptionsSchema, embeddingInputHash, reusableVectors } from "./chunks";
+import { parseCsv } from "./csv";
+import { ingestDocument } from "./documents";
+
+// documents whose chunks share one embeddings round trip
+const GROUP_SIZE = 25;
+
+const blank = (v: unknown) => (typeof v === "string" && v.trim() === "" ? undefined : v);
+
+export const batchDocumentSchema = z.object({
+  content: z.string().trim().min(1).max(200_000),
+  title: z.preprocess(blank, z.string().trim().max(300).optional()),
+  sourceBucket: z.preprocess(blank, z.string().trim().min(1).max(64).optional()),
+  // upsert key, as for /api/ingest
+  externalKey: z.preprocess(blank, z.string().trim().max(200).optional()),
+  chunking: chunkOptionsSchema,
+});
+
+export type BatchDocument = z.infer<typeof batchDocumentSchema>;
+export type BatchIssue = { index: number; issues: string[] };
+
+export function validateBatch(raw: unknown[]): { items: BatchDocument[]; errors: BatchIssue[] } {
+  const items: BatchDocument[] = [];
+  const errors: BatchIssue[] = [];
+  raw.forEach((item, index) => {
+    const parsed = batchDocumentSchema.safeParse(item);
+    if (parsed.success) items.push(parsed.data);
+    else errors.push({ index, issues: parsed.error.issues.map((i) => `${i.path.join(".") || "document"}: ${i.message}`) });
+  });
+  return { items, errors };
+}
+
+/** An uploaded .csv (content,title,sourceBucket,externalKey columns) or .jsonl (one document per line). */
+export function parseBatchFile(name: string, text: string) {
+  if (/\.csv$/i.test(name)) return validateBatch(parseCsv(text));
+
+  const raw: unknown[] = [];
+  const errors: BatchIssue[] = [];
+  text
+    .split(/\r?\n/)
+    .filter((l) => l.trim())
+    .forEach((line, index) => {
+      try {
+        raw.push(JSON.parse(line));
+      } catch {
+        errors.push({ index, issues: ["not valid JSON"] });
+        raw.push(null);
+      }
+    });
+  const result = validateBatch(raw);
+  // a line that isn't JSON shouldn't also be reported as a schema error
+  const bad = new Set(errors.map((e) => e.index));
+  return { items: result.items, errors: [...errors, ...result.errors.filter((e) => !bad.has(e.index))] };
+}
+
+// answers from `vectors` first, so documents embedded up front don't hit the API again
+export function prefilledEmbedder(base: EmbeddingProvider, vectors: Map<string, number[]>): EmbeddingProvider {
+  return {
+    name: base.name,
+    dimensions: base.dimensions,
+    async embed(texts) {
+      const missing = [...new Set(texts.filter((t) => !vectors.has(t)))];
+      if (missing.length) {
+        const fresh = await base.embed(missing);
+        missing.forEach((t, i) => vectors.set(t, fresh[i]));
+      }
+      return texts.map((t) => vectors.get(t)!);
+    },
+  };
+}
+
+export type BatchItemResult =
+  | { index: number; ok: true; documentId: string; chunks: number }
+  | { index: number; ok: false; error: string };
+
+/**
+ * Ingest documents in groups: every chunk of a group is embedded in one
+ * batched call (skipping texts we already have vectors for), then each
+ * document and its chunks is written in its own transaction, so one bad item
+ * never leaves a half-written document behind. Connections are checked out
+ * per lookup and per write, never across an embeddings call. `onItem` sees
+ * every outcome.
+ */
+export async function ingestBatch(
+  withDb: WithDb,
+  embedder: EmbeddingProvider,
+  tenantId: string,
+  items: BatchDocument[],
+  onItem?: (result: BatchItemResult) => Promise<void> | void,
+) {
+  const results: BatchItemResult[] = [];
+
+  for (let g = 0; g < items.length; g += GROUP_SIZE) {
+    const group = items.slice(g, g + GROUP_SIZE);
+
+    // reviews get their embedding input rewritten by ingestDocument; they embed on their own
+    const inputs = [
+      ...new Set(
+        group
+          .filter((d) => (d.sourceBucket || "faq") !== REVIEW_SOURCE)
+          .flatMap((d) => chunkText(d.content, d.chunking).map(chunkEmbeddingInput)),
+      ),
+    ];
+    const vectors = new Map<string, number[]>();
+    try {
+      const stored = await withDb((db) => reusableVectors(db, embedder, inputs.map(embeddingInputHash)));
+      const toEmbed = inputs.filter((t) => !stored.has(embeddingInputHash(t)));
+      const fresh = await embedder.embed(toEmbed);
+      toEmbed.forEach((t, i) => vectors.set(t, fresh[i]));
+    } catch (e) {
+      // fall back to embedding per document, so failures are reported per item
+      console.error("[ingest-batch] group embedding failed", e);
+    }
+    const groupEmbedder = prefilledEmbedder(embedder, vectors);
+
+    for (const [j, doc] of group.entries()) {
+      const index = g + j;
+      let result: BatchItemResult;
+      try {
+        const r = await ingestDocument(withDb, groupEmbedder, {
+          tenantId,
+          content: doc.content,
+          title: doc.title,
+          sourceBucket: doc.sourceBucket,
+          externalKey: doc.externalKey,
+          chunking: doc.chunking,
+        });
+        result = { index, ok: true, documentId: r.documentId, chunks: r.chunks.length };
+      } catch (e: any) {
+        result = { index, ok: false, error: String(e?.message || e) };
+      }
+      results.push(result);
+      await onItem?.(result);
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+
+import { chunkText, type TextChunk } from "./chunker";
+import { parseChunkOptions } from "./chunks";
+
+// every chunk is exactly the slice of the source its offsets say it is
+function expectOffsets(text: string, chunks: TextChunk[]) {
+  chunks.forEach((c, i) => {
+    expect(c.index).toBe(i);
+    expect(text.slice(c.start, c.end)).toBe(c.content);
+  });
+}
+
+describe("chunkText", () => {
+  it("splits on headings and keeps the heading trail", () => {
+    const text = "Intro line.\n\n# Shipping\nWe ship worldwide.\n\n## Canada\nFive days.\n\n# Returns\nWithin 7 days.";
+    const chunks = chunkText(text);
+
+    expectOffsets(text, chunks);
+    expect(chunks.map((c) => [c.start, c.end, c.headingPath])).toEqual([
+      [0, 11, []],
+      [13, 42, ["Shipping"]],
+      [44, 64, ["Shipping", "Canada"]],
+      [66, 90, ["Returns"]],
+    ]);
+    expect(chunks[2].content).toBe("## Canada\nFive days.");
+  });
+
+  it("packs paragraphs up to maxTokens", () => {
+    const text = ["a".repeat(120), "b".repeat(120), "c".repeat(120)].join("\n\n");
+    const chunks = chunkText(text, { strategy: "paragraph", maxTokens: 70 });
+
+    expectOffsets(text, chunks);
+    expect(chunks.map((c) => [c.start, c.end])).toEqual([
+      [0, 242],
+      [244, 364],
+    ]);
+    expect(chunks.every((c) => c.headingPath.length === 0)).toBe(true);
+  });
+
+  it("cuts token windows on word boundaries with overlap", () => {
+    const text = Array.from({ length: 60 }, (_, i) => `w${String(i).padStart(2, "0")}`).join(" ");
+    const chunks = chunkText(text, { strategy: "tokens", maxTokens: 50, overlapTokens: 10 });
+
+    expectOffsets(text, chunks);
+    expect(chunks.map((c) => [c.start, c.end])).toEqual([
+      [0, 199],
+      [160, 239],
+    ]);
+    expect(chunks[0].content.endsWith("w49")).toBe(true);
+    // the second window repeats the last ten words of the first
+    expect(chunks[1].content.startsWith("w40")).toBe(true);
+  });
+});
+
+describe("parseChunkOptions", () => {
+  it("treats absent options as the defaults", () => {
+    expect(parseChunkOptions(undefined)).toMatchObject({ success: true, data: undefined });
+    expect(parseChunkOptions(null)).toMatchObject({ success: true, data: undefined });
+    expect(parseChunkOptions({ strategy: "tokens", maxTokens: 200, overlapTokens: 20 })).toMatchObject({
+      success: true,
+      data: { strategy: "tokens", maxTokens: 200, overlapTokens: 20 },
+    });
+  });
+
+  it("rejects what it can't chunk with", () => {
+    for (const raw of [
+      { maxTokens: 120.5 },
+      { maxTokens: 10 },
+      { maxTokens: 5000 },
+      { overlapTokens: -1 },
+      { maxTokens: 100, overlapTokens: 100 },
+      // against the default maxTokens of 400
+      { overlapTokens: 400 },
+      { strategy: "sentences" },
+      { maxTokens: "300" },
+      { maxToken: 300 },
+      "heading",
+    ]) {
+      expect(parseChunkOptions(raw).success, JSON.stringify(raw)).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,175 @@
+export type ChunkStrategy = "heading" | "paragraph" | "tokens";
+
+export type ChunkOptions = {
+  strategy?: ChunkStrategy;
+  maxTokens?: number;
+  overlapTokens?: number;
+};
+
+export type TextChunk = {
+  index: number;
+  content: string;
+  // character offsets into the source text, end exclusive
+  start: number;
+  end: number;
+  headingPath: string[];
+};
+
+type Span = { start: number; end: number };
+
+export const DEFAULT_CHUNK_OPTIONS: Required<ChunkOptions> = {
+  strategy: "heading",
+  maxTokens: 400,
+  overlapTokens: 50,
+};
+
+// rough but tokenizer-free: English prose averages ~4 chars per token
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+const HEADING_RE = /^(#{1,6})[ \t]+(.+?)[ \t#]*$/gm;
+
+// shrink a span so it doesn't start/end on whitespace
+function trimSpan(text: string, s: Span): Span | null {
+  let { start, end } = s;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return end > start ? { start, end } : null;
+}
+
+function splitOn(text: string, s: Span, re: RegExp): Span[] {
+  const out: Span[] = [];
+  const body = text.slice(s.start, s.end);
+  const sep = new RegExp(re.source, "g");
+  let last = 0;
+  for (const m of body.matchAll(sep)) {
+    out.push({ start: s.start + last, end: s.start + m.index! });
+    last = m.index! + m[0].length;
+  }
+  out.push({ start: s.start + last, end: s.end });
+  return out.map((x) => trimSpan(text, x)).filter((x): x is Span => !!x);
+}
+
+function tokenWindows(text: string, s: Span, maxTokens: number, overlapTokens: number): Span[] {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const overlapChars = Math.min(overlapTokens * CHARS_PER_TOKEN, Math.floor(maxChars / 2));
+  const out: Span[] = [];
+
+  let pos = s.start;
+  while (pos < s.end) {
+    let stop = Math.min(s.end, pos + maxChars);
+    if (stop < s.end) {
+      // back off to the last whitespace, as long as we keep at least half a window
+      const ws = text.lastIndexOf(" ", stop);
+      const nl = text.lastIndexOf("\n", stop);
+      const cut = Math.max(ws, nl);
+      if (cut > pos + maxChars / 2) stop = cut;
+    }
+    const span = trimSpan(text, { start: pos, end: stop });
+    if (span) out.push(span);
+    if (stop >= s.end) break;
+
+    let next = Math.max(pos + 1, stop - overlapChars);
+    // start the overlap on a word boundary
+    while (next < stop && !/\s/.test(text[next - 1])) next++;
+    pos = next;
+  }
+  return out;
+}
+
+// paragraphs → lines → token windows, until every piece fits
+function fitPieces(text: string, s: Span, opts: Required<ChunkOptions>): Span[] {
+  const fits = (x: Span) => estimateTokens(text.slice(x.start, x.end)) <= opts.maxTokens;
+  const out: Span[] = [];
+  for (const para of splitOn(text, s, /\n[ \t]*\n/)) {
+    if (fits(para)) {
+      out.push(para);
+      continue;
+    }
+    for (const line of splitOn(text, para, /\n/)) {
+      if (fits(line)) out.push(line);
+      else out.push(...tokenWindows(text, line, opts.maxTokens, opts.overlapTokens));
+    }
+  }
+  return out;
+}
+
+const isHeadingLine = (s: string) => /^#{1,6}[ \t]+\S[^\n]*$/.test(s);
+
+// merge neighbouring small pieces back together up to maxTokens;
+// a lone heading line always sticks to whatever follows it
+function pack(text: string, pieces: Span[], maxTokens: number): Span[] {
+  const out: Span[] = [];
+  for (const p of pieces) {
+    const prev = out[out.length - 1];
+    const fits = () => estimateTokens(text.slice(prev.start, p.end)) <= maxTokens;
+    if (prev && p.start >= prev.end && (isHeadingLine(text.slice(prev.start, prev.end)) || fits())) {
+      prev.end = p.end;
+    } else {
+      out.push({ ...p });
+    }
+  }
+  return out;
+}
+
+type Section = Span & { headingPath: string[] };
+
+function sections(text: string): Section[] {
+  const heads = [...text.matchAll(HEADING_RE)].map((m) => ({
+    at: m.index!,
+    level: m[1].length,
+    title: m[2].trim(),
+  }));
+  if (heads.length === 0) return [{ start: 0, end: text.length, headingPath: [] }];
+
+  const out: Section[] = [];
+  if (heads[0].at > 0) out.push({ start: 0, end: heads[0].at, headingPath: [] });
+
+  const stack: { level: number; title: string }[] = [];
+  heads.forEach((h, i) => {
+    while (stack.length && stack[stack.length - 1].level >= h.level) stack.pop();
+    stack.push(h);
+    const end = i + 1 < heads.length ? heads[i + 1].at : text.length;
+    // a heading followed directly by a sub-heading has no body of its own
+    const bodyStart = text.indexOf("\n", h.at);
+    if (bodyStart === -1 || !text.slice(bodyStart, end).trim()) return;
+    out.push({ start: h.at, end, headingPath: stack.map((x) => x.title) });
+  });
+  return out;
+}
+
+export function chunkText(text: string, options: ChunkOptions = {}): TextChunk[] {
+  const opts = { ...DEFAULT_CHUNK_OPTIONS, ...options };
+  const whole: Span = { start: 0, end: text.length };
+  let parts: { span: Span; headingPath: string[] }[];
+
+  if (opts.strategy === "tokens") {
+    parts = tokenWindows(text, whole, opts.maxTokens, opts.overlapTokens).map((span) => ({
+      span,
+      headingPath: [],
+    }));
+  } else if (opts.strategy === "paragraph") {
+    parts = pack(text, fitPieces(text, whole, opts), opts.maxTokens).map((span) => ({
+      span,
+      headingPath: [],
+    }));
+  } else {
+    parts = sections(text).flatMap((sec) =>
+      pack(text, fitPieces(text, sec, opts), opts.maxTokens).map((span) => ({
+        span,
+        headingPath: sec.headingPath,
+      })),
+    );
+  }
+
+  return parts.map(({ span, headingPath }, index) => ({
+    index,
+    content: text.slice(span.start, span.end),
+    start: span.start,
+    end: span.end,
+    headingPath,
+  }));
+}
@@ -0,0 +1,158 @@
+import { createHash } from "node:crypto";
+import { and, eq, inArray, isNotNull, isNull, sql } from "drizzle-orm";
+import { z } from "zod";
+
+import type { EmbeddingProvider } from "../ai/embeddings";
+import type { PgExecutor, WithDb } from "../db/pg";
+import { documentChunks, documents } from "../db/schema/documents";
+import { verifyEmbeddingColumn } from "../db/vector";
+import { chunkText, DEFAULT_CHUNK_OPTIONS, type ChunkOptions, type TextChunk } from "./chunker";
+
+// what we actually send to the embedder: heading trail first, for context
+export function chunkEmbeddingInput(c: Pick<TextChunk, "content" | "headingPath">) {
+  return c.headingPath.length ? `${c.headingPath.join(" > ")}\n${c.content}` : c.content;
+}
+
+// where chunks of an uploaded file came from; pages are located by char offset
+export type ChunkSource = { file: string; pageStarts?: number[] | null };
+
+// 1-based page containing `offset`, given where each page starts
+function pageAt(pageStarts: number[], offset: number) {
+  let page = 0;
+  while (page + 1 < pageStarts.length && pageStarts[page + 1] <= offset) page++;
+  return page + 1;
+}
+
+export function embeddingInputHash(input: string) {
+  return createHash("sha256").update(input).digest("hex");
+}
+
+// stored vectors for inputs this provider has embedded before, by content hash
+export async function reusableVectors(db: PgExecutor, embedder: EmbeddingProvider, hashes: string[]) {
+  const known = new Map<string, number[]>();
+  if (hashes.length === 0) return known;
+  const rows = await db
+    .selectDistinctOn([documentChunks.contentHash], {
+      hash: documentChunks.contentHash,
+      embedding: documentChunks.embedding,
+    })
+    .from(documentChunks)
+    .where(
+      and(
+        eq(documentChunks.embeddingModel, embedder.name),
+        inArray(documentChunks.contentHash, hashes),
+        isNotNull(documentChunks.embedding),
+      ),
+    );
+  for (const r of rows) if (r.hash && r.embedding) known.set(r.hash, r.embedding);
+  return known;
+}
+
+// chunks cut and embedded ahead of the transaction that writes them
+export type EmbeddedChunks = {
+  chunks: TextChunk[];
+  // embedding input hash per chunk, in order
+  hashes: string[];
+  vectors: Map<string, number[]>;
+  model: string;
+};
+
+/**
+ * Chunk `text` and embed, in one batched call, the chunks we have no vector
+ * for (identical chunks across pages, versions and re-crawls reuse theirs).
+ * A connection is held only to look up stored vectors, not during the
+ * embeddings call: a slow API must neither keep a transaction open (see
+ * idle_in_transaction_session_timeout in lib/db/pg) nor starve the pool.
+ */
+export async function embedChunks(
+  withDb: WithDb,
+  embedder: EmbeddingProvider,
+  text: string,
+  options?: ChunkOptions,
+  toEmbeddingInput: (c: TextChunk) => string = chunkEmbeddingInput,
+): Promise<EmbeddedChunks> {
+  const chunks = chunkText(text, options);
+  const embedded = { chunks, hashes: [] as string[], vectors: new Map<string, number[]>(), model: embedder.name };
+  if (chunks.length === 0) return embedded;
+
+  const inputs = chunks.map(toEmbeddingInput);
+  embedded.hashes = inputs.map(embeddingInputHash);
+  embedded.vectors = await withDb(async (db) => {
+    await verifyEmbeddingColumn(db, embedder);
+    return reusableVectors(db, embedder, embedded.hashes);
+  });
+
+  const missing = [...new Set(embedded.hashes.filter((h) => !embedded.vectors.has(h)))];
+  if (missing.length) {
+    const fresh = await embedder.embed(missing.map((h) => inputs[embedded.hashes.indexOf(h)]));
+    missing.forEach((h, i) => embedded.vectors.set(h, fresh[i]));
+  }
+  return embedded;
+}
+
+async function insertChunks(db: PgExecutor, documentId: string, embedded: EmbeddedChunks, source?: ChunkSource) {
+  const { chunks, hashes, vectors, model } = embedded;
+  if (chunks.length === 0) return chunks;
+
+  await db.insert(documentChunks).values(
+    chunks.map((c, i) => ({
+      documentId,
+      // chunks belong to the document's tenant, at whatever version the row is at now
+      tenantId: sql`(select ${documents.tenantId} from ${documents} where ${documents.id} = ${documentId})`,
+      version: sql`(select ${documents.version} from ${documents} where ${documents.id} = ${documentId})`,
+      chunkIndex: c.index,
+      content: c.content,
+      embedding: vectors.get(hashes[i]),
+      embeddingModel: model,
+      contentHash: hashes[i],
+      charStart: c.start,
+      charEnd: c.end,
+      headingPath: c.headingPath,
+      sourceFile: source?.file ?? null,
+      page: source?.pageStarts?.length ? pageAt(source.pageStarts, c.start) : null,
+    })),
+  );
+  return chunks;
+}
+
+/** Insert the rows for `documentId` from chunks embedded up front (embedChunks). Callers own the transaction. */
+export async function writeChunks(db: PgExecutor, documentId: string, embedded: EmbeddedChunks, source?: ChunkSource) {
+  return insertChunks(db, documentId, embedded, source);
+}
+
+/**
+ * Like writeChunks, but marks the document's current chunks superseded first
+ * (they stay for version history). Bump documents.version before calling so
+ * the new rows don't collide.
+ */
+export async function replaceChunks(
+  db: PgExecutor,
+  documentId: string,
+  embedded: EmbeddedChunks,
+  source?: ChunkSource,
+) {
+  await db
+    .update(documentChunks)
+    .set({ supersededAt: new Date() })
+    .where(and(eq(documentChunks.documentId, documentId), isNull(documentChunks.supersededAt)));
+  return insertChunks(db, documentId, embedded, source);
+}
+
+// { strategy, maxTokens, overlapTokens } from a request body; absent or null means the defaults
+export const chunkOptionsSchema = z
+  .object({
+    strategy: z.enum(["heading", "paragraph", "tokens"]).optional(),
+    maxTokens: z.number().int().min(50).max(2000).optional(),
+    overlapTokens: z.number().int().min(0).optional(),
+  })
+  .strict()
+  .refine((o) => (o.overlapTokens ?? 0) < (o.maxTokens ?? DEFAULT_CHUNK_OPTIONS.maxTokens), {
+    message: "overlapTokens must be less than maxTokens",
+    path: ["overlapTokens"],
+  })
+  .nullish()
+  .transform((o): ChunkOptions | undefined => o ?? undefined);
+
+export function parseChunkOptions(raw: unknown) {
+  return chunkOptionsSchema.safeParse(raw);
+}
@@ -0,0 +1,47 @@
+/**
+ * Minimal RFC 4180 reader: quoted fields, doubled quotes, embedded newlines,
+ * CRLF or LF. First row is the header; returns one object per data row.
+ */
+export function parseCsv(input: string): Record<string, string>[] {
+  const text = input.replace(/^\uFEFF/, "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...data] = rows.filter((r) => r.some((c) => c.trim() !== ""));
+  if (!header) return [];
+  const keys = header.map((h) => h.trim());
+  return data.map((r) => Object.fromEntries(keys.map((k, i) => [k, r[i] ?? ""])));
+}
@@ -0,0 +1,135 @@
+import { eq } from "drizzle-orm";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { createHashEmbeddingProvider, type EmbeddingProvider } from "../ai/embeddings";
+import type { WithDb } from "../db/pg";
+import { documentChunks } from "../db/schema/documents";
+import { createTestDb, DEFAULT_TENANT_ID } from "../db/testing";
+import { reviewRecordSchema } from "../reviews";
+import { ingestDocument, replaceDocumentContent } from "./documents";
+import { ingestReviews } from "./reviews";
+
+describe("ingest embeds before the transaction", () => {
+  let testDb: Awaited<ReturnType<typeof createTestDb>>;
+  // "embed" and "begin" in the order they happened
+  const events: string[] = [];
+  const inner = createHashEmbeddingProvider({ dimensions: 1536 });
+  const embedder: EmbeddingProvider = {
+    ...inner,
+    async embed(texts) {
+      events.push("embed");
+      return inner.embed(texts);
+    },
+  };
+  const tenantId = DEFAULT_TENANT_ID;
+
+  beforeAll(async () => {
+    testDb = await createTestDb();
+    const transaction = testDb.db.transaction.bind(testDb.db);
+    testDb.db.transaction = (fn, config) => {
+      events.push("begin");
+      return transaction(fn, config);
+    };
+  });
+
+  afterAll(async () => {
+    await testDb.close();
+  });
+
+  it("creates, revises and replaces with the embeddings call outside", async () => {
+    events.length = 0;
+    const created = await ingestDocument(testDb.withDb, embedder, {
+      tenantId,
+      content: "Returns are accepted within 7 days.",
+      externalKey: "returns",
+    });
+    expect(created.status).toBe("created");
+    expect(events).toEqual(["embed", "begin"]);
+
+    events.length = 0;
+    const updated = await ingestDocument(testDb.withDb, embedder, {
+      tenantId,
+      content: "Returns are accepted within 10 days.",
+      externalKey: "returns",
+    });
+    expect(updated).toMatchObject({ status: "updated", version: 2 });
+    expect(events).toEqual(["embed", "begin"]);
+
+    events.length = 0;
+    const replaced = await replaceDocumentContent(testDb.withDb, embedder, created.documentId, {
+      tenantId,
+      content: "Returns are accepted within 14 days.",
+    });
+    expect(replaced?.version).toBe(3);
+    expect(events).toEqual(["embed", "begin"]);
+
+    const current = await testDb.db
+      .select()
+      .from(documentChunks)
+      .where(eq(documentChunks.documentId, created.documentId));
+    expect(current.filter((c) => !c.supersededAt).map((c) => c.content)).toEqual([
+      "Returns are accepted within 14 days.",
+    ]);
+  });
+
+  it("re-ingesting known text reuses stored vectors", async () => {
+    events.length = 0;
+    const r = await ingestDocument(testDb.withDb, embedder, {
+      tenantId,
+      content: "Returns are accepted within 14 days.",
+      externalKey: "returns",
+    });
+    expect(r.status).toBe("unchanged");
+    expect(events).toEqual(["begin"]);
+  });
+
+  it("writes nothing when embedding fails", async () => {
+    const failing: EmbeddingProvider = {
+      ...embedder,
+      async embed() {
+        throw new Error("embeddings API down");
+      },
+    };
+    events.length = 0;
+    await expect(
+      ingestDocument(testDb.withDb, failing, { tenantId, content: "Gift wrapping is free.", externalKey: "gift" }),
+    ).rejects.toThrow("embeddings API down");
+    expect(events).toEqual([]);
+  });
+
+  it("holds no connection while the embeddings API is called", async () => {
+    let held = 0;
+    const heldDuringEmbed: number[] = [];
+    const countingDb: WithDb = async (fn) => {
+      held++;
+      try {
+        return await fn(testDb.db);
+      } finally {
+        held--;
+      }
+    };
+    const watching: EmbeddingProvider = {
+      ...inner,
+      async embed(texts) {
+        heldDuringEmbed.push(held);
+        return inner.embed(texts);
+      },
+    };
+
+    const { documentId } = await ingestDocument(countingDb, watching, { tenantId, content: "Exchanges take 5 days." });
+    await replaceDocumentContent(countingDb, watching, documentId, { tenantId, content: "Exchanges take 3 days." });
+    await ingestReviews(countingDb, watching, tenantId, [reviewRecordSchema.parse({ text: "Quick delivery." })]);
+    expect(heldDuringEmbed).toEqual([0, 0, 0]);
+  });
+
+  it("embeds review imports up front too", async () => {
+    events.length = 0;
+    const records = [
+      { text: "Lovely fabric, fits well.", rating: 5 },
+      { text: "Arrived late.", rating: 2 },
+    ].map((r) => reviewRecordSchema.parse(r));
+    const r = await ingestReviews(testDb.withDb, embedder, tenantId, records);
+    expect(r.inserted).toHaveLength(2);
+    expect(events).toEqual(["embed", "begin"]);
+  });
+});
@@ -0,0 +1,266 @@
+import { and, desc, eq, isNull, sql } from "drizzle-orm";
+import { v4 as uuidv4 } from "uuid";
+
+import type { EmbeddingProvider } from "../ai/embeddings";
+import type { PgDb, PgExecutor, WithDb } from "../db/pg";
+import {
+  documents,
+  documentVersions,
+  type Document,
+  type DocumentMeta,
+} from "../db/schema/documents";
+import {
+  REVIEW_SOURCE,
+  reviewEmbeddingText,
+  reviewFromLegacyText,
+  reviewTextHash,
+  toReviewMeta,
+} from "../reviews";
+import type { ChunkOptions, TextChunk } from "./chunker";
+import { embedChunks, replaceChunks, writeChunks, type ChunkSource, type EmbeddedChunks } from "./chunks";
+import type { ExtractedFile } from "./files";
+
+export type IngestInput = {
+  // the storefront the document belongs to; upsert keys are unique per tenant
+  tenantId: string;
+  content: string;
+  sourceBucket?: string;
+  title?: string | null;
+  chunking?: ChunkOptions;
+  // caller's stable id; turns the insert into an upsert
+  externalKey?: string | null;
+  // uploaded file `content` was extracted from; chunks record its name and page
+  file?: Pick<ExtractedFile, "name" | "kind" | "bytes" | "pageStarts">;
+};
+
+// reviews embed only the customer's words, not the Reviewer:/Rating: lines
+export function embeddingInputFor(sourceBucket: string) {
+  return sourceBucket === REVIEW_SOURCE
+    ? (c: { content: string }) => reviewEmbeddingText(c.content)
+    : undefined;
+}
+
+export type IngestStatus = "created" | "updated" | "unchanged" | "restored";
+
+// reviews posted as text blobs get typed meta here; bulk imports use ingestReviews
+function prepareContent(sourceBucket: string, raw: string, file?: IngestInput["file"]) {
+  const meta: DocumentMeta = { source: sourceBucket };
+  if (file) {
+    meta.file = { name: file.name, kind: file.kind, bytes: file.bytes, pages: file.pageStarts?.length ?? null };
+  }
+  if (sourceBucket !== REVIEW_SOURCE) return { content: raw, meta };
+  const record = reviewFromLegacyText(raw);
+  meta.review = toReviewMeta(record);
+  return { content: record.text, meta };
+}
+
+type CurrentDocument = Pick<Document, "id" | "version" | "title" | "content" | "meta" | "updatedAt">;
+
+/**
+ * Write a new version of a stored document: archive the current one to
+ * document_versions, bump documents.version and supersede its chunks with
+ * `next.chunks`, embedded before the transaction. Also un-deletes. Callers
+ * own the transaction.
+ */
+export async function reviseDocument(
+  tx: PgExecutor,
+  current: CurrentDocument,
+  next: {
+    content: string;
+    title: string | null;
+    meta: DocumentMeta;
+    chunks: EmbeddedChunks;
+    source?: ChunkSource;
+  },
+) {
+  const version = current.version + 1;
+  await tx.insert(documentVersions).values({
+    documentId: current.id,
+    version: current.version,
+    title: current.title,
+    content: current.content,
+    meta: current.meta,
+    createdAt: current.updatedAt,
+  });
+  await tx
+    .update(documents)
+    .set({
+      title: next.title,
+      content: next.content,
+      meta: next.meta,
+      version,
+      deletedAt: null,
+      updatedAt: new Date(),
+    })
+    .where(eq(documents.id, current.id));
+
+  const chunks = await replaceChunks(tx, current.id, next.chunks, next.source);
+  return { documentId: current.id, version, chunks };
+}
+
+/**
+ * Insert a content-only document (faq://, review://) and its chunks in one
+ * transaction, embedded before it opens with no connection held (see
+ * embedChunks). With an `externalKey` this is an
+ * upsert: the document stored under that key gets a new version instead (or
+ * is left alone when nothing changed), and a soft-deleted one comes back.
+ */
+export async function ingestDocument(withDb: WithDb, embedder: EmbeddingProvider, input: IngestInput) {
+  const sourceBucket = input.sourceBucket || "faq";
+  const externalKey = input.externalKey || null;
+  const { content, meta } = prepareContent(sourceBucket, input.content, input.file);
+  const title = input.title ?? null;
+  const source = input.file ? { file: input.file.name, pageStarts: input.file.pageStarts } : undefined;
+  // unchanged content finds its stored vectors, so this costs no API call
+  const embedded = await embedChunks(withDb, embedder, content, input.chunking, embeddingInputFor(sourceBucket));
+
+  return withDb((db) =>
+    db.transaction(async (tx) => {
+      if (externalKey) {
+        // two upserts of the same new key would both miss the select below
+        await tx.execute(
+          sql`select pg_advisory_xact_lock(hashtext(${`ingest-doc:${input.tenantId}:${externalKey}`}))`,
+        );
+        const [existing] = await tx
+          .select()
+          .from(documents)
+          .where(and(eq(documents.tenantId, input.tenantId), eq(documents.externalKey, externalKey)))
+          .for("update");
+
+        if (existing) {
+          const same =
+            !existing.deletedAt &&
+            existing.content === content &&
+            existing.title === title &&
+            (existing.meta.source || "faq") === sourceBucket;
+          if (same) {
+            return {
+              documentId: existing.id,
+              sourceBucket,
+              version: existing.version,
+              status: "unchanged" as IngestStatus,
+              chunks: [] as TextChunk[],
+            };
+          }
+          const r = await reviseDocument(tx, existing, {
+            content,
+            title,
+            meta: { ...existing.meta, ...meta },
+            chunks: embedded,
+            source,
+          });
+          const status: IngestStatus = existing.deletedAt ? "restored" : "updated";
+          return { ...r, sourceBucket, status };
+        }
+      }
+
+      const docId = uuidv4();
+      await tx.insert(documents).values({
+        id: docId,
+        tenantId: input.tenantId,
+        // no real url, so store a synthetic one
+        url: input.file
+          ? `file://${docId}/${encodeURIComponent(input.file.name)}`
+          : sourceBucket === REVIEW_SOURCE
+            ? `review://${docId}`
+            : `faq://${docId}`,
+        title,
+        content,
+        meta,
+        externalKey,
+      });
+      const chunks = await writeChunks(tx, docId, embedded, source);
+      return { documentId: docId, sourceBucket, version: 1, status: "created" as IngestStatus, chunks };
+    }),
+  );
+}
+
+/** Swap a document's content and re-chunk it, as a new version; embeds first, then writes atomically. */
+export async function replaceDocumentContent(
+  withDb: WithDb,
+  embedder: EmbeddingProvider,
+  documentId: string,
+  input: Omit<IngestInput, "sourceBucket" | "externalKey" | "file">,
+) {
+  const byId = and(eq(documents.tenantId, input.tenantId), eq(documents.id, documentId));
+  // the source bucket decides the embedding input
+  const [found] = await withDb((db) => db.select({ meta: documents.meta }).from(documents).where(byId).limit(1));
+  if (!found) return null;
+  const embedded = await embedChunks(
+    withDb,
+    embedder,
+    input.content,
+    input.chunking,
+    embeddingInputFor(found.meta.source || "faq"),
+  );
+
+  return withDb((db) =>
+    db.transaction(async (tx) => {
+      const [doc] = await tx.select().from(documents).where(byId).for("update");
+      if (!doc) return null;
+
+      // edited review text needs a fresh dedup hash
+      const review = doc.meta.review;
+      const meta: DocumentMeta = review
+        ? {
+            ...doc.meta,
+            review: { ...review, textHash: reviewTextHash({ reviewer: review.reviewer ?? undefined, text: input.content }) },
+          }
+        : doc.meta;
+
+      return reviseDocument(tx, doc, {
+        content: input.content,
+        title: input.title ?? null,
+        meta,
+        chunks: embedded,
+        // edited text no longer lines up with the file's pages; keep the name only
+        source: doc.meta.file ? { file: doc.meta.file.name } : undefined,
+      });
+    }),
+  );
+}
+
+export type DocumentRef = { id: string } | { externalKey: string };
+
+// ids are global, but a tenant only ever sees its own documents
+function refFilter(tenantId: string, ref: DocumentRef) {
+  return and(
+    eq(documents.tenantId, tenantId),
+    "id" in ref ? eq(documents.id, ref.id) : eq(documents.externalKey, ref.externalKey),
+  );
+}
+
+/** A document (deleted or not) with its archived versions, newest first. */
+export async function getDocumentVersions(db: PgDb, tenantId: string, ref: DocumentRef) {
+  const [doc] = await db.select().from(documents).where(refFilter(tenantId, ref)).limit(1);
+  if (!doc) return null;
+  const versions = await db
+    .select()
+    .from(documentVersions)
+    .where(eq(documentVersions.documentId, doc.id))
+    .orderBy(desc(documentVersions.version));
+  return { document: doc, versions };
+}
+
+/**
+ * Soft delete hides the document from retrieval but keeps it, its chunks and
+ * its versions (an upsert with the same key brings it back); hard delete
+ * removes all of it. Returns the id, or null when nothing matched.
+ */
+export async function deleteDocument(
+  db: PgDb,
+  tenantId: string,
+  ref: DocumentRef,
+  opts: { hard?: boolean } = {},
+) {
+  if (opts.hard) {
+    const [row] = await db.delete(documents).where(refFilter(tenantId, ref)).returning({ id: documents.id });
+    return row?.id ?? null;
+  }
+  const [row] = await db
+    .update(documents)
+    .set({ deletedAt: new Date(), updatedAt: new Date() })
+    .where(and(refFilter(tenantId, ref), isNull(documents.deletedAt)))
+    .returning({ id: documents.id });
+  return row?.id ?? null;
+}
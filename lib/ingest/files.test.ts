@@ -0,0 +1,111 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+
+import { asc, eq } from "drizzle-orm";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+import { getEmbeddingProvider } from "../ai/embeddings";
+import { documentChunks, documents } from "../db/schema/documents";
+import { createTestDb, DEFAULT_TENANT_ID } from "../db/testing";
+import { retrieve } from "../retrieval";
+import { ingestDocument } from "./documents";
+import { extractFile, FileExtractionError, fileKind } from "./files";
+
+const fixture = (name: string) => readFileSync(join(__dirname, "fixtures", name));
+
+describe("extractFile", () => {
+  it("reads a PDF's headings, lines and page starts", async () => {
+    const file = await extractFile("size-guide.pdf", "application/pdf", fixture("size-guide.pdf"));
+
+    expect(file).toMatchObject({ kind: "pdf", title: "Size Guide", bytes: 1223 });
+    expect(file.text).toBe(
+      "# Size Guide\nSarees come in one size, 5.5 metres long.\nBlouses are stitched to the bust size you pick.\n\n" +
+        "Measure the bust at the fullest point.\nBetween two sizes, pick the larger one.",
+    );
+    expect(file.pageStarts).toEqual([0, file.text.indexOf("Measure")]);
+  });
+
+  it("reads a Word document's headings and tables", async () => {
+    const file = await extractFile("fabric-care.docx", null, fixture("fabric-care.docx"));
+
+    expect(file).toMatchObject({ kind: "docx", title: "Fabric Care", pageStarts: null });
+    expect(file.text).toBe(
+      "# Fabric Care\nStore sarees folded in muslin, away from sunlight.\n" +
+        "Fabric | Care\nSilk | Dry clean only\nCotton | Cold hand wash",
+    );
+  });
+
+  it("takes a Markdown title from its front matter and drops the rest of it", async () => {
+    const file = await extractFile("shipping.md", "text/plain", fixture("shipping.md"));
+
+    expect(file).toMatchObject({ kind: "markdown", title: "Shipping FAQ" });
+    expect(file.text).toBe(
+      "# Shipping\n\nWe ship across India in 3 to 5 working days.\n\n## International\n\nOrders to Canada take 7 to 10 days.",
+    );
+  });
+
+  it("keeps an HTML page's main content only", async () => {
+    const file = await extractFile("returns.html", "text/html", fixture("returns.html"));
+
+    expect(file).toMatchObject({ kind: "html", title: "Returns Policy" });
+    expect(file.text).toBe(
+      "# Returns\nReturns are accepted within 7 days of delivery.\n## Refunds\nRefunds reach your account in 5 working days.",
+    );
+  });
+
+  it("refuses files it can't read", async () => {
+    expect(fileKind("notes.MD", "application/octet-stream")).toBe("markdown");
+    await expect(extractFile("photo.png", "image/png", Buffer.from("png"))).rejects.toThrow(/unsupported file type/);
+    await expect(extractFile("broken.pdf", null, Buffer.from("not a pdf"))).rejects.toBeInstanceOf(
+      FileExtractionError,
+    );
+    await expect(extractFile("empty.md", null, Buffer.from("\n\n"))).rejects.toThrow(/no text found/);
+  });
+});
+
+describe("uploaded file chunks", () => {
+  let testDb: Awaited<ReturnType<typeof createTestDb>>;
+  const tenant = { id: DEFAULT_TENANT_ID, config: {} };
+
+  beforeAll(async () => {
+    vi.stubEnv("EMBEDDING_PROVIDER", "fake");
+    vi.stubEnv("EMBEDDING_DIM", "1536");
+    testDb = await createTestDb();
+  });
+
+  afterAll(async () => {
+    await testDb.close();
+    vi.unstubAllEnvs();
+  });
+
+  it("record the file and page they came from, and cite them", async () => {
+    const file = await extractFile("size-guide.pdf", "application/pdf", fixture("size-guide.pdf"));
+    const { documentId } = await ingestDocument(testDb.withDb, getEmbeddingProvider(), {
+      tenantId: tenant.id,
+      content: file.text,
+      title: file.title,
+      // one paragraph per chunk, so each page gets its own
+      chunking: { strategy: "paragraph", maxTokens: 30 },
+      file,
+    });
+
+    const [doc] = await testDb.db.select().from(documents).where(eq(documents.id, documentId));
+    expect(doc.meta.file).toEqual({ name: "size-guide.pdf", kind: "pdf", bytes: 1223, pages: 2 });
+    const chunks = await testDb.db
+      .select({ content: documentChunks.content, sourceFile: documentChunks.sourceFile, page: documentChunks.page })
+      .from(documentChunks)
+      .where(eq(documentChunks.documentId, documentId))
+      .orderBy(asc(documentChunks.chunkIndex));
+    expect(chunks.map((c) => [c.sourceFile, c.page])).toEqual([
+      ["size-guide.pdf", 1],
+      ["size-guide.pdf", 2],
+    ]);
+    expect(chunks[1].content).toMatch(/^Measure the bust/);
+
+    const { hits } = await retrieve({ query: "Measure the bust at the fullest point.", sources: ["faq"] }, {
+      db: testDb.client,
+      tenant,
+    });
+    expect(hits[0]).toMatchObject({ file: { name: "size-guide.pdf", page: 2 }, citation: "Size Guide, p.2" });
+  });
+});
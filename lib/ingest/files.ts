@@ -0,0 +1,207 @@
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+
+import { extractReadable } from "../crawl/extract";
+
+export type FileKind = "pdf" | "docx" | "markdown" | "html" | "text";
+
+export type ExtractedFile = {
+  name: string;
+  kind: FileKind;
+  bytes: number;
+  title: string | null;
+  // markdown-style text: "#" headings, table rows as "cell | cell"
+  text: string;
+  // offset in `text` where each page starts (PDF only)
+  pageStarts: number[] | null;
+};
+
+export class FileExtractionError extends Error {
+  constructor(
+    public fileName: string,
+    message: string,
+  ) {
+    super(`${fileName}: ${message}`);
+    this.name = "FileExtractionError";
+  }
+}
+
+const EXTENSIONS: Record<string, FileKind> = {
+  pdf: "pdf",
+  docx: "docx",
+  md: "markdown",
+  markdown: "markdown",
+  html: "html",
+  htm: "html",
+  txt: "text",
+};
+
+const MIME_TYPES: Record<string, FileKind> = {
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "text/markdown": "markdown",
+  "text/x-markdown": "markdown",
+  "text/html": "html",
+  "text/plain": "text",
+};
+
+// extension first: browsers send .md as text/plain or application/octet-stream
+export function fileKind(name: string, type?: string | null): FileKind | null {
+  const ext = name.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  return (ext && EXTENSIONS[ext]) || MIME_TYPES[(type || "").split(";")[0].trim()] || null;
+}
+
+const decode = (data: Buffer) => data.toString("utf8").replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+
+const firstHeading = (text: string) => text.match(/^#{1,6}[ \t]+(.+?)[ \t#]*$/m)?.[1].trim() || null;
+
+// "size-guide_v2.pdf" → "size guide v2"
+const titleFromName = (name: string) =>
+  name
+    .replace(/\.[^.]+$/, "")
+    .replace(/[-_]+/g, " ")
+    .trim() || name;
+
+function extractMarkdown(raw: string) {
+  // YAML front matter carries a title at most; the rest is config
+  const fm = raw.match(/^---\n([\s\S]*?)\n---\n?/);
+  const text = fm ? raw.slice(fm[0].length) : raw;
+  const fmTitle = fm?.[1].match(/^title:\s*["']?(.+?)["']?\s*$/m)?.[1] ?? null;
+  return { title: fmTitle || firstHeading(text), text: text.trim() };
+}
+
+async function extractDocx(data: Buffer) {
+  const mammoth = await import("mammoth");
+  // Word heading styles come out as <h1>…<h6>, tables as <table>
+  const { value } = await mammoth.convertToHtml({ buffer: data });
+  const { text } = extractReadable(`<html><body>${value}</body></html>`);
+  return { title: firstHeading(text), text };
+}
+
+type PdfLine = { text: string; size: number };
+
+// group a page's text items into lines; wide gaps inside a line are table columns
+function pdfLines(items: TextItem[]) {
+  const lines: PdfLine[] = [];
+  let cur: PdfLine | null = null;
+  let lastX = 0;
+  let lastY = 0;
+
+  for (const it of items) {
+    const x = it.transform[4];
+    const y = it.transform[5];
+    const size = it.height || Math.abs(it.transform[3]) || 0;
+    if (cur && Math.abs(y - lastY) > Math.max(size, cur.size) / 2) {
+      lines.push(cur);
+      cur = null;
+    }
+    // pdf.js bridges gaps with whitespace items; measure the gap itself instead
+    if (it.str.trim()) {
+      if (!cur) {
+        cur = { text: it.str, size };
+      } else {
+        const gap = x - lastX;
+        const em = Math.max(size, cur.size, 1);
+        const sep = gap > em * 2 ? " | " : gap > em * 0.15 && !/\s$/.test(cur.text) ? " " : "";
+        cur.text += sep + it.str;
+        cur.size = Math.max(cur.size, size);
+      }
+      lastX = x + it.width;
+      lastY = y;
+    }
+    if (it.hasEOL && cur) {
+      lines.push(cur);
+      cur = null;
+    }
+  }
+  if (cur) lines.push(cur);
+  return lines
+    .map((l) => ({ ...l, text: l.text.replace(/\s+/g, " ").trim() }))
+    .filter((l) => l.text);
+}
+
+// the size most of the text is set in, weighted by characters
+function bodySize(lines: PdfLine[]) {
+  const chars = new Map<number, number>();
+  for (const l of lines) {
+    const k = Math.round(l.size);
+    chars.set(k, (chars.get(k) ?? 0) + l.text.length);
+  }
+  return [...chars.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+}
+
+async function extractPdf(data: Buffer) {
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  const doc = await pdfjs.getDocument({
+    data: new Uint8Array(data),
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+    // we only read text; don't warn about fonts we never render
+    verbosity: 0,
+  }).promise;
+
+  try {
+    const pages: PdfLine[][] = [];
+    for (let n = 1; n <= doc.numPages; n++) {
+      const page = await doc.getPage(n);
+      const content = await page.getTextContent();
+      // the rest are marked-content markers, which carry no text
+      pages.push(pdfLines(content.items.filter((it): it is TextItem => "str" in it)));
+      page.cleanup();
+    }
+
+    // noticeably larger, short lines are headings; that's all the structure a PDF keeps
+    const body = bodySize(pages.flat());
+    const render = (l: PdfLine) => {
+      const ratio = body ? l.size / body : 1;
+      if (l.text.length > 120 || ratio < 1.15) return l.text;
+      return `${ratio >= 1.5 ? "#" : "##"} ${l.text}`;
+    };
+
+    let text = "";
+    const pageStarts: number[] = [];
+    for (const lines of pages) {
+      if (text) text += "\n\n";
+      pageStarts.push(text.length);
+      text += lines.map(render).join("\n");
+    }
+
+    const info = (await doc.getMetadata().catch(() => null))?.info as { Title?: string } | undefined;
+    return { title: info?.Title?.trim() || firstHeading(text), text, pageStarts };
+  } finally {
+    await doc.destroy();
+  }
+}
+
+/**
+ * Pull plain, chunker-friendly text out of an uploaded file. Headings become
+ * "#" lines (so chunks get heading paths), tables become "cell | cell" rows,
+ * and PDFs keep where each page starts so chunks can cite their page.
+ */
+export async function extractFile(name: string, type: string | null, data: Buffer): Promise<ExtractedFile> {
+  const kind = fileKind(name, type);
+  if (!kind) throw new FileExtractionError(name, "unsupported file type (pdf, docx, md, html, txt)");
+
+  let out: { title: string | null; text: string; pageStarts?: number[] };
+  try {
+    if (kind === "pdf") out = await extractPdf(data);
+    else if (kind === "docx") out = await extractDocx(data);
+    else if (kind === "html") out = extractReadable(decode(data));
+    else if (kind === "markdown") out = extractMarkdown(decode(data));
+    else out = { title: null, text: decode(data).trim() };
+  } catch (e: any) {
+    throw new FileExtractionError(name, `could not read ${kind}: ${String(e?.message || e)}`);
+  }
+
+  if (!out.text.trim()) {
+    throw new FileExtractionError(name, kind === "pdf" ? "no text layer (scanned PDF?)" : "no text found");
+  }
+  return {
+    name,
+    kind,
+    bytes: data.length,
+    title: out.title || titleFromName(name),
+    text: out.text,
+    pageStarts: out.pageStarts ?? null,
+  };
+}
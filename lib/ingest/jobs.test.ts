@@ -0,0 +1,120 @@
+import { and, eq } from "drizzle-orm";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { createHashEmbeddingProvider, type EmbeddingProvider } from "../ai/embeddings";
+import type { WithDb } from "../db/pg";
+import { ingestJobItems, ingestJobs } from "../db/schema/ingestJobs";
+import { createTestDb, DEFAULT_TENANT_ID } from "../db/testing";
+import { abandonedIngestJobs, createIngestJob, getIngestJob, runIngestJob } from "./jobs";
+
+describe("ingest jobs", () => {
+  let testDb: Awaited<ReturnType<typeof createTestDb>>;
+  const embedder = createHashEmbeddingProvider({ dimensions: 1536 });
+  const docs = [
+    { content: "Returns are accepted within 7 days.", externalKey: "returns" },
+    { content: "We ship across India.", externalKey: "shipping" },
+  ];
+
+  const job = (id: string) => getIngestJob(testDb.db, DEFAULT_TENANT_ID, id);
+  // what a runner that died mid-job leaves behind
+  const interrupt = (id: string, heartbeatAt: Date, attempts = 1) =>
+    testDb.db.update(ingestJobs).set({ status: "running", heartbeatAt, attempts }).where(eq(ingestJobs.id, id));
+
+  beforeAll(async () => {
+    testDb = await createTestDb();
+  });
+
+  afterAll(async () => {
+    await testDb.close();
+  });
+
+  it("runs a job from the documents stored with it", async () => {
+    const id = await createIngestJob(testDb.db, DEFAULT_TENANT_ID, docs);
+    expect(await runIngestJob(testDb.withDb, embedder, id)).toBe(true);
+
+    const done = await job(id);
+    expect(done).toMatchObject({ status: "completed", succeeded: 2, failed: 0, pending: 0, attempts: 1 });
+    const payloads = await testDb.db.select({ payload: ingestJobItems.payload }).from(ingestJobItems);
+    expect(payloads.every((p) => p.payload === null)).toBe(true);
+    // finished jobs can't be claimed again
+    expect(await runIngestJob(testDb.withDb, embedder, id)).toBe(false);
+  });
+
+  it("resumes the pending items of a job whose runner went quiet", async () => {
+    const id = await createIngestJob(testDb.db, DEFAULT_TENANT_ID, [...docs, { content: "Gift wrap is free." }]);
+    await interrupt(id, new Date(Date.now() - 10 * 60 * 1000));
+    await testDb.db
+      .update(ingestJobItems)
+      .set({ status: "done", payload: null })
+      .where(and(eq(ingestJobItems.jobId, id), eq(ingestJobItems.itemIndex, 0)));
+
+    expect(await abandonedIngestJobs(testDb.db)).toEqual([id]);
+    expect(await runIngestJob(testDb.withDb, embedder, id)).toBe(true);
+    const resumed = await job(id);
+    expect(resumed).toMatchObject({ status: "completed", succeeded: 2, pending: 0, attempts: 2 });
+    expect(resumed!.items.map((i) => i.status)).toEqual(["done", "done", "done"]);
+    expect(await abandonedIngestJobs(testDb.db)).toEqual([]);
+  });
+
+  it("leaves a job with a live runner alone", async () => {
+    const id = await createIngestJob(testDb.db, DEFAULT_TENANT_ID, docs);
+    await interrupt(id, new Date());
+
+    expect(await abandonedIngestJobs(testDb.db)).toEqual([]);
+    expect(await runIngestJob(testDb.withDb, embedder, id)).toBe(false);
+    expect((await job(id))?.status).toBe("running");
+  });
+
+  it("fails a job that keeps getting interrupted", async () => {
+    const id = await createIngestJob(testDb.db, DEFAULT_TENANT_ID, docs);
+    await interrupt(id, new Date(0), 3);
+
+    expect(await runIngestJob(testDb.withDb, embedder, id)).toBe(true);
+    expect(await job(id)).toMatchObject({ status: "failed", error: "interrupted 3 times, giving up", pending: 2 });
+  });
+
+  it("fails items whose document wasn't stored", async () => {
+    const id = await createIngestJob(testDb.db, DEFAULT_TENANT_ID, docs);
+    await testDb.db
+      .update(ingestJobItems)
+      .set({ payload: null })
+      .where(and(eq(ingestJobItems.jobId, id), eq(ingestJobItems.itemIndex, 1)));
+
+    await runIngestJob(testDb.withDb, embedder, id);
+    const result = await job(id);
+    expect(result).toMatchObject({ status: "completed", succeeded: 1, failed: 1 });
+    expect(result!.items[1].error).toMatch(/not stored/);
+  });
+
+  it("checks a connection out per write, none while embedding", async () => {
+    let held = 0;
+    let checkouts = 0;
+    const heldDuringEmbed: number[] = [];
+    const countingDb: WithDb = async (fn) => {
+      held++;
+      checkouts++;
+      try {
+        return await fn(testDb.db);
+      } finally {
+        held--;
+      }
+    };
+    const watching: EmbeddingProvider = {
+      ...embedder,
+      async embed(texts) {
+        heldDuringEmbed.push(held);
+        return embedder.embed(texts);
+      },
+    };
+
+    const id = await createIngestJob(testDb.db, DEFAULT_TENANT_ID, [
+      { content: "Gift cards never expire." },
+      { content: "Exchanges take 3 days." },
+    ]);
+    expect(await runIngestJob(countingDb, watching, id)).toBe(true);
+    expect(heldDuringEmbed.length).toBeGreaterThan(0);
+    expect(heldDuringEmbed.every((n) => n === 0)).toBe(true);
+    expect(checkouts).toBeGreaterThan(4);
+    expect((await job(id))?.status).toBe("completed");
+  });
+});
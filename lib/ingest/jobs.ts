@@ -0,0 +1,219 @@
+import { and, asc, eq, isNull, lt, or, sql } from "drizzle-orm";
+
+import { getEmbeddingProvider, type EmbeddingProvider } from "../ai/embeddings";
+import { withDb as pooledDb, type PgDb, type WithDb } from "../db/pg";
+import { ingestJobItems, ingestJobs } from "../db/schema/ingestJobs";
+import { batchDocumentSchema, ingestBatch, type BatchDocument, type BatchItemResult } from "./batch";
+
+/*
+ * Batch jobs live in the database, submitted documents included, so any
+ * process can finish one. The request that created a job runs it; a worker
+ * (started from instrumentation.ts) picks up jobs whose runner went quiet,
+ * e.g. after a restart or deploy, and gives up on ones that keep dying.
+ */
+
+// a running job that hasn't recorded an item for this long lost its runner
+const STALE_MS = 5 * 60 * 1000;
+// a queued job its request never started (it died first)
+const QUEUED_GRACE_MS = 60 * 1000;
+// claims before a job that keeps getting interrupted is failed
+const MAX_ATTEMPTS = 3;
+const WORKER_INTERVAL_MS = 60 * 1000;
+
+export async function createIngestJob(db: PgDb, tenantId: string, items: BatchDocument[]) {
+  return db.transaction(async (tx) => {
+    const [job] = await tx
+      .insert(ingestJobs)
+      .values({ tenantId, total: items.length })
+      .returning({ id: ingestJobs.id });
+    // keep each insert well under the 65k bind-parameter limit
+    for (let i = 0; i < items.length; i += 1000) {
+      await tx.insert(ingestJobItems).values(
+        items.slice(i, i + 1000).map((d, j) => ({
+          jobId: job.id,
+          itemIndex: i + j,
+          title: d.title ?? d.content.slice(0, 80),
+          payload: d,
+        })),
+      );
+    }
+    return job.id;
+  });
+}
+
+const ago = (ms: number) => sql`now() - ${ms} * interval '1 millisecond'`;
+
+// queued, or running with a silent runner; the update is the lock, so only one process wins
+async function claimJob(db: PgDb, jobId: string) {
+  const [job] = await db
+    .update(ingestJobs)
+    .set({
+      status: "running",
+      startedAt: sql`coalesce(${ingestJobs.startedAt}, now())`,
+      heartbeatAt: sql`now()`,
+      attempts: sql`${ingestJobs.attempts} + 1`,
+    })
+    .where(
+      and(
+        eq(ingestJobs.id, jobId),
+        or(
+          eq(ingestJobs.status, "queued"),
+          and(
+            eq(ingestJobs.status, "running"),
+            or(isNull(ingestJobs.heartbeatAt), lt(ingestJobs.heartbeatAt, ago(STALE_MS))),
+          ),
+        ),
+      ),
+    )
+    .returning({ tenantId: ingestJobs.tenantId, attempts: ingestJobs.attempts });
+  return job ?? null;
+}
+
+/**
+ * Claim a job and process its pending items, recording every outcome as it
+ * lands. Connections are checked out per query and per document write, so a
+ * long job holds none while it waits on the embeddings API. Returns false
+ * when the job is finished or another runner holds it.
+ * An item that was stored but not yet marked done when a runner died is
+ * ingested again on resume (an upsert for items with an externalKey).
+ */
+export async function runIngestJob(withDb: WithDb, embedder: EmbeddingProvider, jobId: string) {
+  const job = await withDb((db) => claimJob(db, jobId));
+  if (!job) return false;
+
+  // `r.index` is the position in this run; `itemIndex` the one in the job
+  const record = (itemIndex: number, r: BatchItemResult) =>
+    withDb(async (db) => {
+      await db
+        .update(ingestJobItems)
+        .set(
+          r.ok
+            ? { status: "done", documentId: r.documentId, chunks: r.chunks, payload: null, updatedAt: new Date() }
+            : { status: "error", error: r.error, updatedAt: new Date() },
+        )
+        .where(and(eq(ingestJobItems.jobId, jobId), eq(ingestJobItems.itemIndex, itemIndex)));
+      await db
+        .update(ingestJobs)
+        .set({
+          ...(r.ok ? { succeeded: sql`${ingestJobs.succeeded} + 1` } : { failed: sql`${ingestJobs.failed} + 1` }),
+          heartbeatAt: new Date(),
+        })
+        .where(eq(ingestJobs.id, jobId));
+    });
+
+  try {
+    if (job.attempts > MAX_ATTEMPTS) throw new Error(`interrupted ${MAX_ATTEMPTS} times, giving up`);
+
+    const pending = await withDb((db) =>
+      db
+        .select({ itemIndex: ingestJobItems.itemIndex, payload: ingestJobItems.payload })
+        .from(ingestJobItems)
+        .where(and(eq(ingestJobItems.jobId, jobId), eq(ingestJobItems.status, "pending")))
+        .orderBy(asc(ingestJobItems.itemIndex)),
+    );
+
+    const runnable: { itemIndex: number; doc: BatchDocument }[] = [];
+    for (const p of pending) {
+      const parsed = batchDocumentSchema.safeParse(p.payload);
+      if (parsed.success) runnable.push({ itemIndex: p.itemIndex, doc: parsed.data });
+      // jobs from before payloads were stored can't be resumed
+      else {
+        await record(p.itemIndex, {
+          index: p.itemIndex,
+          ok: false,
+          error: "document was not stored with the job; submit it again",
+        });
+      }
+    }
+
+    await ingestBatch(
+      withDb,
+      embedder,
+      job.tenantId,
+      runnable.map((r) => r.doc),
+      (r) => record(runnable[r.index].itemIndex, r),
+    );
+    await withDb((db) =>
+      db.update(ingestJobs).set({ status: "completed", finishedAt: new Date() }).where(eq(ingestJobs.id, jobId)),
+    );
+  } catch (e: any) {
+    console.error(`[ingest-job ${jobId}] failed`, e);
+    await withDb((db) =>
+      db
+        .update(ingestJobs)
+        .set({ status: "failed", error: String(e?.message || e), finishedAt: new Date() })
+        .where(eq(ingestJobs.id, jobId)),
+    );
+  }
+  return true;
+}
+
+// jobs no live runner is working on: never started, or gone quiet
+export async function abandonedIngestJobs(db: PgDb) {
+  const rows = await db
+    .select({ id: ingestJobs.id })
+    .from(ingestJobs)
+    .where(
+      or(
+        and(eq(ingestJobs.status, "queued"), lt(ingestJobs.createdAt, ago(QUEUED_GRACE_MS))),
+        and(
+          eq(ingestJobs.status, "running"),
+          or(isNull(ingestJobs.heartbeatAt), lt(ingestJobs.heartbeatAt, ago(STALE_MS))),
+        ),
+      ),
+    )
+    .orderBy(asc(ingestJobs.createdAt))
+    .limit(10);
+  return rows.map((r) => r.id);
+}
+
+let worker: ReturnType<typeof setInterval> | null = null;
+
+/** Every minute, finish abandoned jobs one at a time. */
+export function startIngestWorker(intervalMs = WORKER_INTERVAL_MS) {
+  if (worker) return;
+  let busy = false;
+  const tick = async () => {
+    if (busy) return;
+    busy = true;
+    try {
+      for (const jobId of await pooledDb(abandonedIngestJobs)) {
+        console.log(`[ingest-job ${jobId}] resuming`);
+        await runIngestJob(pooledDb, getEmbeddingProvider(), jobId);
+      }
+    } catch (e) {
+      console.error("[ingest-worker] tick failed", e);
+    } finally {
+      busy = false;
+    }
+  };
+  worker = setInterval(() => void tick(), intervalMs);
+  // the worker shouldn't keep a process alive
+  worker.unref?.();
+}
+
+export async function getIngestJob(db: PgDb, tenantId: string, jobId: string) {
+  const [job] = await db
+    .select()
+    .from(ingestJobs)
+    .where(and(eq(ingestJobs.tenantId, tenantId), eq(ingestJobs.id, jobId)))
+    .limit(1);
+  if (!job) return null;
+
+  const items = await db
+    .select({
+      index: ingestJobItems.itemIndex,
+      title: ingestJobItems.title,
+      status: ingestJobItems.status,
+      documentId: ingestJobItems.documentId,
+      chunks: ingestJobItems.chunks,
+      error: ingestJobItems.error,
+      updatedAt: ingestJobItems.updatedAt,
+    })
+    .from(ingestJobItems)
+    .where(eq(ingestJobItems.jobId, jobId))
+    .orderBy(asc(ingestJobItems.itemIndex));
+
+  const pending = items.filter((i) => i.status === "pending").length;
+  return { ...job, pending, progress: job.total ? (job.total - pending) / job.total : 1, items };
+}
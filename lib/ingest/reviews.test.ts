@@ -0,0 +1,120 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { createHashEmbeddingProvider, type EmbeddingProvider } from "../ai/embeddings";
+import { documents } from "../db/schema/documents";
+import { createTestDb, DEFAULT_TENANT_ID } from "../db/testing";
+import { ingestReviews, parseReviewsCsv, validateReviews } from "./reviews";
+
+describe("parseReviewsCsv", () => {
+  it("reads quoted fields and common column names", () => {
+    const csv = [
+      "review_id,author,stars,date,review,url",
+      '7,Asha,5,2024-03-05,"Fits well, lovely ""silk"" feel",https://g.page/r/7',
+      "8,Ravi,,,Arrived late,",
+    ].join("\r\n");
+    const { records, errors } = parseReviewsCsv(csv);
+
+    expect(errors).toEqual([]);
+    expect(records).toEqual([
+      {
+        platform: "google",
+        platformReviewId: "7",
+        reviewer: "Asha",
+        rating: 5,
+        date: "2024-03-05",
+        text: 'Fits well, lovely "silk" feel',
+        sourceUrl: "https://g.page/r/7",
+      },
+      { platform: "google", platformReviewId: "8", reviewer: "Ravi", text: "Arrived late" },
+    ]);
+  });
+
+  it("reports each bad row by index", () => {
+    const csv = ["author,stars,review", "Asha,6,Great", "Ravi,4,", "Mina,3,Fine"].join("\n");
+    const { records, errors } = parseReviewsCsv(csv);
+
+    expect(records).toHaveLength(1);
+    expect(errors).toEqual([
+      { index: 0, issues: [expect.stringMatching(/^rating: /)] },
+      { index: 1, issues: [expect.stringMatching(/^text: /)] },
+    ]);
+  });
+});
+
+describe("validateReviews", () => {
+  it("normalises dates to the UTC day", () => {
+    const { records } = validateReviews([
+      { text: "a", date: "2024-03-05" },
+      { text: "b", date: "2024-03-05T22:30:00-05:00" },
+      { text: "c", date: 1709596800000 },
+    ]);
+    expect(records.map((r) => r.date)).toEqual(["2024-03-05", "2024-03-06", "2024-03-05"]);
+  });
+
+  it("rejects records that aren't objects or have unusable fields", () => {
+    const { records, errors } = validateReviews([
+      "just text",
+      { text: "ok", date: "someday" },
+      { text: "ok", sourceUrl: "not a url" },
+      { comment: "aliases count", platform: "Trustpilot" },
+    ]);
+    expect(errors.map((e) => e.index)).toEqual([0, 1, 2]);
+    expect(errors[1].issues).toEqual([expect.stringMatching(/^date: /)]);
+    expect(records).toEqual([{ platform: "trustpilot", text: "aliases count" }]);
+  });
+});
+
+describe("ingestReviews", () => {
+  let testDb: Awaited<ReturnType<typeof createTestDb>>;
+  const embedded: string[] = [];
+  const inner = createHashEmbeddingProvider({ dimensions: 1536 });
+  const embedder: EmbeddingProvider = {
+    ...inner,
+    async embed(texts) {
+      embedded.push(...texts);
+      return inner.embed(texts);
+    },
+  };
+  const tenantId = DEFAULT_TENANT_ID;
+
+  beforeAll(async () => {
+    testDb = await createTestDb();
+  });
+
+  afterAll(async () => {
+    await testDb.close();
+  });
+
+  it("skips duplicates in the batch and on re-import, embedding only new reviews", async () => {
+    const { records } = validateReviews([
+      { id: "g-1", author: "Asha", text: "Lovely fabric, fits well." },
+      // same words, different case and punctuation
+      { author: "asha", text: "lovely fabric fits well!" },
+      { id: "g-2", author: "Ravi", text: "Arrived late." },
+    ]);
+
+    const first = await ingestReviews(testDb.withDb, embedder, tenantId, records);
+    expect(first.inserted.map((r) => r.index)).toEqual([0, 2]);
+    expect(first.duplicates).toEqual([{ index: 1, reason: "text-hash", sameBatchIndex: 0 }]);
+    expect(embedded).toEqual(["Lovely fabric, fits well.", "Arrived late."]);
+
+    // the same export again, plus an edited review under a known id and one new review
+    embedded.length = 0;
+    const again = validateReviews([
+      ...records,
+      { id: "g-2", author: "Ravi", text: "Arrived late, but well packed." },
+      { author: "Mina", text: "Colour as pictured." },
+    ]).records;
+    const second = await ingestReviews(testDb.withDb, embedder, tenantId, again);
+
+    expect(second.inserted.map((r) => r.index)).toEqual([4]);
+    expect(second.duplicates).toEqual([
+      { index: 0, reason: "platform-id", documentId: first.inserted[0].documentId },
+      { index: 1, reason: "text-hash", documentId: first.inserted[0].documentId },
+      { index: 2, reason: "platform-id", documentId: first.inserted[1].documentId },
+      { index: 3, reason: "platform-id", documentId: first.inserted[1].documentId },
+    ]);
+    expect(embedded).toEqual(["Colour as pictured."]);
+    expect(await testDb.db.select().from(documents)).toHaveLength(3);
+  });
+});
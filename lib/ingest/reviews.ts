@@ -0,0 +1,187 @@
+import { and, eq, inArray, or, sql } from "drizzle-orm";
+import { v4 as uuidv4 } from "uuid";
+
+import type { EmbeddingProvider } from "../ai/embeddings";
+import type { PgExecutor, WithDb } from "../db/pg";
+import { documentChunks, documents, type ReviewMeta } from "../db/schema/documents";
+import { verifyEmbeddingColumn } from "../db/vector";
+import {
+  REVIEW_SOURCE,
+  normalizeReviewFields,
+  reviewRecordSchema,
+  toReviewMeta,
+  type ReviewRecord,
+} from "../reviews";
+import { embeddingInputHash, reusableVectors } from "./chunks";
+import { parseCsv } from "./csv";
+
+// rows per embeddings call / insert statement
+const BATCH_SIZE = 100;
+
+export type ReviewIssue = { index: number; issues: string[] };
+
+export type ReviewDuplicate = {
+  index: number;
+  reason: "platform-id" | "text-hash";
+  // the stored review it matched, or the earlier record in this batch
+  documentId?: string;
+  sameBatchIndex?: number;
+};
+
+export type ReviewIngestResult = {
+  inserted: { index: number; documentId: string }[];
+  duplicates: ReviewDuplicate[];
+};
+
+/** Validate raw records (JSON objects or CSV rows); any bad row fails the import. */
+export function validateReviews(raw: unknown[]): { records: ReviewRecord[]; errors: ReviewIssue[] } {
+  const records: ReviewRecord[] = [];
+  const errors: ReviewIssue[] = [];
+  raw.forEach((item, index) => {
+    const input = item && typeof item === "object" ? normalizeReviewFields(item as Record<string, unknown>) : item;
+    const parsed = reviewRecordSchema.safeParse(input);
+    if (parsed.success) records.push(parsed.data);
+    else errors.push({ index, issues: parsed.error.issues.map((i) => `${i.path.join(".") || "record"}: ${i.message}`) });
+  });
+  return { records, errors };
+}
+
+export function parseReviewsCsv(text: string) {
+  return validateReviews(parseCsv(text));
+}
+
+const platformKey = (m: Pick<ReviewMeta, "platform" | "platformReviewId">) =>
+  m.platformReviewId ? `${m.platform}:${m.platformReviewId}` : null;
+
+// which records are already stored for the tenant, or repeat an earlier record of the batch
+async function findDuplicates(db: PgExecutor, tenantId: string, metas: ReviewMeta[]) {
+  const keys = metas.map(platformKey).filter((k): k is string => !!k);
+  const hashes = metas.map((m) => m.textHash);
+  const keyExpr = sql<string>`(${documents.meta}->'review'->>'platform') || ':' || (${documents.meta}->'review'->>'platformReviewId')`;
+  const hashExpr = sql<string>`${documents.meta}->'review'->>'textHash'`;
+
+  const existing = metas.length
+    ? await db
+        .select({ id: documents.id, key: keyExpr, hash: hashExpr })
+        .from(documents)
+        .where(
+          and(
+            eq(documents.tenantId, tenantId),
+            sql`${documents.meta}->>'source' = ${REVIEW_SOURCE}`,
+            or(keys.length ? inArray(keyExpr, keys) : undefined, inArray(hashExpr, hashes)),
+          ),
+        )
+    : [];
+
+  const seenKey = new Map<string, { documentId?: string; index?: number }>();
+  const seenHash = new Map<string, { documentId?: string; index?: number }>();
+  for (const e of existing) {
+    if (e.key) seenKey.set(e.key, { documentId: e.id });
+    if (e.hash) seenHash.set(e.hash, { documentId: e.id });
+  }
+
+  const duplicates: ReviewDuplicate[] = [];
+  const fresh: number[] = [];
+  metas.forEach((m, index) => {
+    const key = platformKey(m);
+    const byKey = key ? seenKey.get(key) : undefined;
+    const byHash = seenHash.get(m.textHash);
+    const hit = byKey ?? byHash;
+    if (hit) {
+      duplicates.push({
+        index,
+        reason: byKey ? "platform-id" : "text-hash",
+        documentId: hit.documentId,
+        sameBatchIndex: hit.index,
+      });
+      return;
+    }
+    if (key) seenKey.set(key, { index });
+    seenHash.set(m.textHash, { index });
+    fresh.push(index);
+  });
+  return { duplicates, fresh };
+}
+
+/**
+ * Store reviews as one document + one chunk each, with typed meta.review.
+ * A record is skipped when its (platform, platformReviewId) or its normalized
+ * text hash is already stored for this tenant, or appeared earlier in the
+ * same batch. Duplicates are found first so only new records are embedded,
+ * with no connection held; text that is already stored reuses its vector.
+ * The write transaction checks for duplicates again, under a lock.
+ */
+export async function ingestReviews(
+  withDb: WithDb,
+  embedder: EmbeddingProvider,
+  tenantId: string,
+  records: ReviewRecord[],
+): Promise<ReviewIngestResult> {
+  const metas = records.map(toReviewMeta);
+  const inputHashes = records.map((r) => embeddingInputHash(r.text));
+
+  const vectors = new Map<string, number[]>();
+  const embedMissing = async (indexes: number[]) => {
+    const toEmbed = [...new Set(indexes.map((i) => inputHashes[i]).filter((h) => !vectors.has(h)))];
+    for (let i = 0; i < toEmbed.length; i += BATCH_SIZE) {
+      const batch = toEmbed.slice(i, i + BATCH_SIZE);
+      const fresh = await embedder.embed(batch.map((h) => records[inputHashes.indexOf(h)].text));
+      batch.forEach((h, j) => vectors.set(h, fresh[j]));
+    }
+  };
+
+  const candidates = await withDb(async (db) => {
+    const { fresh } = await findDuplicates(db, tenantId, metas);
+    if (fresh.length) {
+      await verifyEmbeddingColumn(db, embedder);
+      const hashes = [...new Set(fresh.map((i) => inputHashes[i]))];
+      for (const [h, v] of await reusableVectors(db, embedder, hashes)) vectors.set(h, v);
+    }
+    return fresh;
+  });
+  await embedMissing(candidates);
+
+  return withDb((db) =>
+    db.transaction(async (tx) => {
+      // concurrent imports would both miss each other's rows in the lookup below
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`ingest-reviews:${tenantId}`}))`);
+      const { duplicates, fresh } = await findDuplicates(tx, tenantId, metas);
+      // only when a stored duplicate was deleted since the first look
+      await embedMissing(fresh);
+
+      const inserted: ReviewIngestResult["inserted"] = [];
+      for (let i = 0; i < fresh.length; i += BATCH_SIZE) {
+        const batch = fresh.slice(i, i + BATCH_SIZE);
+
+        const rows = batch.map((idx) => {
+          const id = uuidv4();
+          return {
+            id,
+            tenantId,
+            url: `review://${id}`,
+            title: records[idx].reviewer ?? null,
+            content: records[idx].text,
+            meta: { source: REVIEW_SOURCE, review: metas[idx] },
+          };
+        });
+        await tx.insert(documents).values(rows);
+        await tx.insert(documentChunks).values(
+          rows.map((r, j) => ({
+            documentId: r.id,
+            tenantId,
+            chunkIndex: 0,
+            content: r.content,
+            embedding: vectors.get(inputHashes[batch[j]]),
+            embeddingModel: embedder.name,
+            contentHash: inputHashes[batch[j]],
+            charStart: 0,
+            charEnd: r.content.length,
+          })),
+        );
+        rows.forEach((r, j) => inserted.push({ index: batch[j], documentId: r.id }));
+      }
+
+      return { inserted, duplicates };
+    }),
+  );
+}
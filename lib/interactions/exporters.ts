@@ -0,0 +1,80 @@
+import { SpanKind, SpanStatusCode, trace } from "@opentelemetry/api";
+
+import { withDrizzle, withPgClient } from "../db/pg";
+import { chatQueries } from "../db/schema/chatQueries";
+import type { InteractionExporter, InteractionRecord } from "./writer";
+
+// one multi-row insert per batch into chat_queries, on one short-lived connection
+export const pgExporter: InteractionExporter = {
+  name: "chat_queries",
+  async export(records) {
+    await withPgClient((client) =>
+      withDrizzle(client)
+        .insert(chatQueries)
+        .values(
+          records.map((r) => ({
+            interactionId: r.interactionId,
+            tenantId: r.tenantId,
+            askedAt: r.askedAt,
+            sessionId: r.sessionId,
+            urlPath: r.urlPath,
+            userAgent: r.userAgent,
+            queryText: r.queryText,
+            responseType: r.responseType,
+            faqId: r.faqId,
+            faqTitle: r.faqTitle,
+            reviewsCount: r.reviewsCount,
+            responseMs: r.totalMs,
+            responseText: r.responseText,
+            origin: "server",
+            endpoint: r.endpoint,
+            standaloneQuery: r.standaloneQuery,
+            retrieved: r.retrieved,
+            timings: r.timings,
+          })),
+        )
+        // a retried batch, or a client row that got to the interaction id first, mustn't sink the rest
+        .onConflictDoNothing(),
+    );
+  },
+};
+
+function attributes(r: InteractionRecord) {
+  const attrs: Record<string, string | number | string[]> = {
+    "wimo.interaction_id": r.interactionId,
+    "wimo.tenant_id": r.tenantId,
+    "wimo.endpoint": r.endpoint,
+    "wimo.response_type": r.responseType,
+    "wimo.query": r.queryText,
+    "wimo.retrieved.chunk_ids": r.retrieved.map((h) => h.chunkId),
+    "wimo.retrieved.count": r.retrieved.length,
+  };
+  if (r.sessionId) attrs["wimo.session_id"] = r.sessionId;
+  if (r.standaloneQuery) attrs["wimo.standalone_query"] = r.standaloneQuery;
+  if (r.reviewsCount != null) attrs["wimo.reviews_count"] = r.reviewsCount;
+  for (const [stage, ms] of Object.entries(r.timings)) attrs[`wimo.stage.${stage}_ms`] = ms;
+  return attrs;
+}
+
+/**
+ * One span per interaction, timed as it happened, through whatever tracer
+ * provider the process registered (see INTERACTION_OTEL in .env.example).
+ * Without one, @opentelemetry/api hands out no-op spans.
+ */
+export const otelExporter: InteractionExporter = {
+  name: "otel",
+  async export(records) {
+    const tracer = trace.getTracer("wimo-kb");
+    for (const r of records) {
+      const span = tracer.startSpan(`interaction ${r.endpoint}`, {
+        kind: SpanKind.SERVER,
+        startTime: r.askedAt,
+        attributes: attributes(r),
+      });
+      if (r.responseType === "error") {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: r.responseText ?? undefined });
+      }
+      span.end(new Date(r.askedAt.getTime() + r.totalMs));
+    }
+  },
+};
@@ -0,0 +1,33 @@
+import { configSection } from "../config";
+import { onShutdown } from "../shutdown";
+import { otelExporter, pgExporter } from "./exporters";
+import { InteractionTrace, type TraceStart } from "./trace";
+import { InteractionWriter, type InteractionExporter } from "./writer";
+
+export { InteractionTrace, type Stage, type TraceOutcome, type TraceStart } from "./trace";
+export { InteractionWriter, type InteractionExporter, type InteractionRecord } from "./writer";
+export { otelExporter, pgExporter } from "./exporters";
+
+// INTERACTION_LOG=0 stops writing chat_queries rows; INTERACTION_OTEL=1 adds spans
+function exportersFromConfig(): InteractionExporter[] {
+  const { interactionLog, interactionOtel } = configSection("features");
+  const exporters: InteractionExporter[] = [];
+  if (interactionLog) exporters.push(pgExporter);
+  if (interactionOtel) exporters.push(otelExporter);
+  return exporters;
+}
+
+let writer: InteractionWriter | null = null;
+
+// built on first use, so importing a route doesn't read the config
+export function interactionWriter() {
+  if (writer) return writer;
+  const created = new InteractionWriter(exportersFromConfig());
+  // whatever is still buffered when the server stops
+  onShutdown(() => created.flush());
+  return (writer = created);
+}
+
+export function startTrace(start: TraceStart) {
+  return new InteractionTrace(interactionWriter(), start);
+}
@@ -0,0 +1,133 @@
+import { randomUUID } from "node:crypto";
+
+import type { RetrievedChunk } from "../retrieval";
+import type { ReviewHit } from "../retrieval/reviews";
+import { REVIEW_SOURCE } from "../reviews";
+import type { InteractionRecord, InteractionWriter, RetrievedRef, StageTimings } from "./writer";
+
+export type Stage = keyof StageTimings;
+
+export type TraceStart = {
+  endpoint: InteractionRecord["endpoint"];
+  tenantId: string;
+  query: string;
+  sessionId?: string | null;
+  // storefront page the widget sent; cross-origin Referers are usually cut to the origin
+  urlPath?: string | null;
+  // user agent (and the Referer path, without urlPath) come from here
+  req: Request;
+};
+
+export type TraceOutcome = {
+  responseType: string;
+  faqId?: string | null;
+  faqTitle?: string | null;
+  reviewsCount?: number | null;
+  responseText?: string | null;
+};
+
+function refererPath(req: Request) {
+  const referer = req.headers.get("referer");
+  if (!referer) return null;
+  try {
+    return new URL(referer).pathname;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Timings and results of one request, recorded once it finishes. Stages may
+ * run more than once (several DB round trips); their times add up.
+ */
+export class InteractionTrace {
+  // chat_queries.interaction_id; known before the row is written
+  readonly id = randomUUID();
+  readonly askedAt = new Date();
+  private readonly started = performance.now();
+  private readonly timings: Record<string, number> = {};
+  private retrieved: RetrievedRef[] = [];
+  private standaloneQuery: string | null = null;
+  private finished = false;
+
+  constructor(
+    private writer: InteractionWriter,
+    private start: TraceStart,
+  ) {}
+
+  // starts the clock on a stage; call the returned function when it's over
+  begin(stage: Stage) {
+    const t = performance.now();
+    return () => {
+      this.timings[stage] = (this.timings[stage] ?? 0) + performance.now() - t;
+    };
+  }
+
+  async time<T>(stage: Stage, fn: () => Promise<T>): Promise<T> {
+    const end = this.begin(stage);
+    try {
+      return await fn();
+    } finally {
+      end();
+    }
+  }
+
+  // the rewritten follow-up, when it differs from what was asked
+  rewritten(query: string) {
+    this.standaloneQuery = query !== this.start.query ? query : null;
+  }
+
+  // what retrieval returned, best first
+  hits(hits: Pick<RetrievedChunk, "chunkId" | "documentId" | "source" | "scores">[]) {
+    this.retrieved = hits.map((h) => ({
+      chunkId: h.chunkId,
+      documentId: h.documentId,
+      source: h.source,
+      fused: h.scores.fused,
+      vector: h.scores.vector,
+      keyword: h.scores.keyword,
+    }));
+  }
+
+  reviewHits(items: Pick<ReviewHit, "chunkId" | "documentId" | "similarity">[]) {
+    this.retrieved = items.map((r) => ({
+      chunkId: r.chunkId,
+      documentId: r.documentId,
+      source: REVIEW_SOURCE,
+      fused: null,
+      vector: r.similarity,
+      keyword: null,
+    }));
+  }
+
+  // hands the record to the writer; later calls are ignored
+  finish(outcome: TraceOutcome) {
+    if (this.finished) return;
+    this.finished = true;
+    const timings: StageTimings = {};
+    for (const [stage, ms] of Object.entries(this.timings)) timings[stage as Stage] = Math.round(ms);
+    this.writer.push({
+      interactionId: this.id,
+      tenantId: this.start.tenantId,
+      endpoint: this.start.endpoint,
+      askedAt: this.askedAt,
+      sessionId: this.start.sessionId ?? null,
+      urlPath: this.start.urlPath || refererPath(this.start.req),
+      userAgent: this.start.req.headers.get("user-agent"),
+      queryText: this.start.query,
+      standaloneQuery: this.standaloneQuery,
+      responseType: outcome.responseType,
+      faqId: outcome.faqId ?? null,
+      faqTitle: outcome.faqTitle ?? null,
+      reviewsCount: outcome.reviewsCount ?? null,
+      responseText: outcome.responseText ?? null,
+      retrieved: this.retrieved,
+      timings,
+      totalMs: Math.round(performance.now() - this.started),
+    });
+  }
+
+  fail(err: unknown) {
+    this.finish({ responseType: "error", responseText: (err instanceof Error && err.message) || String(err) });
+  }
+}
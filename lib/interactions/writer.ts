@@ -0,0 +1,108 @@
+import type { RetrievedRef, StageTimings } from "../db/schema/chatQueries";
+
+export type { RetrievedRef, StageTimings };
+
+// one /api/search or /api/answer request, as the routes saw it
+export type InteractionRecord = {
+  // returned to the widget, which sends it back with feedback and client events
+  interactionId: string;
+  tenantId: string;
+  endpoint: "search" | "answer";
+  askedAt: Date;
+  sessionId: string | null;
+  urlPath: string | null;
+  userAgent: string | null;
+  queryText: string;
+  standaloneQuery: string | null;
+  // faq | review | fallback | generated | error
+  responseType: string;
+  faqId: string | null;
+  faqTitle: string | null;
+  reviewsCount: number | null;
+  responseText: string | null;
+  retrieved: RetrievedRef[];
+  timings: StageTimings;
+  totalMs: number;
+};
+
+export interface InteractionExporter {
+  name: string;
+  export(records: InteractionRecord[]): Promise<void>;
+}
+
+export type WriterOptions = {
+  // flush once this many records are waiting
+  maxBatch?: number;
+  // ...or this long after the first one arrived
+  flushMs?: number;
+  // drop the oldest records past this (the DB is down and nothing drains)
+  maxBuffered?: number;
+};
+
+/**
+ * Collects interaction records in memory and hands them to every exporter
+ * in batches, off the request path. A failing exporter is logged and never
+ * surfaces to the shopper; its batch is dropped.
+ */
+export class InteractionWriter {
+  private buffer: InteractionRecord[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+  private dropped = 0;
+  private readonly maxBatch: number;
+  private readonly flushMs: number;
+  private readonly maxBuffered: number;
+
+  constructor(
+    private exporters: InteractionExporter[],
+    opts: WriterOptions = {},
+  ) {
+    this.maxBatch = opts.maxBatch ?? 50;
+    this.flushMs = opts.flushMs ?? 2000;
+    this.maxBuffered = opts.maxBuffered ?? 5000;
+  }
+
+  get enabled() {
+    return this.exporters.length > 0;
+  }
+
+  push(record: InteractionRecord) {
+    if (!this.enabled) return;
+    this.buffer.push(record);
+    if (this.buffer.length > this.maxBuffered) {
+      this.dropped += this.buffer.length - this.maxBuffered;
+      this.buffer.splice(0, this.buffer.length - this.maxBuffered);
+    }
+    if (this.buffer.length >= this.maxBatch) void this.flush();
+    else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), this.flushMs);
+      // a pending flush shouldn't keep a script alive
+      this.timer.unref?.();
+    }
+  }
+
+  // writes everything buffered so far; flushes run one after another
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.flushing = this.flushing.then(async () => {
+      while (this.buffer.length) {
+        const batch = this.buffer.splice(0, this.maxBatch);
+        await Promise.all(
+          this.exporters.map((e) =>
+            e.export(batch).catch((err) => {
+              console.error(`[interactions] ${e.name} export of ${batch.length} failed`, err);
+            }),
+          ),
+        );
+      }
+    });
+    return this.flushing;
+  }
+
+  stats() {
+    return { buffered: this.buffer.length, dropped: this.dropped, exporters: this.exporters.map((e) => e.name) };
+  }
+}
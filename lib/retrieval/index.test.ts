@@ -0,0 +1,65 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+import { getEmbeddingProvider } from "../ai/embeddings";
+import { createTestDb, DEFAULT_TENANT_ID } from "../db/testing";
+import { ingestDocument } from "../ingest/documents";
+import { policyFor, retrieve } from "./index";
+
+describe("policyFor", () => {
+  it("layers the built-in policy, the tenant and the caller", () => {
+    expect(policyFor("faq")).toEqual({ minSim: 0.45, answerMinSim: 0.78, k: 5, keywordHits: true });
+    expect(policyFor("faq", undefined, { minSim: { faq: 0.5 }, answerMinSim: { faq: 0.9 } })).toMatchObject({
+      minSim: 0.5,
+      answerMinSim: 0.9,
+    });
+    expect(policyFor("faq", 0.2, { minSim: { faq: 0.5 } }, { faq: 0.6 })).toMatchObject({
+      minSim: 0.2,
+      answerMinSim: 0.6,
+    });
+  });
+});
+
+describe("retrieve gates", () => {
+  let testDb: Awaited<ReturnType<typeof createTestDb>>;
+  const tenant = { id: DEFAULT_TENANT_ID, config: {} };
+  const query = "do you ship to canada";
+
+  beforeAll(async () => {
+    vi.stubEnv("EMBEDDING_PROVIDER", "fake");
+    vi.stubEnv("EMBEDDING_DIM", "1536");
+    testDb = await createTestDb();
+    const embedder = getEmbeddingProvider();
+    await ingestDocument(testDb.withDb, embedder, { tenantId: tenant.id, content: "Do you ship to Canada?" });
+    // every query word, buried in text about something else: a keyword match, not a close vector
+    await ingestDocument(testDb.withDb, embedder, {
+      tenantId: tenant.id,
+      content:
+        "Our wool sarees are hand woven by artisans in Varanasi and dyed with natural colours. " +
+        "Care: dry clean only, store folded in muslin, avoid direct sunlight and perfume. " +
+        "Do you want matching blouses? We ship them to Canada too.",
+    });
+  });
+
+  afterAll(async () => {
+    await testDb.close();
+    vi.unstubAllEnvs();
+  });
+
+  it("lets keyword matches through on search but only close vectors on answer", async () => {
+    const ctx = { db: testDb.client, tenant };
+
+    const search = await retrieve({ query, sources: ["faq"] }, ctx);
+    expect(search.hits).toHaveLength(2);
+    const keywordOnly = search.hits.find((h) => h.content.includes("sarees"))!;
+    expect(keywordOnly.ftsHit).toBe(true);
+    expect(keywordOnly.similarity!).toBeLessThan(0.45);
+
+    const answer = await retrieve({ query, sources: ["faq"], gate: "answer" }, ctx);
+    expect(answer.hits.map((h) => h.content)).toEqual(["Do you ship to Canada?"]);
+
+    const strict = await retrieve({ query, sources: ["faq"], gate: "answer", answerMinSim: 0.999 }, ctx);
+    expect(strict.hits).toHaveLength(1);
+    const stricter = await retrieve({ query, sources: ["faq"], gate: "answer", answerMinSim: { faq: 1.01 } }, ctx);
+    expect(stricter.hits).toHaveLength(0);
+  });
+});
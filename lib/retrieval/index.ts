@@ -0,0 +1,425 @@
+import type { ClientBase } from "pg";
+
+import { queryEmbeddingCache } from "@/lib/ai/cache";
+import { getEmbeddingProvider, toVectorLiteral } from "@/lib/ai/embeddings";
+import { configSection } from "@/lib/config";
+import type { DocumentMeta } from "@/lib/db/schema/documents";
+import type { TenantConfig } from "@/lib/db/schema/tenants";
+import { verifyEmbeddingColumn } from "@/lib/db/vector";
+import { REVIEW_SOURCE } from "@/lib/reviews";
+import type { TenantScope } from "@/lib/tenants";
+
+// anything we can run a query on: a Pool, a PoolClient or a Client
+export type Db = Pick<ClientBase, "query">;
+
+// every query runs for exactly one tenant; its config can raise or lower thresholds
+export type RetrievalContext = { db: Db; tenant: TenantScope };
+
+// documents.meta->>'source'; rows without one are FAQs
+export type SourceBucket = "faq" | "website" | typeof REVIEW_SOURCE | (string & {});
+
+export type SourcePolicy = {
+  // similarity floor for a hit to count
+  minSim: number;
+  // stricter floor for a hit to be answered with (gate: "answer"); keyword matches don't skip it
+  answerMinSim: number;
+  // default number of hits returned for this source
+  k: number;
+  // a full-text match passes even below minSim (search only)
+  keywordHits: boolean;
+};
+
+export const SOURCE_POLICY: Record<string, SourcePolicy> = {
+  faq: { minSim: 0.45, answerMinSim: 0.78, k: 5, keywordHits: true },
+  website: { minSim: 0.45, answerMinSim: 0.78, k: 5, keywordHits: true },
+  // reviews are shown as "what customers said", best match first, never gated
+  [REVIEW_SOURCE]: { minSim: 0, answerMinSim: 0, k: 3, keywordHits: true },
+};
+
+const FALLBACK_POLICY: SourcePolicy = SOURCE_POLICY.faq;
+
+// what the widget treats as "an answer" (vs. reviews)
+export const ANSWER_SOURCES: SourceBucket[] = ["faq", "website"];
+
+// how many rows we pull per source before thresholding
+const CANDIDATE_MULTIPLIER = 4;
+
+/**
+ * Reciprocal Rank Fusion: score = Σ weight / (k + rank) over the vector and
+ * keyword lists. Bigger `k` flattens the gap between rank 1 and rank 10.
+ * Shopper votes then scale each chunk's score by
+ *   1 + feedback · (up − down) / (up + down + FEEDBACK_PRIOR)
+ * so a handful of votes nudges it and many can move it by at most ±feedback.
+ * 0 turns that off.
+ */
+export type FusionWeights = {
+  vector: number;
+  keyword: number;
+  k: number;
+  feedback: number;
+};
+
+// feedback: RETRIEVAL_FEEDBACK_WEIGHT unless the caller sets it
+export const DEFAULT_FUSION: FusionWeights = { vector: 1, keyword: 1, k: 60, feedback: 0.25 };
+
+// imaginary neutral votes every chunk starts with
+export const FEEDBACK_PRIOR = 5;
+
+export type RetrieveParams = {
+  query: string;
+  sources?: SourceBucket[];
+  // hits per source; defaults to that source's policy
+  k?: number;
+  // one floor for every source, or per-source overrides (on top of the tenant's)
+  minSim?: number | Partial<Record<string, number>>;
+  // "answer": only hits similar enough to answer with (answerMinSim); "search" (default): minSim or a keyword match
+  gate?: "search" | "answer";
+  // same shape as minSim, for the answer gate
+  answerMinSim?: number | Partial<Record<string, number>>;
+  fusion?: Partial<FusionWeights>;
+  // precomputed query embedding (see embedForRetrieval), to share one across calls
+  embedding?: number[];
+};
+
+export type HitScores = {
+  // RRF, scaled by the feedback factor
+  fused: number;
+  // cosine similarity; null when the chunk has no embedding yet
+  vector: number | null;
+  // ts_rank_cd; null when the chunk didn't match the keyword query
+  keyword: number | null;
+  vectorRank: number | null;
+  keywordRank: number | null;
+  // votes on this chunk and the factor they applied (1 = none)
+  feedback: { up: number; down: number; factor: number };
+};
+
+export type RetrievedChunk = {
+  chunkId: string;
+  documentId: string;
+  source: SourceBucket;
+  url: string | null;
+  title: string | null;
+  content: string;
+  // the document's meta, e.g. typed review fields under meta.review
+  meta: DocumentMeta;
+  chunkIndex: number;
+  headingPath: string[];
+  offsets: { start: number; end: number } | null;
+  // neighbouring chunks of the same document, for "show more context"
+  context: { prev: string | null; next: string | null };
+  // set for chunks of uploaded files
+  file: { name: string; page: number | null } | null;
+  // how answers cite this chunk, e.g. "Size Guide, p.2"; null outside uploaded files
+  citation: string | null;
+  createdAt: Date;
+  similarity: number | null;
+  ftsHit: boolean;
+  scores: HitScores;
+};
+
+export type RetrieveResult = {
+  query: string;
+  bySource: Record<string, RetrievedChunk[]>;
+  // every source's hits, best first
+  hits: RetrievedChunk[];
+  // rows looked at before thresholding, per source
+  candidates: Record<string, number>;
+};
+
+export class RetrievalError extends Error {
+  constructor(
+    public stage: "embed" | "db",
+    public cause: unknown,
+  ) {
+    super(`retrieval failed at ${stage}: ${String((cause as any)?.message || cause)}`);
+    this.name = "RetrievalError";
+  }
+}
+
+// embed the user query through the query cache (memory, then `db` if given);
+// failures surfaced as RetrievalError("embed")
+export async function embedForRetrieval(query: string, db?: Db): Promise<number[]> {
+  try {
+    return await queryEmbeddingCache.embed(getEmbeddingProvider(), query.trim(), db);
+  } catch (e) {
+    throw new RetrievalError("embed", e);
+  }
+}
+
+type Floors = RetrieveParams["minSim"];
+
+const pick = (floors: Floors, source: SourceBucket) => (typeof floors === "number" ? floors : floors?.[source]);
+
+// built-in policy, then SOURCE_MIN_SIM, then the tenant's floor for this source, then the caller's override;
+// the answer floor the same way, minus the env step
+export function policyFor(
+  source: SourceBucket,
+  minSim?: Floors,
+  tenant?: Pick<TenantConfig, "minSim" | "answerMinSim">,
+  answerMinSim?: Floors,
+): SourcePolicy {
+  const builtIn = SOURCE_POLICY[source] ?? FALLBACK_POLICY;
+  return {
+    ...builtIn,
+    minSim:
+      pick(minSim, source) ??
+      tenant?.minSim?.[source] ??
+      configSection("retrieval").minSim[source] ??
+      builtIn.minSim,
+    answerMinSim: pick(answerMinSim, source) ?? tenant?.answerMinSim?.[source] ?? builtIn.answerMinSim,
+  };
+}
+
+export function passes(hit: RetrievedChunk, policy: SourcePolicy) {
+  if (policy.keywordHits && hit.ftsHit) return true;
+  return hit.similarity != null && hit.similarity >= policy.minSim;
+}
+
+// good enough to answer with: similar by vector, whatever the keyword ranking says
+export function passesAnswer(hit: RetrievedChunk, policy: SourcePolicy) {
+  return hit.similarity != null && hit.similarity >= Math.max(policy.minSim, policy.answerMinSim);
+}
+
+// top-N by vector distance and top-N by ts_rank_cd, fused with RRF. Only chunks
+// embedded by the current provider are compared by vector (see db:reembed);
+// soft-deleted documents, superseded chunk versions and other tenants' rows never match.
+// Votes count per chunk version: a rewritten document starts from fresh chunks.
+// $1 vector, $2 query text, $3 source, $4 N, $5 vector weight, $6 keyword weight, $7 rrf k, $8 embedding model,
+// $9 tenant id, $10 feedback weight
+const SQL_SOURCE = `
+  WITH q AS (
+    SELECT $1::vector AS v, plainto_tsquery('simple', $2) AS tsq
+  ),
+  vec AS (
+    SELECT id, emb_dist, row_number() OVER (ORDER BY emb_dist) AS rnk
+    FROM (
+      SELECT dc.id, dc.embedding <=> q.v AS emb_dist
+      FROM public.document_chunks dc
+      JOIN public.documents d ON d.id = dc.document_id
+      JOIN q ON TRUE
+      WHERE dc.tenant_id = $9
+        AND d.tenant_id = $9
+        AND coalesce(d.meta->>'source', 'faq') = $3
+        AND d.deleted_at IS NULL
+        AND dc.superseded_at IS NULL
+        AND dc.embedding IS NOT NULL
+        AND dc.embedding_model = $8
+      ORDER BY emb_dist
+      LIMIT $4
+    ) t
+  ),
+  kw AS (
+    SELECT id, kw_score, row_number() OVER (ORDER BY kw_score DESC) AS rnk
+    FROM (
+      SELECT dc.id, ts_rank_cd(dc.content_tsv, q.tsq) AS kw_score
+      FROM public.document_chunks dc
+      JOIN public.documents d ON d.id = dc.document_id
+      JOIN q ON TRUE
+      WHERE dc.tenant_id = $9
+        AND d.tenant_id = $9
+        AND coalesce(d.meta->>'source', 'faq') = $3
+        AND d.deleted_at IS NULL
+        AND dc.superseded_at IS NULL
+        AND dc.content_tsv @@ q.tsq
+      ORDER BY kw_score DESC
+      LIMIT $4
+    ) t
+  ),
+  fused AS (
+    SELECT
+      coalesce(vec.id, kw.id) AS id,
+      vec.rnk AS vec_rank,
+      kw.rnk AS kw_rank,
+      kw.kw_score,
+      coalesce($5::float8 / ($7::float8 + vec.rnk), 0)
+        + coalesce($6::float8 / ($7::float8 + kw.rnk), 0) AS rrf
+    FROM vec
+    FULL OUTER JOIN kw ON kw.id = vec.id
+  ),
+  fb AS (
+    SELECT
+      af.chunk_id,
+      count(*) FILTER (WHERE af.rating > 0) AS up,
+      count(*) FILTER (WHERE af.rating < 0) AS down
+    FROM public.answer_feedback af
+    -- only votes on a logged answer that showed the chunk (see lib/feedback)
+    JOIN public.chat_queries cq
+      ON cq.tenant_id = af.tenant_id
+     AND cq.interaction_id = af.interaction_id
+     AND cq.event IS NULL
+     AND cq.origin = 'server'
+     AND cq.retrieved @> jsonb_build_array(jsonb_build_object('chunkId', af.chunk_id::text))
+    WHERE af.tenant_id = $9
+      AND af.chunk_id IN (SELECT id FROM fused)
+    GROUP BY af.chunk_id
+  ),
+  scored AS (
+    SELECT
+      f.*,
+      coalesce(fb.up, 0) AS fb_up,
+      coalesce(fb.down, 0) AS fb_down,
+      1 + $10::float8 * (coalesce(fb.up, 0) - coalesce(fb.down, 0))::float8
+        / (coalesce(fb.up, 0) + coalesce(fb.down, 0) + ${FEEDBACK_PRIOR}) AS fb_factor
+    FROM fused f
+    LEFT JOIN fb ON fb.chunk_id = f.id
+  )
+  SELECT
+    dc.id AS chunk_id,
+    dc.document_id,
+    d.url,
+    d.title,
+    d.meta,
+    dc.chunk_index,
+    dc.heading_path,
+    dc.char_start,
+    dc.char_end,
+    dc.source_file,
+    dc.page,
+    dc.content,
+    dc.created_at,
+    prev.content AS prev_content,
+    next.content AS next_content,
+    CASE WHEN dc.embedding_model = $8 THEN 1 - (dc.embedding <=> q.v) END AS emb_sim,
+    f.kw_score,
+    f.vec_rank,
+    f.kw_rank,
+    f.rrf * f.fb_factor AS score,
+    f.fb_up,
+    f.fb_down,
+    f.fb_factor
+  FROM scored f
+  JOIN public.document_chunks dc ON dc.id = f.id
+  JOIN public.documents d ON d.id = dc.document_id
+  JOIN q ON TRUE
+  LEFT JOIN public.document_chunks prev
+    ON prev.document_id = dc.document_id AND prev.version = dc.version AND prev.chunk_index = dc.chunk_index - 1
+  LEFT JOIN public.document_chunks next
+    ON next.document_id = dc.document_id AND next.version = dc.version AND next.chunk_index = dc.chunk_index + 1
+  ORDER BY score DESC, dc.created_at DESC
+  LIMIT $4;
+`;
+
+// row shape of SQL_SOURCE (pg hands numerics/float8 back as strings or numbers)
+type RetrievalRow = {
+  chunk_id: string;
+  document_id: string;
+  url: string | null;
+  title: string | null;
+  meta: DocumentMeta | null;
+  chunk_index: number;
+  heading_path: string[] | null;
+  char_start: number | null;
+  char_end: number | null;
+  source_file: string | null;
+  page: number | null;
+  content: string;
+  created_at: Date;
+  prev_content: string | null;
+  next_content: string | null;
+  emb_sim: number | string | null;
+  kw_score: number | string | null;
+  vec_rank: number | string | null;
+  kw_rank: number | string | null;
+  score: number | string;
+  fb_up: number | string;
+  fb_down: number | string;
+  fb_factor: number | string;
+};
+
+const num = (v: unknown) => (v == null ? null : Number(v));
+
+// "<document title or file name>, p.<page>"
+export function citationLabel(title: string | null, file: { name: string; page: number | null }) {
+  const name = title || file.name;
+  return file.page ? `${name}, p.${file.page}` : name;
+}
+
+function toChunk(r: RetrievalRow, source: SourceBucket): RetrievedChunk {
+  const file = r.source_file ? { name: r.source_file, page: r.page ?? null } : null;
+  return {
+    chunkId: r.chunk_id,
+    documentId: r.document_id,
+    source,
+    url: r.url ?? null,
+    title: r.title ?? null,
+    content: r.content,
+    meta: r.meta ?? {},
+    chunkIndex: r.chunk_index,
+    headingPath: r.heading_path ?? [],
+    offsets: r.char_start == null || r.char_end == null ? null : { start: r.char_start, end: r.char_end },
+    context: { prev: r.prev_content ?? null, next: r.next_content ?? null },
+    file,
+    citation: file ? citationLabel(r.title ?? null, file) : null,
+    createdAt: r.created_at,
+    similarity: num(r.emb_sim),
+    ftsHit: r.kw_rank != null,
+    scores: {
+      fused: Number(r.score),
+      vector: num(r.emb_sim),
+      keyword: num(r.kw_score),
+      vectorRank: num(r.vec_rank),
+      keywordRank: num(r.kw_rank),
+      feedback: { up: Number(r.fb_up), down: Number(r.fb_down), factor: Number(r.fb_factor) },
+    },
+  };
+}
+
+/**
+ * The one ranking policy behind /api/search and /api/answer: embed the query
+ * once, fuse vector and keyword rankings per source (RRF), keep hits that
+ * pass that source's threshold, return the top k of each.
+ */
+export async function retrieve(params: RetrieveParams, ctx: RetrievalContext): Promise<RetrieveResult> {
+  const query = params.query.trim();
+  const sources = params.sources?.length ? params.sources : ANSWER_SOURCES;
+  const fusion = { ...DEFAULT_FUSION, feedback: configSection("retrieval").feedbackWeight, ...params.fusion };
+
+  const vecLiteral = toVectorLiteral(params.embedding ?? (await embedForRetrieval(query, ctx.db)));
+  const embeddingModel = getEmbeddingProvider().name;
+  try {
+    await verifyEmbeddingColumn(ctx.db, getEmbeddingProvider());
+  } catch (e) {
+    throw new RetrievalError("db", e);
+  }
+
+  const bySource: Record<string, RetrievedChunk[]> = {};
+  const candidates: Record<string, number> = {};
+
+  for (const source of sources) {
+    const policy = policyFor(source, params.minSim, ctx.tenant.config, params.answerMinSim);
+    const keep = params.gate === "answer" ? passesAnswer : passes;
+    const k = params.k ?? policy.k;
+
+    let rows: RetrievalRow[];
+    try {
+      const r = await ctx.db.query<RetrievalRow>(SQL_SOURCE, [
+        vecLiteral,
+        query,
+        source,
+        k * CANDIDATE_MULTIPLIER,
+        fusion.vector,
+        fusion.keyword,
+        fusion.k,
+        embeddingModel,
+        ctx.tenant.id,
+        fusion.feedback,
+      ]);
+      rows = r.rows;
+    } catch (e) {
+      throw new RetrievalError("db", e);
+    }
+
+    candidates[source] = rows.length;
+    bySource[source] = rows
+      .map((r) => toChunk(r, source))
+      .filter((hit) => keep(hit, policy))
+      .slice(0, k);
+  }
+
+  const hits = sources
+    .flatMap((s) => bySource[s])
+    .sort((a, b) => b.scores.fused - a.scores.fused);
+
+  return { query, bySource, hits, candidates };
+}
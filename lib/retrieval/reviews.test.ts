@@ -0,0 +1,73 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+import { getEmbeddingProvider } from "../ai/embeddings";
+import { createTestDb, DEFAULT_TENANT_ID } from "../db/testing";
+import { ingestReviews, validateReviews } from "../ingest/reviews";
+import { searchReviews, type ReviewSearchParams } from "./reviews";
+
+const daysAgo = (n: number) => new Date(Date.now() - n * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+describe("searchReviews", () => {
+  let testDb: Awaited<ReturnType<typeof createTestDb>>;
+  const tenant = { id: DEFAULT_TENANT_ID, config: {} };
+  const search = (params: Partial<ReviewSearchParams>) =>
+    searchReviews({ sort: "relevance", page: 0, ...params }, { db: testDb.client, tenant, defaultPageSize: 10 });
+  const reviewers = (r: Awaited<ReturnType<typeof search>>) => r.items.map((i) => i.reviewer);
+
+  beforeAll(async () => {
+    vi.stubEnv("EMBEDDING_PROVIDER", "fake");
+    vi.stubEnv("EMBEDDING_DIM", "1536");
+    testDb = await createTestDb();
+    const { records } = validateReviews([
+      { reviewer: "Asha", rating: 5, date: "2024-01-10", text: "Delivery was quick and the saree is lovely." },
+      { reviewer: "Ravi", rating: 2, date: "2024-03-01", text: "Delivery took three weeks, very late." },
+      { reviewer: "Mina", rating: 4, date: "2024-02-15", text: "Beautiful colour, true to the pictures." },
+      { reviewer: "Dev", date: "2023-12-01", text: "Packaging was torn on delivery." },
+      { reviewer: "Lata", rating: 3, date: daysAgo(10), text: "Average fit, runs a little small." },
+    ]);
+    await ingestReviews(testDb.withDb, getEmbeddingProvider(), tenant.id, records);
+  });
+
+  afterAll(async () => {
+    await testDb.close();
+    vi.unstubAllEnvs();
+  });
+
+  it("filters by minimum rating, with stats over the matches", async () => {
+    const r = await search({ minRating: 4 });
+    expect(reviewers(r).sort()).toEqual(["Asha", "Mina"]);
+    expect(r.stats).toEqual({ count: 2, avgRating: 4.5, rated: 2 });
+  });
+
+  it("filters by date range and by the last N days", async () => {
+    expect(reviewers(await search({ from: "2024-01-01", to: "2024-02-28" })).sort()).toEqual(["Asha", "Mina"]);
+    expect(reviewers(await search({ sinceDays: 30 }))).toEqual(["Lata"]);
+    // the later of from and sinceDays wins
+    expect(reviewers(await search({ from: "2024-02-01", sinceDays: 3650 })).sort()).toEqual(["Lata", "Mina", "Ravi"]);
+  });
+
+  it("filters by topic", async () => {
+    expect(reviewers(await search({ topic: "delivery" })).sort()).toEqual(["Asha", "Dev", "Ravi"]);
+  });
+
+  it("sorts by newest, by rating, or by relevance to the query", async () => {
+    expect(reviewers(await search({ sort: "newest" }))).toEqual(["Lata", "Ravi", "Mina", "Asha", "Dev"]);
+    // unrated last
+    expect(reviewers(await search({ sort: "rating" }))).toEqual(["Asha", "Mina", "Lata", "Ravi", "Dev"]);
+
+    const relevant = await search({ query: "very late delivery" });
+    expect(relevant.sort).toBe("relevance");
+    expect(relevant.items[0].reviewer).toBe("Ravi");
+    expect(relevant.items[0].similarity).not.toBeNull();
+    // nothing to be relevant to: newest first
+    expect((await search({})).sort).toBe("newest");
+  });
+
+  it("pages through the matches, counting all of them on every page", async () => {
+    const pages = await Promise.all([0, 1, 2].map((page) => search({ sort: "newest", page, pageSize: 2 })));
+
+    expect(pages.map(reviewers)).toEqual([["Lata", "Ravi"], ["Mina", "Asha"], ["Dev"]]);
+    expect(pages.map((p) => p.hasMore)).toEqual([true, true, false]);
+    expect(pages.map((p) => p.stats)).toEqual(Array(3).fill({ count: 5, avgRating: 3.5, rated: 4 }));
+  });
+});
@@ -0,0 +1,229 @@
+import { z } from "zod";
+
+import { getEmbeddingProvider, toVectorLiteral } from "@/lib/ai/embeddings";
+import type { DocumentMeta } from "@/lib/db/schema/documents";
+import { verifyEmbeddingColumn } from "@/lib/db/vector";
+import { REVIEW_SOURCE, reviewView, type ReviewView } from "@/lib/reviews";
+import { DEFAULT_FUSION, RetrievalError, embedForRetrieval, type RetrievalContext } from "./index";
+
+export type ReviewSort = "relevance" | "newest" | "rating";
+
+export const MAX_REVIEW_PAGE_SIZE = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isoDate = z.coerce.date().transform((d) => d.toISOString().slice(0, 10));
+
+// review filters as callers send them in a request body ({ reviews: { … } })
+export const reviewQuerySchema = z.object({
+  minRating: z.coerce.number().min(1).max(5).optional(),
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  // shorthand for from = today - N days ("last 6 months" ≈ 180)
+  sinceDays: z.coerce.number().int().positive().optional(),
+  // keyword/topic the review text must mention, e.g. "delivery"
+  topic: z.string().trim().min(1).max(100).optional(),
+  sort: z.enum(["relevance", "newest", "rating"]).default("relevance"),
+  page: z.coerce.number().int().min(0).default(0),
+  pageSize: z.coerce.number().int().min(1).max(MAX_REVIEW_PAGE_SIZE).optional(),
+});
+
+export type ReviewQuery = z.infer<typeof reviewQuerySchema>;
+
+export function parseReviewQuery(raw: unknown) {
+  return reviewQuerySchema.safeParse(raw && typeof raw === "object" ? raw : {});
+}
+
+export type ReviewSearchParams = ReviewQuery & {
+  // what the shopper asked; empty means "browse", ranked by date instead
+  query?: string;
+  embedding?: number[];
+};
+
+export type ReviewHit = ReviewView & {
+  documentId: string;
+  chunkId: string;
+  similarity: number | null;
+};
+
+export type ReviewStats = {
+  // reviews matching the filters (all pages)
+  count: number;
+  // over the matched reviews that carry a rating
+  avgRating: number | null;
+  rated: number;
+};
+
+export type ReviewSearchResult = {
+  items: ReviewHit[];
+  stats: ReviewStats;
+  sort: ReviewSort;
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+};
+
+// Filtered review set, one row per review document (its best chunk), ranked by
+// RRF of vector and keyword rank within the set, then sorted and paged. Deleted
+// reviews, superseded chunks and other tenants' reviews are left out.
+// $1 vector|null, $2 query, $3 source, $4 min rating, $5 from, $6 to, $7 topic,
+// $8 topic ILIKE pattern, $9 sort, $10 page size (+1), $11 offset, $12 vec weight, $13 kw weight, $14 rrf k,
+// $15 embedding model (vectors from another provider don't count), $16 tenant id
+const SQL_REVIEWS = `
+  WITH q AS (
+    SELECT $1::vector AS v, plainto_tsquery('simple', $2) AS tsq
+  ),
+  m AS (
+    SELECT DISTINCT ON (d.id)
+      d.id AS document_id,
+      dc.id AS chunk_id,
+      dc.content,
+      d.meta,
+      d.created_at,
+      (d.meta->'review'->>'rating')::float8 AS rating,
+      coalesce((d.meta->'review'->>'date')::date, d.created_at::date) AS review_date,
+      CASE WHEN dc.embedding_model = $15 THEN dc.embedding <=> q.v END AS emb_dist,
+      CASE WHEN dc.content_tsv @@ q.tsq THEN ts_rank_cd(dc.content_tsv, q.tsq) END AS kw_score
+    FROM public.documents d
+    JOIN public.document_chunks dc ON dc.document_id = d.id
+    JOIN q ON TRUE
+    WHERE d.tenant_id = $16
+      AND dc.tenant_id = $16
+      AND coalesce(d.meta->>'source', 'faq') = $3
+      AND d.deleted_at IS NULL
+      AND dc.superseded_at IS NULL
+      AND ($4::float8 IS NULL OR (d.meta->'review'->>'rating')::float8 >= $4)
+      AND ($5::date IS NULL OR coalesce((d.meta->'review'->>'date')::date, d.created_at::date) >= $5)
+      AND ($6::date IS NULL OR coalesce((d.meta->'review'->>'date')::date, d.created_at::date) <= $6)
+      AND ($7::text IS NULL
+        OR dc.content_tsv @@ plainto_tsquery('simple', $7)
+        OR dc.content ILIKE $8)
+    ORDER BY d.id, emb_dist NULLS LAST, dc.chunk_index
+  ),
+  ranked AS (
+    SELECT m.*,
+      CASE WHEN emb_dist IS NOT NULL THEN rank() OVER (ORDER BY emb_dist) END AS vec_rank,
+      CASE WHEN kw_score IS NOT NULL THEN rank() OVER (ORDER BY kw_score DESC NULLS LAST) END AS kw_rank
+    FROM m
+  ),
+  scored AS (
+    SELECT ranked.*,
+      coalesce($12::float8 / ($14::float8 + vec_rank), 0)
+        + coalesce($13::float8 / ($14::float8 + kw_rank), 0) AS rrf
+    FROM ranked
+  ),
+  sorted AS (
+    SELECT scored.*,
+      row_number() OVER (
+        ORDER BY
+          CASE WHEN $9 = 'rating' THEN rating END DESC NULLS LAST,
+          CASE WHEN $9 IN ('newest', 'rating') THEN review_date END DESC NULLS LAST,
+          rrf DESC,
+          created_at DESC
+      ) AS pos
+    FROM scored
+  ),
+  page AS (
+    SELECT * FROM sorted WHERE pos > $11 AND pos <= $11 + $10
+  )
+  SELECT
+    (SELECT count(*) FROM m) AS total,
+    (SELECT avg(rating) FROM m) AS avg_rating,
+    (SELECT count(rating) FROM m) AS rated,
+    coalesce((
+      SELECT json_agg(json_build_object(
+        'document_id', document_id,
+        'chunk_id', chunk_id,
+        'content', content,
+        'meta', meta,
+        'emb_dist', emb_dist
+      ) ORDER BY pos)
+      FROM page
+    ), '[]'::json) AS items;
+`;
+
+type ReviewRow = {
+  total: number | string;
+  avg_rating: number | string | null;
+  rated: number | string;
+  items: {
+    document_id: string;
+    chunk_id: string;
+    content: string;
+    meta: DocumentMeta | null;
+    emb_dist: number | null;
+  }[];
+};
+
+const escapeLike = (s: string) => s.replace(/[\\%_]/g, (c) => `\\${c}`);
+
+/**
+ * Reviews matching rating / date / topic filters, sorted by relevance to the
+ * query (same RRF as retrieve()), newest, or highest rated, one page at a
+ * time, with count and average rating of the whole matched set.
+ */
+export async function searchReviews(
+  params: ReviewSearchParams,
+  ctx: RetrievalContext & { defaultPageSize?: number },
+): Promise<ReviewSearchResult> {
+  const query = (params.query ?? "").trim();
+  const pageSize = params.pageSize ?? ctx.defaultPageSize ?? 3;
+  const page = params.page ?? 0;
+  // nothing to be relevant to: newest first
+  const sort: ReviewSort = !query && params.sort === "relevance" ? "newest" : params.sort ?? "relevance";
+
+  const from =
+    params.sinceDays != null
+      ? [params.from, new Date(Date.now() - params.sinceDays * DAY_MS).toISOString().slice(0, 10)]
+          .filter(Boolean)
+          .sort()
+          .pop()
+      : params.from;
+
+  const vec = query ? params.embedding ?? (await embedForRetrieval(query, ctx.db)) : null;
+
+  let row: ReviewRow;
+  try {
+    await verifyEmbeddingColumn(ctx.db, getEmbeddingProvider());
+    const r = await ctx.db.query<ReviewRow>(SQL_REVIEWS, [
+      vec ? toVectorLiteral(vec) : null,
+      query,
+      REVIEW_SOURCE,
+      params.minRating ?? null,
+      from ?? null,
+      params.to ?? null,
+      params.topic ?? null,
+      params.topic ? `%${escapeLike(params.topic)}%` : null,
+      sort,
+      pageSize + 1,
+      page * pageSize,
+      DEFAULT_FUSION.vector,
+      DEFAULT_FUSION.keyword,
+      DEFAULT_FUSION.k,
+      getEmbeddingProvider().name,
+      ctx.tenant.id,
+    ]);
+    row = r.rows[0];
+  } catch (e) {
+    throw new RetrievalError("db", e);
+  }
+
+  const items = row.items.slice(0, pageSize).map((i) => ({
+    documentId: i.document_id,
+    chunkId: i.chunk_id,
+    ...reviewView({ content: i.content, meta: i.meta }, ctx.tenant.config.reviewLink),
+    similarity: i.emb_dist == null ? null : 1 - i.emb_dist,
+  }));
+
+  return {
+    items,
+    stats: {
+      count: Number(row.total),
+      avgRating: row.avg_rating == null ? null : Math.round(Number(row.avg_rating) * 100) / 100,
+      rated: Number(row.rated),
+    },
+    sort,
+    page,
+    pageSize,
+    hasMore: row.items.length > pageSize,
+  };
+}
@@ -0,0 +1,170 @@
+import { createHash } from "crypto";
+import { z } from "zod";
+
+import type { DocumentMeta, ReviewMeta } from "./db/schema/documents";
+
+export const REVIEW_SOURCE = "google-review";
+
+export type ParsedReview = {
+  reviewer?: string;
+  rating?: number;
+  date?: string;
+  review?: string;
+  sourceUrl?: string;
+  raw: string;
+};
+
+// legacy reviews were stored as "Reviewer: …\nRating: …\nDate: …\nReview: …" text blobs;
+// only the backfill still reads them this way, new imports carry typed meta
+export function parseReviewText(raw: string) {
+  const out: ParsedReview = { raw: raw || "" };
+
+  if (!raw) return out;
+  const lines = raw.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+
+  for (const line of lines) {
+    const low = line.toLowerCase();
+    if (low.startsWith("reviewer:")) {
+      out.reviewer = line.split(":").slice(1).join(":").trim();
+    } else if (low.startsWith("rating:")) {
+      const num = Number(line.replace(/rating:/i, "").trim());
+      if (!Number.isNaN(num)) out.rating = num;
+    } else if (low.startsWith("date:")) {
+      out.date = line.replace(/date:/i, "").trim();
+    } else if (low.startsWith("source:")) {
+      out.sourceUrl = line.replace(/source:/i, "").trim();
+    }
+  }
+
+  const reviewLine = lines.find(
+    l => l.toLowerCase().startsWith("review:") || l.toLowerCase().startsWith("comment:")
+  );
+  out.review = reviewLine
+    ? reviewLine.split(":").slice(1).join(":").trim()
+    : (raw || "").trim();
+
+  return out;
+}
+
+// embed what the customer said, not the Reviewer:/Rating: scaffolding
+export function reviewEmbeddingText(raw: string) {
+  const p = parseReviewText(raw);
+  return (p.review || p.raw).trim();
+}
+
+// ---------- structured reviews (see lib/ingest/reviews) ----------
+
+// blank CSV cells come through as "", treat them as missing
+const blank = (v: unknown) => (typeof v === "string" && v.trim() === "" ? undefined : v);
+
+export const reviewRecordSchema = z.object({
+  platform: z.preprocess(blank, z.string().trim().toLowerCase().default("google")),
+  platformReviewId: z.preprocess(blank, z.coerce.string().trim().max(200).optional()),
+  reviewer: z.preprocess(blank, z.string().trim().max(200).optional()),
+  rating: z.preprocess(blank, z.coerce.number().min(1).max(5).optional()),
+  date: z.preprocess(
+    blank,
+    z.coerce
+      .date()
+      .transform((d) => d.toISOString().slice(0, 10))
+      .optional(),
+  ),
+  text: z.string().trim().min(1).max(10_000),
+  sourceUrl: z.preprocess(blank, z.string().trim().url().optional()),
+});
+
+export type ReviewRecord = z.infer<typeof reviewRecordSchema>;
+
+// what importers commonly call these columns
+const FIELD_ALIASES: Record<string, keyof ReviewRecord> = {
+  id: "platformReviewId",
+  reviewid: "platformReviewId",
+  review_id: "platformReviewId",
+  platform_review_id: "platformReviewId",
+  author: "reviewer",
+  name: "reviewer",
+  stars: "rating",
+  review: "text",
+  comment: "text",
+  source: "sourceUrl",
+  url: "sourceUrl",
+  source_url: "sourceUrl",
+};
+
+export function normalizeReviewFields(raw: Record<string, unknown>) {
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(raw)) {
+    const key = FIELD_ALIASES[k.trim().toLowerCase()] ?? k.trim();
+    if (out[key] === undefined) out[key] = v;
+  }
+  return out;
+}
+
+// case, punctuation and whitespace don't make a review different
+export function normalizeReviewText(s: string) {
+  return s
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+export function reviewTextHash(r: Pick<ReviewRecord, "reviewer" | "text">) {
+  return createHash("sha256")
+    .update(`${normalizeReviewText(r.reviewer ?? "")}\n${normalizeReviewText(r.text)}`)
+    .digest("hex");
+}
+
+export function toReviewMeta(r: ReviewRecord): ReviewMeta {
+  return {
+    platform: r.platform,
+    platformReviewId: r.platformReviewId ?? null,
+    reviewer: r.reviewer ?? null,
+    rating: r.rating ?? null,
+    date: r.date ?? null,
+    sourceUrl: r.sourceUrl ?? null,
+    textHash: reviewTextHash(r),
+  };
+}
+
+// a legacy "Reviewer: …" blob as a structured record; unparseable fields are dropped
+export function reviewFromLegacyText(raw: string, platform = "google"): ReviewRecord {
+  const p = parseReviewText(raw);
+  const parsed = reviewRecordSchema.safeParse({
+    platform,
+    reviewer: p.reviewer,
+    rating: p.rating,
+    date: p.date,
+    sourceUrl: p.sourceUrl,
+    text: p.review || p.raw,
+  });
+  if (parsed.success) return parsed.data;
+  // keep the words even if rating/date/url didn't validate
+  return { platform, text: (p.review || p.raw).trim(), reviewer: p.reviewer };
+}
+
+export type ReviewView = {
+  reviewer: string | null;
+  rating: number | null;
+  date: string | null;
+  text: string;
+  sourceUrl: string | null;
+  platform: string;
+};
+
+// display shape for a retrieved review chunk, straight from its document meta;
+// reviews without their own URL link to the tenant's review page
+export function reviewView(
+  hit: { content: string; meta?: DocumentMeta | null },
+  reviewLink?: string | null,
+): ReviewView {
+  const r = hit.meta?.review;
+  return {
+    reviewer: r?.reviewer ?? null,
+    rating: r?.rating ?? null,
+    date: r?.date ?? null,
+    text: hit.content.trim(),
+    sourceUrl: r?.sourceUrl || reviewLink || null,
+    platform: r?.platform ?? "google",
+  };
+}
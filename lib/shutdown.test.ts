@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+
+import { flushAll, onShutdown } from "./shutdown";
+
+describe("flushAll", () => {
+  it("runs every registered flush and doesn't wait forever on a stuck one", async () => {
+    const flushed: string[] = [];
+    onShutdown(async () => {
+      flushed.push("interactions");
+    });
+    onShutdown(async () => {
+      throw new Error("database gone");
+    });
+    onShutdown(() => new Promise(() => {}));
+
+    const started = Date.now();
+    await flushAll(100);
+    expect(flushed).toEqual(["interactions"]);
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+});
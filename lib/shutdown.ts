@@ -0,0 +1,43 @@
+// Buffers that must reach the database before the process goes away (the
+// interaction log, the embedding cache's queued writes) register a flush here.
+// It runs when the event loop drains and on SIGTERM / SIGINT, which is how
+// containers and `next start` get stopped.
+
+type Flush = () => Promise<unknown>;
+
+// a flush that hangs (database gone) mustn't hold up the exit for long
+const FLUSH_TIMEOUT_MS = 5000;
+
+const flushes = new Set<Flush>();
+let installed = false;
+
+export function onShutdown(flush: Flush) {
+  flushes.add(flush);
+  installShutdownHooks();
+}
+
+/** Run every registered flush, giving up after `timeoutMs`. */
+export async function flushAll(timeoutMs = FLUSH_TIMEOUT_MS) {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<void>((resolve) => {
+    timer = setTimeout(resolve, timeoutMs);
+    timer.unref?.();
+  });
+  await Promise.race([Promise.allSettled([...flushes].map((flush) => flush())), timeout]);
+  clearTimeout(timer);
+}
+
+export function installShutdownHooks() {
+  if (installed) return;
+  installed = true;
+  process.once("beforeExit", () => void flushAll());
+  for (const signal of ["SIGTERM", "SIGINT"] as const) {
+    process.once(signal, () => {
+      void flushAll().finally(() => {
+        // `next start` has its own handler that exits once the server closes
+        // (unless NEXT_MANUAL_SIG_HANDLE is set); otherwise exiting is ours to do
+        if (process.listenerCount(signal) === 0) process.exit(0);
+      });
+    });
+  }
+}
@@ -0,0 +1,139 @@
+import { asc, eq, sql } from "drizzle-orm";
+import { z } from "zod";
+
+import type { AssistantProfile } from "./ai/answer";
+import { configSection } from "./config";
+import type { PgDb } from "./db/pg";
+import { tenants, type Tenant, type TenantConfig } from "./db/schema/tenants";
+
+export type { Tenant, TenantConfig };
+
+// what retrieval needs to know about the storefront it runs for
+export type TenantScope = Pick<Tenant, "id" | "config">;
+
+export type TenantRef = { id: string } | { slug: string };
+
+// how long a looked-up tenant is trusted before asking the DB again
+const CACHE_TTL_MS = 60 * 1000;
+const MAX_CACHED_TENANTS = 500;
+
+// requests without a key or an explicit tenant land here (the tenant migration 0011 seeds)
+export function defaultTenantSlug() {
+  return configSection("auth").defaultTenant;
+}
+
+// the tenant's "see all reviews" link, else the service-wide REVIEW_LINK
+export function reviewLinkFor(tenant: TenantScope) {
+  return tenant.config.reviewLink ?? configSection("reviews").link;
+}
+
+const slugSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z0-9](?:[a-z0-9-]{0,62}[a-z0-9])?$/, "slug must be lowercase letters, digits and dashes");
+
+export const tenantConfigSchema = z
+  .object({
+    reviewLink: z.string().trim().url().nullable().optional(),
+    minSim: z.record(z.number().min(0).max(1)).optional(),
+    answerMinSim: z.record(z.number().min(0).max(1)).optional(),
+    chatModel: z.string().trim().min(1).max(100).nullable().optional(),
+    systemPrompt: z.string().trim().min(1).max(4000).nullable().optional(),
+    refusalMessage: z.string().trim().min(1).max(500).nullable().optional(),
+  })
+  .strict();
+
+export const tenantInputSchema = z.object({
+  slug: slugSchema,
+  name: z.string().trim().min(1).max(100),
+  config: tenantConfigSchema.default({}),
+});
+
+// config keys are merged into the stored config; null clears one
+export const tenantPatchSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  config: tenantConfigSchema.optional(),
+});
+
+export type TenantInput = z.input<typeof tenantInputSchema>;
+export type TenantPatch = z.input<typeof tenantPatchSchema>;
+
+export async function createTenant(db: PgDb, input: TenantInput) {
+  const data = tenantInputSchema.parse(input);
+  const [row] = await db.insert(tenants).values(data).returning();
+  return row;
+}
+
+export async function updateTenant(db: PgDb, id: string, patch: TenantPatch) {
+  const data = tenantPatchSchema.parse(patch);
+  const [row] = await db
+    .update(tenants)
+    .set({
+      ...(data.name ? { name: data.name } : {}),
+      ...(data.config ? { config: sql`${tenants.config} || ${JSON.stringify(data.config)}::jsonb` } : {}),
+      updatedAt: new Date(),
+    })
+    .where(eq(tenants.id, id))
+    .returning();
+  if (row) tenantCache.forget(row);
+  return row ?? null;
+}
+
+export async function listTenants(db: PgDb) {
+  return db.select().from(tenants).orderBy(asc(tenants.slug));
+}
+
+export async function loadTenant(db: PgDb, ref: TenantRef): Promise<Tenant | null> {
+  const [row] = await db
+    .select()
+    .from(tenants)
+    .where("id" in ref ? eq(tenants.id, ref.id) : eq(tenants.slug, ref.slug))
+    .limit(1);
+  return row ?? null;
+}
+
+type CacheEntry = { tenant: Tenant | null; at: number };
+
+/**
+ * Tenants by id and by slug, remembered for a minute like API keys are;
+ * config edits made on another instance show up here within that time.
+ */
+export class TenantCache {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(
+    private ttlMs = CACHE_TTL_MS,
+    private maxEntries = MAX_CACHED_TENANTS,
+  ) {}
+
+  async find(ref: TenantRef, load: (ref: TenantRef) => Promise<Tenant | null>): Promise<Tenant | null> {
+    const key = "id" in ref ? `id:${ref.id}` : `slug:${ref.slug}`;
+    const hit = this.entries.get(key);
+    if (hit && Date.now() - hit.at < this.ttlMs) return hit.tenant;
+
+    const tenant = await load(ref);
+    this.entries.delete(key);
+    this.entries.set(key, { tenant, at: Date.now() });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+    return tenant;
+  }
+
+  forget(tenant: Pick<Tenant, "id" | "slug">) {
+    this.entries.delete(`id:${tenant.id}`);
+    this.entries.delete(`slug:${tenant.slug}`);
+  }
+}
+
+export const tenantCache = new TenantCache();
+
+// the tenant's name, persona and refusal for grounded answers
+export function assistantProfile(tenant: Pick<Tenant, "name" | "config">): AssistantProfile {
+  return {
+    name: tenant.name,
+    persona: tenant.config.systemPrompt ?? null,
+    refusal: tenant.config.refusalMessage ?? null,
+  };
+}
@@ -0,0 +1,20 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { ADMIN_COOKIE, verifyAdminToken } from "@/lib/admin/auth";
+
+export async function middleware(req: NextRequest) {
+  const { pathname } = req.nextUrl;
+  if (pathname === "/admin/login") return NextResponse.next();
+
+  const ok = await verifyAdminToken(req.cookies.get(ADMIN_COOKIE)?.value);
+  if (ok) return NextResponse.next();
+
+  const login = req.nextUrl.clone();
+  login.pathname = "/admin/login";
+  login.search = pathname === "/admin" ? "" : `?next=${encodeURIComponent(pathname)}`;
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  matcher: ["/admin/:path*"],
+};
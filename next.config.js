@@ -3,6 +3,16 @@ const nextConfig = {
   reactStrictMode: true,
   experimental: {
     appDir: true,
+    // instrumentation.ts validates the configuration at boot
+    instrumentationHook: true,
+    // native ONNX runtime for the local embedding provider, and pdf.js with its
+    // worker file for uploads; keep them out of the bundle
+    serverComponentsExternalPackages: [
+      "@huggingface/transformers",
+      "onnxruntime-node",
+      "pdfjs-dist",
+      "mammoth",
+    ],
   },
 };
 
@@ -0,0 +1,75 @@
+import {
+  apiPath,
+  type AnswerRequest,
+  type AnswerResponse,
+  type ApiError,
+  type FeedbackRequest,
+  type FeedbackResponse,
+  type LogRequest,
+  type LogResponse,
+} from "../lib/api/v1";
+import type { WidgetConfig } from "./config";
+
+export class WidgetApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "WidgetApiError";
+  }
+}
+
+const SESSION_STORAGE_KEY = "wimo_chat_session";
+
+// one id per browser tab, shared by /answer (follow-ups) and /log (analytics)
+export function sessionId() {
+  try {
+    const existing = window.sessionStorage.getItem(SESSION_STORAGE_KEY);
+    if (existing) return existing;
+    const id = crypto.randomUUID();
+    window.sessionStorage.setItem(SESSION_STORAGE_KEY, id);
+    return id;
+  } catch {
+    // storage blocked (private mode, sandboxed iframe): a fresh id per page load
+    return `s-${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  }
+}
+
+/**
+ * Typed calls to the versioned widget API. The publishable key goes in
+ * X-Api-Key; X-Tenant is only sent when the embed names a tenant.
+ */
+export function createClient(config: Pick<WidgetConfig, "apiBase" | "key" | "tenant">) {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.key) headers["X-Api-Key"] = config.key;
+  if (config.tenant) headers["X-Tenant"] = config.tenant;
+
+  async function post<T>(endpoint: "answer" | "log" | "feedback", body: unknown, keepalive = false): Promise<T> {
+    const res = await fetch(`${config.apiBase}${apiPath(endpoint)}`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+      keepalive,
+    });
+    const json = (await res.json().catch(() => null)) as T | ApiError | null;
+    if (!res.ok || !json || (json as ApiError).ok === false) {
+      throw new WidgetApiError(res.status, (json as ApiError | null)?.error ?? `HTTP ${res.status}`);
+    }
+    return json as T;
+  }
+
+  return {
+    answer: (req: AnswerRequest) => post<AnswerResponse>("answer", req),
+    feedback: (req: FeedbackRequest) => post<FeedbackResponse>("feedback", req),
+    // keepalive so a log sent as the shopper navigates away still lands;
+    // a failed log never surfaces in the chat
+    log: (req: LogRequest) =>
+      post<LogResponse>("log", req, true).then(
+        () => undefined,
+        () => undefined,
+      ),
+  };
+}
+
+export type WidgetClient = ReturnType<typeof createClient>;
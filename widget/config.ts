@@ -0,0 +1,71 @@
+export type WidgetPosition = "bottom-right" | "bottom-left";
+
+export type WidgetConfig = {
+  // publishable key ("pk_…") issued for the storefront's origin
+  key: string | null;
+  // tenant slug; only needed without a key, since keys carry their tenant
+  tenant: string | null;
+  // where this app is served; defaults to the origin the script was loaded from
+  apiBase: string;
+  title: string;
+  greeting: string;
+  placeholder: string;
+  position: WidgetPosition;
+  // any CSS color; buttons, the launcher and the shopper's bubbles
+  accent: string;
+  // offer "see what customers said?" after an answer
+  offerReviews: boolean;
+  // report clicks on sources and reviews to /api/v1/log (questions are recorded server-side)
+  log: boolean;
+  // start with the panel open
+  open: boolean;
+};
+
+export type WidgetOptions = Partial<WidgetConfig>;
+
+const DEFAULTS: Omit<WidgetConfig, "apiBase"> = {
+  key: null,
+  tenant: null,
+  title: "Ask us anything",
+  greeting: "Hi! Ask me about shipping, returns, sizing or anything else.",
+  placeholder: "Type your question…",
+  position: "bottom-right",
+  accent: "#111827",
+  offerReviews: true,
+  log: true,
+  open: false,
+};
+
+// "false" / "0" switch a boolean attribute off; anything else present switches it on
+function flag(value: string | undefined) {
+  if (value === undefined) return undefined;
+  return value !== "false" && value !== "0";
+}
+
+function fromScript(script: HTMLScriptElement): WidgetOptions {
+  const d = script.dataset;
+  const options: WidgetOptions = {
+    key: d.key,
+    tenant: d.tenant,
+    apiBase: d.apiBase,
+    title: d.title,
+    greeting: d.greeting,
+    placeholder: d.placeholder,
+    position: d.position === "bottom-left" ? "bottom-left" : d.position ? "bottom-right" : undefined,
+    accent: d.accent,
+    offerReviews: flag(d.offerReviews),
+    log: flag(d.log),
+    open: flag(d.open),
+  };
+  return Object.fromEntries(Object.entries(options).filter(([, v]) => v !== undefined));
+}
+
+/**
+ * Defaults, then the <script data-*> attributes, then options passed to
+ * WimoChat.init() (or window.WimoChatConfig), later ones winning.
+ */
+export function resolveConfig(script: HTMLScriptElement | null, options: WidgetOptions = {}): WidgetConfig {
+  const apiBase = script?.src ? new URL(script.src).origin : window.location.origin;
+  const merged = { ...DEFAULTS, apiBase, ...(script ? fromScript(script) : {}), ...options };
+  return { ...merged, apiBase: merged.apiBase.replace(/\/+$/, "") };
+}
@@ -0,0 +1,24 @@
+// element with a class and plain-text content; nothing from the API is ever parsed as HTML
+export function el<K extends keyof HTMLElementTagNameMap>(tag: K, className?: string, text?: string) {
+  const node = document.createElement(tag);
+  if (className) node.className = className;
+  if (text != null) node.textContent = text;
+  return node;
+}
+
+// http(s) links only, opened in a new tab
+export function safeLink(href: string | null | undefined, text: string, className?: string) {
+  if (!href) return null;
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") return null;
+  const a = el("a", className, text);
+  a.href = url.toString();
+  a.target = "_blank";
+  a.rel = "noopener noreferrer";
+  return a;
+}
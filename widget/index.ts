@@ -0,0 +1,56 @@
+// Embeddable chat widget, built to public/widget/v1.js (npm run build:widget):
+//
+//   <script src="https://<this app>/widget/v1.js" data-key="pk_…" async></script>
+//
+// data-* attributes (see config.ts) or window.WimoChatConfig configure it; a
+// page can also call WimoChat.init({ … }) itself. It only talks to /api/v1.
+
+import { API_VERSION } from "../lib/api/v1";
+import { createClient } from "./client";
+import { resolveConfig, type WidgetOptions } from "./config";
+import { mountWidget, type WidgetHandle } from "./panel";
+
+export type WimoChatApi = {
+  version: string;
+  // mounts the widget (once; later calls return the same handle)
+  init(options?: WidgetOptions): WidgetHandle;
+  open(): void;
+  close(): void;
+  ask(query: string): Promise<void>;
+};
+
+declare global {
+  interface Window {
+    WimoChat?: WimoChatApi;
+    WimoChatConfig?: WidgetOptions;
+  }
+}
+
+// captured now: currentScript is only set while this file first runs
+const script = document.currentScript as HTMLScriptElement | null;
+let handle: WidgetHandle | null = null;
+
+function init(options?: WidgetOptions) {
+  if (handle) return handle;
+  const config = resolveConfig(script, { ...window.WimoChatConfig, ...options });
+  handle = mountWidget(config, createClient(config));
+  return handle;
+}
+
+function whenReady(fn: () => void) {
+  if (document.readyState === "loading") document.addEventListener("DOMContentLoaded", fn, { once: true });
+  else fn();
+}
+
+if (!window.WimoChat) {
+  window.WimoChat = {
+    version: API_VERSION,
+    init,
+    open: () => init().open(),
+    close: () => handle?.close(),
+    ask: (query) => init().ask(query),
+  };
+
+  // a key, a tenant or a page-level config means "mount me"; otherwise wait for init()
+  if (script?.dataset.key || script?.dataset.tenant || window.WimoChatConfig) whenReady(() => init());
+}
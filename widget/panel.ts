@@ -0,0 +1,270 @@
+import type { AnswerResponse, FeedbackRequest, ReviewsAnswer, WidgetEvent } from "../lib/api/v1";
+import type { ChatTurn } from "../lib/chat/memory";
+import { sessionId, type WidgetClient } from "./client";
+import type { WidgetConfig } from "./config";
+import { el, safeLink } from "./dom";
+import { reviewCard } from "./reviews";
+import { widgetStyles } from "./styles";
+
+// turns sent along as client-side history; the server keeps its own per session
+const MAX_HISTORY_TURNS = 12;
+const ERROR_MESSAGE = "Sorry, something went wrong. Please try again.";
+
+export type WidgetHandle = {
+  open(): void;
+  close(): void;
+  toggle(): void;
+  // ask a question as if the shopper typed it
+  ask(query: string): Promise<void>;
+  destroy(): void;
+};
+
+/**
+ * Launcher button plus chat panel, in a shadow root on <body>. Each question
+ * goes to /answer; FAQ answers and the refusal can be followed by "see what
+ * customers said?", which asks /answer again with showReviews. Both can be
+ * rated, which goes to /feedback.
+ */
+export function mountWidget(config: WidgetConfig, client: WidgetClient): WidgetHandle {
+  const host = el("div");
+  host.setAttribute("data-wimo-chat", "");
+  const shadow = host.attachShadow({ mode: "open" });
+
+  const style = el("style", undefined, widgetStyles(config.accent));
+  const root = el("div", `wc-root ${config.position === "bottom-left" ? "left" : "right"}`);
+
+  const panel = el("section", "wc-panel");
+  panel.setAttribute("role", "dialog");
+  panel.setAttribute("aria-label", config.title);
+  const header = el("header", "wc-header");
+  const close = el("button", "wc-close", "×");
+  close.type = "button";
+  close.setAttribute("aria-label", "Close chat");
+  header.append(el("span", undefined, config.title), close);
+
+  const messages = el("div", "wc-messages");
+  messages.setAttribute("role", "log");
+  messages.setAttribute("aria-live", "polite");
+
+  const form = el("form", "wc-form");
+  const input = el("input", "wc-input");
+  input.type = "text";
+  input.placeholder = config.placeholder;
+  input.setAttribute("aria-label", config.placeholder);
+  input.maxLength = 500;
+  const send = el("button", "wc-send", "Send");
+  send.type = "submit";
+  form.append(input, send);
+  panel.append(header, messages, form);
+
+  const launcher = el("button", "wc-launcher", "💬");
+  launcher.type = "button";
+  launcher.setAttribute("aria-label", "Open chat");
+
+  root.append(panel, launcher);
+  shadow.append(style, root);
+  (document.body ?? document.documentElement).append(host);
+
+  const session = sessionId();
+  const history: ChatTurn[] = [];
+  let busy = false;
+
+  const scroll = () => {
+    messages.scrollTop = messages.scrollHeight;
+  };
+  const push = (node: HTMLElement) => {
+    messages.append(node);
+    scroll();
+    return node;
+  };
+  const remember = (role: ChatTurn["role"], content: string) => {
+    history.push({ role, content });
+    history.splice(0, Math.max(0, history.length - MAX_HISTORY_TURNS));
+  };
+  // /answer records the questions themselves; only what happens in the browser goes to /log
+  const track = (
+    event: WidgetEvent,
+    query: string,
+    interactionId: string,
+    detail: { faq_title?: string | null; reviews_count?: number } = {},
+  ) => {
+    if (!config.log) return;
+    void client.log({
+      event,
+      interaction_id: interactionId,
+      query_text: query,
+      ...detail,
+      session_id: session,
+      url_path: window.location.pathname,
+      user_agent: navigator.userAgent,
+    });
+  };
+  const setBusy = (value: boolean) => {
+    busy = value;
+    input.disabled = value;
+    send.disabled = value;
+  };
+
+  function setOpen(open: boolean) {
+    panel.hidden = !open;
+    launcher.setAttribute("aria-expanded", String(open));
+    if (open) {
+      if (messages.childElementCount === 0 && config.greeting) push(el("div", "wc-msg bot", config.greeting));
+      input.focus();
+    }
+  }
+
+  // 👍/👎 under an answer; one vote per answer, a failed vote can be retried
+  function rate(msg: HTMLElement, req: Omit<FeedbackRequest, "rating" | "session_id">) {
+    const bar = el("div", "wc-rate");
+    const label = el("span", undefined, "Helpful?");
+    const button = (rating: FeedbackRequest["rating"], text: string, aria: string) => {
+      const b = el("button", undefined, text);
+      b.type = "button";
+      b.setAttribute("aria-label", aria);
+      b.setAttribute("aria-pressed", "false");
+      b.addEventListener("click", async () => {
+        up.disabled = down.disabled = true;
+        b.setAttribute("aria-pressed", "true");
+        try {
+          await client.feedback({ ...req, rating, session_id: session });
+          label.textContent = "Thanks for the feedback";
+        } catch {
+          up.disabled = down.disabled = false;
+          b.setAttribute("aria-pressed", "false");
+        }
+      });
+      return b;
+    };
+    const up = button("up", "👍", "Helpful");
+    const down = button("down", "👎", "Not helpful");
+    bar.append(label, up, down);
+    msg.append(bar);
+  }
+
+  function offerReviews(query: string, interactionId: string) {
+    if (!config.offerReviews) return;
+    const ask = el("div", "wc-ask");
+    const yes = el("button", "wc-chip", "Yes, show reviews");
+    yes.type = "button";
+    yes.addEventListener("click", () => {
+      yes.disabled = true;
+      track("show_reviews", query, interactionId);
+      void showReviews(query);
+    });
+    ask.append(el("span", undefined, "Want to see what customers said about this?"), yes);
+    push(ask);
+  }
+
+  function renderAnswer(res: AnswerResponse, query: string) {
+    if (res.source === "faq") {
+      const top = res.results[0];
+      const msg = el("div", "wc-msg bot", top.content);
+      const link = safeLink(top.url, top.citation ?? "Source");
+      link?.addEventListener("click", () =>
+        track("source_click", query, res.interaction_id, { faq_title: top.citation ?? top.url }),
+      );
+      if (link || top.citation) {
+        const src = el("span", "wc-source");
+        src.append(link ?? top.citation ?? "");
+        msg.append(src);
+      }
+      rate(msg, { interaction_id: res.interaction_id, chunk_id: top.chunkId });
+      push(msg);
+      return top.content;
+    }
+    if (res.source === "none") {
+      const msg = el("div", "wc-msg bot", res.message);
+      rate(msg, { interaction_id: res.interaction_id });
+      push(msg);
+      return res.message;
+    }
+    return renderReviews(res, query);
+  }
+
+  function renderReviews(res: ReviewsAnswer, query: string) {
+    if (res.results.length === 0) {
+      const text = "No customer reviews mention that yet.";
+      push(el("div", "wc-msg bot", text));
+      return text;
+    }
+    const list = el("div", "wc-reviews");
+    list.append(...res.results.map((r) => reviewCard(r, () => track("review_click", query, res.interaction_id))));
+    const all = safeLink(res.reviewLink, "See all reviews", "wc-all-reviews");
+    if (all) {
+      all.addEventListener("click", () => track("all_reviews_click", query, res.interaction_id, { reviews_count: res.results.length }));
+      list.append(all);
+    }
+    push(list);
+    return res.results.map((r) => r.content).join("\n\n");
+  }
+
+  async function showReviews(query: string) {
+    if (busy) return;
+    setBusy(true);
+    const typing = push(el("div", "wc-msg bot typing", "Looking through reviews…"));
+    try {
+      const res = await client.answer({
+        query,
+        session_id: session,
+        url_path: window.location.pathname,
+        showReviews: true,
+      });
+      typing.remove();
+      renderAnswer(res, query);
+    } catch {
+      typing.remove();
+      push(el("div", "wc-msg bot", ERROR_MESSAGE));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function ask(raw: string) {
+    const query = raw.trim();
+    if (!query || busy) return;
+    setOpen(true);
+    setBusy(true);
+    push(el("div", "wc-msg user", query));
+    const typing = push(el("div", "wc-msg bot typing", "Typing…"));
+    try {
+      const res = await client.answer({
+        query,
+        session_id: session,
+        url_path: window.location.pathname,
+        history: history.slice(),
+      });
+      typing.remove();
+      const text = renderAnswer(res, query);
+      remember("user", query);
+      remember("assistant", text);
+      if (res.source !== "faq" && res.source !== "none") return;
+      if (res.canShowReviews) offerReviews(res.standaloneQuery ?? query, res.interaction_id);
+    } catch {
+      typing.remove();
+      push(el("div", "wc-msg bot", ERROR_MESSAGE));
+    } finally {
+      setBusy(false);
+      input.focus();
+    }
+  }
+
+  launcher.addEventListener("click", () => setOpen(panel.hidden));
+  close.addEventListener("click", () => setOpen(false));
+  form.addEventListener("submit", (e) => {
+    e.preventDefault();
+    const query = input.value;
+    input.value = "";
+    void ask(query);
+  });
+
+  setOpen(config.open);
+
+  return {
+    open: () => setOpen(true),
+    close: () => setOpen(false),
+    toggle: () => setOpen(panel.hidden),
+    ask,
+    destroy: () => host.remove(),
+  };
+}
@@ -0,0 +1,28 @@
+import type { ReviewResult } from "../lib/api/v1";
+import { el, safeLink } from "./dom";
+
+function stars(rating: number) {
+  const full = Math.round(Math.min(5, Math.max(0, rating)));
+  return "★".repeat(full) + "☆".repeat(5 - full);
+}
+
+// one customer review: stars, who and when, what they said, where it came from
+export function reviewCard(review: ReviewResult, onLinkClick?: () => void): HTMLElement {
+  const card = el("article", "wc-review");
+  const head = el("div", "wc-review-head");
+  if (review.rating != null) {
+    const rating = el("span", "wc-stars", stars(review.rating));
+    rating.setAttribute("aria-label", `${review.rating} out of 5`);
+    head.append(rating);
+  }
+  const byline = [review.reviewer, review.date].filter(Boolean).join(" · ");
+  if (byline) head.append(el("span", "wc-review-by", byline));
+  card.append(head, el("p", "wc-review-text", review.content));
+
+  const link = safeLink(review.link, `View on ${review.platform}`, "wc-review-link");
+  if (link) {
+    if (onLinkClick) link.addEventListener("click", onLinkClick);
+    card.append(link);
+  }
+  return card;
+}
@@ -0,0 +1,42 @@
+// lives inside the widget's shadow root, so storefront CSS can't reach it and it can't leak out
+export function widgetStyles(accent: string) {
+  // a color, not a way to inject more CSS
+  const color = /^[#\w(),.%\s-]+$/.test(accent) ? accent : "#111827";
+  return `
+:host { all: initial; --wc-accent: ${color}; font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; }
+* { box-sizing: border-box; }
+.wc-root { position: fixed; bottom: 20px; z-index: 2147483000; display: flex; flex-direction: column; gap: 12px; }
+.wc-root.right { right: 20px; align-items: flex-end; }
+.wc-root.left { left: 20px; align-items: flex-start; }
+.wc-launcher { width: 56px; height: 56px; border-radius: 50%; border: 0; cursor: pointer; background: var(--wc-accent); color: #fff; font-size: 24px; box-shadow: 0 6px 20px rgba(0,0,0,.2); }
+.wc-panel { width: min(380px, calc(100vw - 40px)); height: min(560px, calc(100vh - 110px)); display: flex; flex-direction: column; background: #fff; color: #111827; border-radius: 14px; overflow: hidden; box-shadow: 0 12px 40px rgba(0,0,0,.25); }
+.wc-panel[hidden] { display: none; }
+.wc-header { display: flex; align-items: center; justify-content: space-between; padding: 14px 16px; background: var(--wc-accent); color: #fff; font-weight: 600; font-size: 15px; }
+.wc-close { border: 0; background: transparent; color: inherit; font-size: 20px; line-height: 1; cursor: pointer; }
+.wc-messages { flex: 1; overflow-y: auto; padding: 14px; display: flex; flex-direction: column; gap: 10px; font-size: 14px; line-height: 1.45; }
+.wc-msg { max-width: 85%; padding: 9px 12px; border-radius: 12px; white-space: pre-wrap; word-wrap: break-word; }
+.wc-msg.user { align-self: flex-end; background: var(--wc-accent); color: #fff; border-bottom-right-radius: 4px; }
+.wc-msg.bot { align-self: flex-start; background: #f3f4f6; border-bottom-left-radius: 4px; }
+.wc-msg.typing { color: #6b7280; font-style: italic; }
+.wc-source { display: block; margin-top: 6px; font-size: 12px; color: #4b5563; }
+.wc-source a, .wc-review-link, .wc-all-reviews { color: inherit; }
+.wc-ask { align-self: flex-start; display: flex; flex-wrap: wrap; align-items: center; gap: 8px; font-size: 13px; color: #374151; }
+.wc-chip { border: 1px solid var(--wc-accent); background: #fff; color: var(--wc-accent); border-radius: 999px; padding: 4px 12px; font-size: 13px; cursor: pointer; }
+.wc-chip:disabled { opacity: .5; cursor: default; }
+.wc-rate { display: flex; align-items: center; gap: 4px; margin-top: 6px; font-size: 12px; color: #6b7280; }
+.wc-rate button { border: 0; background: transparent; padding: 2px 4px; font-size: 14px; line-height: 1; cursor: pointer; border-radius: 6px; }
+.wc-rate button:hover:not(:disabled) { background: #e5e7eb; }
+.wc-rate button:disabled { cursor: default; opacity: .4; }
+.wc-rate button[aria-pressed="true"] { opacity: 1; background: #e5e7eb; }
+.wc-reviews { align-self: stretch; display: flex; flex-direction: column; gap: 8px; }
+.wc-review { border: 1px solid #e5e7eb; border-radius: 10px; padding: 10px 12px; background: #fff; }
+.wc-review-head { display: flex; justify-content: space-between; gap: 8px; font-size: 12px; color: #6b7280; }
+.wc-stars { color: #f59e0b; letter-spacing: 1px; }
+.wc-review-text { margin: 6px 0 0; white-space: pre-wrap; }
+.wc-review-link, .wc-all-reviews { display: inline-block; margin-top: 6px; font-size: 12px; }
+.wc-form { display: flex; gap: 8px; padding: 10px; border-top: 1px solid #e5e7eb; }
+.wc-input { flex: 1; min-width: 0; border: 1px solid #d1d5db; border-radius: 8px; padding: 9px 10px; font: inherit; font-size: 14px; color: inherit; }
+.wc-send { border: 0; border-radius: 8px; padding: 0 14px; background: var(--wc-accent); color: #fff; font: inherit; font-size: 14px; cursor: pointer; }
+.wc-send:disabled { opacity: .5; cursor: default; }
+`;
+}